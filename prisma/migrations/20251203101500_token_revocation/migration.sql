@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "revokedReason" TEXT;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "tokenHash" TEXT,
+ADD COLUMN     "tokenPrefix" TEXT;
+
+-- Backfill digests and display prefixes for existing plaintext tokens
+UPDATE "tokens"
+SET "tokenHash" = encode(sha256(convert_to("token", 'UTF8')), 'hex'),
+    "tokenPrefix" = left("token", 14);
+
+-- AlterTable
+ALTER TABLE "tokens" ALTER COLUMN "tokenHash" SET NOT NULL,
+ALTER COLUMN "tokenPrefix" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "tokens_token_key";
+
+-- AlterTable
+ALTER TABLE "tokens" DROP COLUMN "token";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tokens_tokenHash_key" ON "tokens"("tokenHash");
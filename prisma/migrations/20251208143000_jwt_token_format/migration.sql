@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "TokenFormat" AS ENUM ('opaque', 'jwt');
+
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "format" "TokenFormat" NOT NULL DEFAULT 'opaque',
+ADD COLUMN     "jti" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tokens_jti_key" ON "tokens"("jti");
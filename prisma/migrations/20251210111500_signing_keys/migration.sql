@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "SigningKeyStatus" AS ENUM ('active', 'retiring', 'retired');
+
+-- CreateTable
+CREATE TABLE "signing_keys" (
+    "kid" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "publicJwk" JSONB NOT NULL,
+    "encryptedPrivateKey" TEXT NOT NULL,
+    "status" "SigningKeyStatus" NOT NULL DEFAULT 'active',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retiringAt" TIMESTAMP(3),
+    "retiredAt" TIMESTAMP(3),
+
+    CONSTRAINT "signing_keys_pkey" PRIMARY KEY ("kid")
+);
+
+-- CreateIndex
+CREATE INDEX "signing_keys_status_idx" ON "signing_keys"("status");
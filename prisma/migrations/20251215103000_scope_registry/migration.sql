@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "scopes" (
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "parentName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scopes_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateIndex
+CREATE INDEX "scopes_parentName_idx" ON "scopes"("parentName");
+
+-- AddForeignKey
+ALTER TABLE "scopes" ADD CONSTRAINT "scopes_parentName_fkey" FOREIGN KEY ("parentName") REFERENCES "scopes"("name") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the scopes used so far so existing integrations keep working
+INSERT INTO "scopes" ("name", "description", "updatedAt") VALUES
+    ('read', 'Read access', CURRENT_TIMESTAMP),
+    ('write', 'Write access', CURRENT_TIMESTAMP),
+    ('delete', 'Delete access', CURRENT_TIMESTAMP),
+    ('admin', 'Administrative access', CURRENT_TIMESTAMP);
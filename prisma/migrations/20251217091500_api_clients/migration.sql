@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "clientId" TEXT;
+
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "clientId" TEXT;
+
+-- CreateTable
+CREATE TABLE "clients" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "apiKeyHash" TEXT NOT NULL,
+    "apiKeyPrefix" TEXT NOT NULL,
+    "allowedScopes" TEXT[],
+    "maxTokenLifetimeMinutes" INTEGER,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "keyRotatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "clients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clients_apiKeyHash_key" ON "clients"("apiKeyHash");
+
+-- CreateIndex
+CREATE INDEX "tokens_clientId_idx" ON "tokens"("clientId");
+
+-- AddForeignKey
+ALTER TABLE "tokens" ADD CONSTRAINT "tokens_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "TokenEventType" AS ENUM ('create', 'list', 'introspect', 'refresh', 'revoke', 'expire');
+
+-- CreateTable
+CREATE TABLE "token_events" (
+    "id" TEXT NOT NULL,
+    "type" "TokenEventType" NOT NULL,
+    "tokenId" TEXT,
+    "userId" TEXT,
+    "actor" TEXT NOT NULL,
+    "clientId" TEXT,
+    "ip" TEXT,
+    "userAgent" TEXT,
+    "requestId" TEXT,
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "token_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "token_events_userId_createdAt_idx" ON "token_events"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "token_events_type_createdAt_idx" ON "token_events"("type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "token_events_createdAt_idx" ON "token_events"("createdAt");
+
+-- Enforce append-only: events can be inserted but never changed or removed
+CREATE FUNCTION "token_events_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'token_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "token_events_append_only"
+    BEFORE UPDATE OR DELETE ON "token_events"
+    FOR EACH ROW EXECUTE FUNCTION "token_events_append_only"();
@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "TokenEventType" ADD VALUE 'update';
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "description" TEXT,
+ADD COLUMN     "name" TEXT;
+
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "description" TEXT,
+ADD COLUMN     "name" TEXT;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "TokenEventType" ADD VALUE 'extend';
+
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "idleTimeoutMinutes" INTEGER,
+ADD COLUMN     "maxExpiresAt" TIMESTAMP(3);
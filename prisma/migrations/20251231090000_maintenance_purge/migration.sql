@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "TokenEventType" ADD VALUE 'purge';
+
+-- CreateIndex
+CREATE INDEX "tokens_revokedAt_idx" ON "tokens"("revokedAt");
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_expiresAt_idx" ON "refresh_tokens"("expiresAt");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "lastUsedAt" TIMESTAMP(3),
+ADD COLUMN     "lastUsedIp" TEXT,
+ADD COLUMN     "useCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "tokens_lastUsedAt_idx" ON "tokens"("lastUsedAt");
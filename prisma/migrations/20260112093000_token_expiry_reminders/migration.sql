@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "token_expiry_reminders" (
+    "id" TEXT NOT NULL,
+    "tokenId" TEXT NOT NULL,
+    "windowHours" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "token_expiry_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "token_expiry_reminders_tokenId_windowHours_key" ON "token_expiry_reminders"("tokenId", "windowHours");
+
+-- AddForeignKey
+ALTER TABLE "token_expiry_reminders" ADD CONSTRAINT "token_expiry_reminders_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "tokens"("id") ON DELETE CASCADE ON UPDATE CASCADE;
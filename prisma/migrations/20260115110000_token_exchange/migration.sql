@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "parentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "tokens_parentId_idx" ON "tokens"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "tokens" ADD CONSTRAINT "tokens_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "tokens"("id") ON DELETE SET NULL ON UPDATE CASCADE;
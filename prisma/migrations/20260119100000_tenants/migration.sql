@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "tenants" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "allowedScopes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "maxTokenLifetimeMinutes" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenants_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing tokens and clients belong to the default tenant
+INSERT INTO "tenants" ("id", "name", "updatedAt") VALUES ('default', 'Default', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN     "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- CreateIndex
+CREATE INDEX "clients_tenantId_idx" ON "clients"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "tokens_tenantId_userId_idx" ON "tokens"("tenantId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "tokens" ADD CONSTRAINT "tokens_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "clients" ADD CONSTRAINT "clients_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
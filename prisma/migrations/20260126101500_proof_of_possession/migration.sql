@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN     "cnfJkt" TEXT,
+ADD COLUMN     "cnfX5tS256" TEXT;
+
+-- AlterTable
+ALTER TABLE "tokens" ADD COLUMN     "cnfJkt" TEXT,
+ADD COLUMN     "cnfX5tS256" TEXT;
+
+-- CreateTable
+CREATE TABLE "possession_proofs" (
+    "id" TEXT NOT NULL,
+    "thumbprint" TEXT NOT NULL,
+    "jti" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "possession_proofs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "possession_proofs_thumbprint_jti_key" ON "possession_proofs"("thumbprint", "jti");
+
+-- CreateIndex
+CREATE INDEX "possession_proofs_expiresAt_idx" ON "possession_proofs"("expiresAt");
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "token_events" ADD COLUMN     "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- Existing events belong to their token's tenant; the append-only trigger
+-- is paused for the backfill. Events of purged tokens stay in the default tenant.
+ALTER TABLE "token_events" DISABLE TRIGGER "token_events_append_only";
+
+UPDATE "token_events"
+SET "tenantId" = "tokens"."tenantId"
+FROM "tokens"
+WHERE "token_events"."tokenId" = "tokens"."id"
+  AND "tokens"."tenantId" <> 'default';
+
+ALTER TABLE "token_events" ENABLE TRIGGER "token_events_append_only";
+
+-- CreateIndex
+CREATE INDEX "token_events_tenantId_createdAt_idx" ON "token_events"("tenantId", "createdAt");
@@ -0,0 +1,9 @@
+-- AlterTable
+-- Existing subscriptions belong to the default tenant
+ALTER TABLE "webhook_subscriptions" ADD COLUMN     "tenantId" TEXT NOT NULL DEFAULT 'default';
+
+-- CreateIndex
+CREATE INDEX "webhook_subscriptions_tenantId_idx" ON "webhook_subscriptions"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "webhook_subscriptions" ADD CONSTRAINT "webhook_subscriptions_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+-- Existing buckets are treated as full and purged by the next run
+ALTER TABLE "rate_limit_buckets" ADD COLUMN     "fullAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "rate_limit_buckets_fullAt_idx" ON "rate_limit_buckets"("fullAt");
@@ -0,0 +1,12 @@
+import { jwksController } from '@/keys/key.controller';
+
+/**
+ * GET /.well-known/jwks.json
+ * Publishes the public keys used to sign JWT tokens
+ * 
+ * Response: 200 OK with { "keys": [ { "kty": "EC", "kid": "...", "alg": "ES256", ... } ] }
+ * Includes the active key and retiring keys still inside their grace window
+ */
+export async function GET() {
+  return jwksController();
+}
@@ -0,0 +1,16 @@
+import { NextRequest } from 'next/server';
+import { rotateClientApiKeyController } from '@/clients/client.controller';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/admin/clients/:id/rotate
+ * Replaces a client's API key; the old key stops working immediately
+ * 
+ * Response: 200 OK with client details and the new plaintext API key,
+ * 404 if not registered in the caller's tenant
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return rotateClientApiKeyController(request, id);
+}
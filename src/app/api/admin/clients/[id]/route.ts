@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server';
+import { getClientController, updateClientController } from '@/clients/client.controller';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/admin/clients/:id
+ * Retrieves a single API client (admin key only)
+ * 
+ * Response: 200 OK with client details, 404 if not registered in the caller's tenant
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return getClientController(request, id);
+}
+
+/**
+ * PATCH /api/admin/clients/:id
+ * Updates a client's name, restrictions or enabled status (admin key only)
+ * 
+ * Request body:
+ * {
+ *   "allowedScopes": ["billing:read"],
+ *   "maxTokenLifetimeMinutes": null,
+ *   "enabled": false
+ * }
+ * 
+ * Response: 200 OK with client details, 404 if not registered in the caller's tenant
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return updateClientController(request, id);
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { createClientController, listClientsController } from '@/clients/client.controller';
+
+/**
+ * GET /api/admin/clients
+ * Lists the API clients of the tenant selected with X-Tenant-Id (admin key only)
+ * 
+ * Response: 200 OK with array of clients, API keys masked
+ */
+export async function GET(request: NextRequest) {
+  return listClientsController(request);
+}
+
+/**
+ * POST /api/admin/clients
+ * Registers an API client and issues its key (admin key only)
+ * 
+ * Request body:
+ * {
+ *   "name": "billing-service",
+ *   "allowedScopes": ["billing:*"],
+ *   "maxTokenLifetimeMinutes": 60
+ * }
+ * 
+ * Response: 201 Created with client details; the plaintext API key is
+ * returned only in this response
+ */
+export async function POST(request: NextRequest) {
+  return createClientController(request);
+}
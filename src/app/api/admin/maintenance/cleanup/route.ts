@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { runCleanupController } from '@/maintenance/maintenance.controller';
+
+/**
+ * POST /api/admin/maintenance/cleanup
+ * Removes tokens that expired or were revoked before the retention window,
+ * and expired refresh tokens (admin key only)
+ * 
+ * Request body (optional, defaults from CLEANUP_* settings):
+ * {
+ *   "dryRun": true,
+ *   "retentionDays": 30,
+ *   "batchSize": 500
+ * }
+ * 
+ * Response: 200 OK with removed counts (or counts that would be removed
+ * in a dry run), 409 when another instance is already cleaning up
+ */
+export async function POST(request: NextRequest) {
+  return runCleanupController(request);
+}
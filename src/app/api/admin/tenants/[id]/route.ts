@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { getTenantController, updateTenantController } from '@/tenants/tenant.controller';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/admin/tenants/:id
+ * Retrieves a single tenant (admin key only)
+ * 
+ * Response: 200 OK with tenant details, 404 if it does not exist
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return getTenantController(request, id);
+}
+
+/**
+ * PATCH /api/admin/tenants/:id
+ * Updates a tenant's name or token policy (admin key only)
+ * 
+ * Request body:
+ * {
+ *   "allowedScopes": ["billing:read"],
+ *   "maxTokenLifetimeMinutes": null
+ * }
+ * 
+ * Response: 200 OK with tenant details, 404 if it does not exist
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return updateTenantController(request, id);
+}
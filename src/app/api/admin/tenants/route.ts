@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+import { createTenantController, listTenantsController } from '@/tenants/tenant.controller';
+
+/**
+ * GET /api/admin/tenants
+ * Lists tenants (admin key only)
+ * 
+ * Response: 200 OK with array of tenants
+ */
+export async function GET(request: NextRequest) {
+  return listTenantsController(request);
+}
+
+/**
+ * POST /api/admin/tenants
+ * Creates a tenant (admin key only)
+ * 
+ * Request body:
+ * {
+ *   "id": "acme",                        // optional, generated when omitted
+ *   "name": "Acme Corp",
+ *   "allowedScopes": ["billing:*"],      // optional, empty for no limit
+ *   "maxTokenLifetimeMinutes": 1440      // optional, null for no cap
+ * }
+ * 
+ * Response: 201 Created with tenant details, 409 if the id is taken
+ */
+export async function POST(request: NextRequest) {
+  return createTenantController(request);
+}
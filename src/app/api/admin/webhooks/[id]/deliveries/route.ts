@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server';
+import { listWebhookDeliveriesController } from '@/webhooks/webhook.controller';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/admin/webhooks/:id/deliveries
+ * Delivery log of a subscription, newest first (admin key only)
+ * 
+ * Query parameters:
+ * - status: pending, delivered or failed (optional)
+ * - limit: page size, 1-100 (default 50)
+ * - cursor: `nextCursor` of the previous page
+ * 
+ * Response: 200 OK with { deliveries, nextCursor }; each delivery lists its
+ * attempts with status code, error and duration. 404 if it does not exist or belongs to another tenant
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return listWebhookDeliveriesController(request, id);
+}
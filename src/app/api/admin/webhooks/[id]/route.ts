@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import {
+  deleteWebhookController,
+  getWebhookController,
+  updateWebhookController,
+} from '@/webhooks/webhook.controller';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/admin/webhooks/:id
+ * Retrieves a single webhook subscription (admin key only)
+ * 
+ * Response: 200 OK with subscription details, 404 if it does not exist or belongs to another tenant
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return getWebhookController(request, id);
+}
+
+/**
+ * PATCH /api/admin/webhooks/:id
+ * Updates a subscription's URL, event filter, description or enabled status
+ * (admin key only)
+ * 
+ * Request body:
+ * {
+ *   "eventTypes": ["token.revoked"],
+ *   "enabled": false
+ * }
+ * 
+ * Response: 200 OK with subscription details, 404 if it does not exist or belongs to another tenant
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return updateWebhookController(request, id);
+}
+
+/**
+ * DELETE /api/admin/webhooks/:id
+ * Removes a subscription with its queued deliveries and delivery log
+ * (admin key only)
+ * 
+ * Response: 200 OK with the removed subscription, 404 if it does not exist or belongs to another tenant
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return deleteWebhookController(request, id);
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+import { createWebhookController, listWebhooksController } from '@/webhooks/webhook.controller';
+
+/**
+ * GET /api/admin/webhooks
+ * Lists the webhook subscriptions of the tenant selected with X-Tenant-Id (admin key only)
+ * 
+ * Response: 200 OK with array of subscriptions, secrets omitted
+ */
+export async function GET(request: NextRequest) {
+  return listWebhooksController(request);
+}
+
+/**
+ * POST /api/admin/webhooks
+ * Subscribes an endpoint to token events of the tenant selected with
+ * X-Tenant-Id (admin key only)
+ * 
+ * Request body:
+ * {
+ *   "url": "https://hooks.example.com/tokens",
+ *   "eventTypes": ["token.created", "token.revoked", "token.expiring"],
+ *   "description": "Provisioning service"
+ * }
+ * 
+ * Response: 201 Created with the subscription; `secret` signs every payload
+ * and is only returned here. 503 when KEY_ENCRYPTION_KEY is not configured,
+ * 404 if the tenant does not exist.
+ */
+export async function POST(request: NextRequest) {
+  return createWebhookController(request);
+}
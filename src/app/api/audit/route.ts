@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+import { getTokenEventsController } from '@/audit/audit.controller';
+
+/**
+ * GET /api/audit?userId=user123&type=revoke&from=2025-01-01T00:00:00Z&limit=50&cursor=...
+ * Lists token audit events of the caller's tenant, newest first (admin key only)
+ * 
+ * Query parameters (all optional):
+ * - userId, type: filter events
+ * - from, to: ISO 8601 time bounds (inclusive)
+ * - limit: page size, 1-100 (default 50)
+ * - cursor: nextCursor of the previous page
+ * 
+ * Response: 200 OK with { events, nextCursor }
+ */
+export async function GET(request: NextRequest) {
+  return getTokenEventsController(request);
+}
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server';
+import { oauthTokenController } from '@/oauth/oauth.controller';
+
+/**
+ * POST /api/oauth/token
+ * OAuth 2.0 token endpoint for the client_credentials and token exchange grants
+ * 
+ * Request body (application/x-www-form-urlencoded):
+ * grant_type=client_credentials&scope=read%20write
+ * 
+ * Token exchange (RFC 8693) issues a child token with a subset of the
+ * subject token's scopes, expiring no later than it:
+ * grant_type=urn:ietf:params:oauth:grant-type:token-exchange
+ *   &subject_token=token_...&subject_token_type=urn:ietf:params:oauth:token-type:access_token
+ *   &scope=read&expires_in=600   // both optional
+ * 
+ * Client authentication: Authorization: Basic base64(client_id:client_secret),
+ * or client_id and client_secret in the body. The secret is the client's API key.
+ * 
+ * Response: 200 OK with { access_token, token_type, expires_in, scope }
+ * (plus issued_token_type for token exchange)
+ * Errors: { error, error_description } with RFC 6749 error codes
+ */
+export async function POST(request: NextRequest) {
+  return oauthTokenController(request);
+}
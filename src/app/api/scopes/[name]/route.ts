@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import {
+  deleteScopeController,
+  getScopeController,
+  updateScopeController,
+} from '@/scopes/scope.controller';
+
+type RouteParams = { params: Promise<{ name: string }> };
+
+/**
+ * GET /api/scopes/:name
+ * Retrieves a single scope
+ * 
+ * Response: 200 OK with scope details, 404 if not registered
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { name } = await params;
+  return getScopeController(request, decodeURIComponent(name));
+}
+
+/**
+ * PATCH /api/scopes/:name
+ * Updates a scope's description or parent
+ * 
+ * Request body:
+ * {
+ *   "description": "Read repositories",
+ *   "parent": null
+ * }
+ * 
+ * Response: 200 OK with scope details, 404 if not registered
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { name } = await params;
+  return updateScopeController(request, decodeURIComponent(name));
+}
+
+/**
+ * DELETE /api/scopes/:name
+ * Removes a scope from the catalogue
+ * 
+ * Response: 200 OK with the removed scope, 404 if not registered,
+ * 409 if other scopes still name it as their parent
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { name } = await params;
+  return deleteScopeController(request, decodeURIComponent(name));
+}
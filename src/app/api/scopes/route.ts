@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { createScopeController, listScopesController } from '@/scopes/scope.controller';
+
+/**
+ * GET /api/scopes
+ * Lists the scope catalogue
+ * 
+ * Response: 200 OK with array of scopes
+ */
+export async function GET(request: NextRequest) {
+  return listScopesController(request);
+}
+
+/**
+ * POST /api/scopes
+ * Registers a scope
+ * 
+ * Request body:
+ * {
+ *   "name": "repo:read",
+ *   "description": "Read repositories",
+ *   "parent": "repo:write"   // optional, the broader scope implying this one
+ * }
+ * 
+ * Response: 201 Created with scope details
+ */
+export async function POST(request: NextRequest) {
+  return createScopeController(request);
+}
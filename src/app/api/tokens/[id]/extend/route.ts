@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { extendTokenController } from '@/tokens/token.controller';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/tokens/:id/extend
+ * Extends an active token's expiry
+ * 
+ * Request body:
+ * {
+ *   "expiresInMinutes": 1440
+ * }
+ * 
+ * The new expiry is counted from now. The token's total lifetime since
+ * creation cannot exceed 1 year, or the issuing API client's maximum.
+ * 
+ * Response: 200 OK with token details, 400 when the new expiry exceeds the
+ * maximum lifetime or is earlier than the current one, 404 if it does not
+ * exist, 409 for inactive tokens and JWTs
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return extendTokenController(request, id);
+}
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { getTokenController, revokeTokenController, updateTokenController } from '@/tokens/token.controller';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/tokens/:id
+ * Retrieves a single token (masked)
+ * 
+ * Response: 200 OK with token details, 404 if it does not exist
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return getTokenController(request, id);
+}
+
+/**
+ * PATCH /api/tokens/:id
+ * Updates a token's labels, narrows its scopes or shortens its expiry
+ * 
+ * Request body (at least one field):
+ * {
+ *   "name": "CI deploy key",
+ *   "description": "Used by the release pipeline",
+ *   "scopes": ["read"],
+ *   "expiresAt": "2025-06-01T00:00:00Z"
+ * }
+ * 
+ * Response: 200 OK with token details, 400 when widening scopes or
+ * extending expiry, 404 if it does not exist, 409 when changing the scopes
+ * or expiry of an inactive token or a JWT
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return updateTokenController(request, id);
+}
+
+/**
+ * DELETE /api/tokens/:id
+ * Revokes a token; the row is kept with its revocation metadata
+ * 
+ * Optional request body:
+ * {
+ *   "reason": "Leaked in CI logs"
+ * }
+ * 
+ * Response: 200 OK with the revoked token, 404 if it does not exist
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return revokeTokenController(request, id);
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { revokeTokenBatchController } from '@/tokens/token.controller';
+
+/**
+ * POST /api/tokens/batch/revoke
+ * Revokes up to 100 tokens, atomically (default) or with partial success
+ * 
+ * Request body:
+ * {
+ *   "mode": "atomic",
+ *   "items": [
+ *     { "id": "clx123", "reason": "Offboarding" },
+ *     { "id": "clx456" }
+ *   ]
+ * }
+ * 
+ * Response: 200 OK when every item succeeded, otherwise 207 Multi-Status,
+ * with the status and token or error of each item
+ */
+export async function POST(request: NextRequest) {
+  return revokeTokenBatchController(request);
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { createTokenBatchController } from '@/tokens/token.controller';
+
+/**
+ * POST /api/tokens/batch
+ * Creates up to 100 tokens, atomically (default) or with partial success
+ * 
+ * Request body:
+ * {
+ *   "mode": "partial",
+ *   "items": [
+ *     { "userId": "123", "scopes": ["read"], "expiresInMinutes": 60 },
+ *     { "userId": "456", "scopes": ["read", "write"], "expiresInMinutes": 60 }
+ *   ]
+ * }
+ * 
+ * Response: 201 Created when every item succeeded, otherwise 207 Multi-Status,
+ * with the status and token or error of each item
+ */
+export async function POST(request: NextRequest) {
+  return createTokenBatchController(request);
+}
@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+import { introspectTokenController } from '@/tokens/token.controller';
+
+/**
+ * POST /api/tokens/introspect
+ * Reports whether a presented token is valid and what it grants
+ * 
+ * Request body:
+ * {
+ *   "token": "token_...",
+ *   "expand": true   // optional, adds effective_scope with implied scopes
+ * }
+ * 
+ * Response: 200 OK with RFC 7662 style payload
+ * { "active": true, "scope": "read write", "sub": "123", "exp": 1735729200, "iat": 1735725600 }
+ * Unknown or expired tokens return { "active": false }
+ */
+export async function POST(request: NextRequest) {
+  return introspectTokenController(request);
+}
@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { refreshTokenController } from '@/tokens/token.controller';
+
+/**
+ * POST /api/tokens/refresh
+ * Exchanges a refresh token for a new access/refresh token pair
+ * 
+ * Request body:
+ * {
+ *   "refreshToken": "refresh_..."
+ * }
+ * 
+ * Response: 200 OK with the new access token and refresh token
+ * The presented refresh token is invalidated; presenting it again revokes
+ * every token in its family and returns 401
+ */
+export async function POST(request: NextRequest) {
+  return refreshTokenController(request);
+}
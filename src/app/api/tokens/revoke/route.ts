@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+import { revokeUserTokensController } from '@/tokens/token.controller';
+
+/**
+ * POST /api/tokens/revoke
+ * Revokes every token belonging to a user
+ * 
+ * Request body:
+ * {
+ *   "userId": "123",
+ *   "reason": "Account compromised"
+ * }
+ * 
+ * Response: 200 OK with the number of revoked tokens
+ */
+export async function POST(request: NextRequest) {
+  return revokeUserTokensController(request);
+}
@@ -9,10 +9,11 @@ import { createTokenController, getTokensController } from '@/tokens/token.contr
  * {
  *   "userId": "123",
  *   "scopes": ["read", "write"],
- *   "expiresInMinutes": 60
+ *   "expiresInMinutes": 60,
+ *   "refreshExpiresInMinutes": 43200   // optional, issues a refresh token
  * }
  * 
- * Response: 201 Created with token details
+ * Response: 201 Created with token details (plus refreshToken when requested)
  */
 export async function POST(request: NextRequest) {
   return createTokenController(request);
@@ -20,12 +21,19 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/tokens?userId=123
- * Retrieves all non-expired tokens for a user
+ * Lists a user's tokens, one page at a time (active tokens by default)
  * 
  * Query parameters:
  * - userId (required): The user identifier
+ * - expand (optional): "true" to include effectiveScopes (implied scopes)
+ * - scope (optional): only tokens granted this scope
+ * - createdAfter, createdBefore, expiresAfter, expiresBefore (optional): ISO 8601 bounds
+ * - state (optional): active (default), expired or revoked
+ * - sort (optional): createdAt (default) or expiresAt; order: desc (default) or asc
+ * - limit (optional): page size, 1-100 (default 50)
+ * - cursor (optional): nextCursor of the previous page
  * 
- * Response: 200 OK with array of tokens
+ * Response: 200 OK with { tokens, nextCursor }
  */
 export async function GET(request: NextRequest) {
   return getTokensController(request);
@@ -91,7 +91,7 @@ export default function Home() {
         throw new Error(data.error || 'Failed to fetch tokens');
       }
 
-      setTokens(data);
+      setTokens(data.tokens);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -279,6 +279,9 @@ export default function Home() {
                         </svg>
                       </button>
                     </div>
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                      Copy this token now. It is stored hashed and will not be shown again.
+                    </p>
                   </div>
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
@@ -336,22 +339,16 @@ export default function Home() {
                 {tokens.map((token) => (
                   <div key={token.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-5 hover:shadow-md transition-shadow">
                     <div className="space-y-3">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-3">
-                          <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                          <span className="text-sm font-mono text-gray-500 dark:text-gray-400">
-                            {token.id}
+                      <div className="flex items-center gap-3">
+                        <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+                        {token.name && (
+                          <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                            {token.name}
                           </span>
-                        </div>
-                        <button
-                          onClick={() => copyToClipboard(token.token)}
-                          className="text-sm text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1"
-                        >
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                          </svg>
-                          Copy
-                        </button>
+                        )}
+                        <span className="text-sm font-mono text-gray-500 dark:text-gray-400">
+                          {token.id}
+                        </span>
                       </div>
                       <div className="bg-gray-50 dark:bg-gray-900 px-3 py-2 rounded border border-gray-200 dark:border-gray-700">
                         <code className="text-sm text-gray-800 dark:text-gray-200 break-all">
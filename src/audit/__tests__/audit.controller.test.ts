@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { getTokenEventsController } from '../audit.controller';
+import { prisma } from '@/lib/db';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    tokenEvent: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  getConfig: () => ({
+    apiKey: 'admin-key-for-tests',
+    authDisabled: false,
+  }),
+}));
+
+const storedEvent = {
+  id: 'event_1',
+  type: 'create',
+  tokenId: 'token_1',
+  userId: 'user123',
+  actor: 'admin',
+  clientId: null,
+  ip: null,
+  userAgent: null,
+  requestId: null,
+  details: null,
+  tenantId: 'default',
+  createdAt: new Date('2025-01-01T10:00:00Z'),
+};
+
+function auditRequest(tenantId: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/audit?userId=user123', {
+    headers: { 'X-API-Key': 'admin-key-for-tests', 'X-Tenant-Id': tenantId },
+  });
+}
+
+describe('Audit Controller', () => {
+  const findMany = prisma.tokenEvent.findMany as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findMany.mockImplementation(({ where }) =>
+      Promise.resolve(where.tenantId === storedEvent.tenantId ? [storedEvent] : [])
+    );
+  });
+
+  it('should return events to their own tenant', async () => {
+    const response = await getTokenEventsController(auditRequest('default'));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ events: [{ id: 'event_1' }] });
+  });
+
+  it('should not return events of another tenant', async () => {
+    const response = await getTokenEventsController(auditRequest('acme'));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ events: [], nextCursor: null });
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ where: expect.objectContaining({ tenantId: 'acme' }) }));
+  });
+});
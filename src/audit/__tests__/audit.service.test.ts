@@ -0,0 +1,145 @@
+import { NextRequest } from 'next/server';
+import { getAuditContext, getTokenEvents, recordTokenEvents, SYSTEM_AUDIT_CONTEXT } from '../audit.service';
+import { getTokenEventsSchema } from '../audit.validation';
+import { prisma } from '@/lib/db';
+import type { Client } from '@/clients/client.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    tokenEvent: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const createMany = prisma.tokenEvent.createMany as jest.Mock;
+const findMany = prisma.tokenEvent.findMany as jest.Mock;
+
+function storedEvent(id: string) {
+  return {
+    id,
+    type: 'revoke',
+    tokenId: 'token_1',
+    userId: 'user123',
+    actor: 'admin',
+    clientId: null,
+    ip: null,
+    userAgent: null,
+    requestId: 'req_1',
+    details: { reason: null },
+    createdAt: new Date('2025-01-01T10:00:00.000Z'),
+    tenantId: 'acme',
+  };
+}
+
+describe('Audit Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getAuditContext', () => {
+    it('should describe the calling client and its connection', () => {
+      const request = new NextRequest('http://localhost/api/tokens', {
+        headers: {
+          'X-Forwarded-For': '203.0.113.7, 10.0.0.1',
+          'User-Agent': 'curl/8.0',
+          'X-Request-Id': 'req_1',
+        },
+      });
+
+      expect(getAuditContext(request, { type: 'client', client: { id: 'client_1' } as Client })).toEqual({
+        actor: 'client:client_1',
+        clientId: 'client_1',
+        ip: '203.0.113.7',
+        userAgent: 'curl/8.0',
+        requestId: 'req_1',
+      });
+    });
+
+    it('should generate a request id when none was forwarded', () => {
+      const context = getAuditContext(new NextRequest('http://localhost/api/tokens'), {
+        type: 'admin',
+        tenantId: 'default',
+      });
+
+      expect(context.actor).toBe('admin');
+      expect(context.ip).toBeNull();
+      expect(context.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    });
+  });
+
+  describe('recordTokenEvents', () => {
+    it('should write every event with the audit context and its tenant', async () => {
+      await recordTokenEvents(prisma, 'expire', SYSTEM_AUDIT_CONTEXT, [
+        { tenantId: 'default', tokenId: 'a', userId: 'user123' },
+        { tenantId: 'acme', tokenId: 'b', userId: 'user123', details: { expiresAt: '2025-01-01T10:00:00.000Z' } },
+      ]);
+
+      const { data } = createMany.mock.calls[0][0];
+      expect(data).toHaveLength(2);
+      expect(data[0].tenantId).toBe('default');
+      expect(data[1]).toMatchObject({
+        type: 'expire',
+        tenantId: 'acme',
+        tokenId: 'b',
+        actor: 'system',
+        details: { expiresAt: '2025-01-01T10:00:00.000Z' },
+      });
+    });
+
+    it('should skip empty batches', async () => {
+      await recordTokenEvents(prisma, 'revoke', SYSTEM_AUDIT_CONTEXT, []);
+
+      expect(createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTokenEvents', () => {
+    it('should filter by tenant and return a cursor when more events exist', async () => {
+      findMany.mockResolvedValue([storedEvent('e3'), storedEvent('e2'), storedEvent('e1')]);
+      const query = getTokenEventsSchema.parse({
+        userId: 'user123',
+        type: 'revoke',
+        from: '2025-01-01T00:00:00Z',
+        limit: '2',
+      });
+
+      const page = await getTokenEvents(query, 'acme');
+
+      expect(findMany).toHaveBeenCalledWith({
+        where: {
+          tenantId: 'acme',
+          userId: 'user123',
+          type: 'revoke',
+          createdAt: { gte: new Date('2025-01-01T00:00:00Z'), lte: undefined },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 3,
+      });
+      expect(page.events.map((event) => event.id)).toEqual(['e3', 'e2']);
+      expect(page.events[0].createdAt).toBe('2025-01-01T10:00:00.000Z');
+      expect(page.nextCursor).toBe('e2');
+    });
+
+    it('should continue after the cursor and end on the last page', async () => {
+      findMany.mockResolvedValue([storedEvent('e1')]);
+
+      const page = await getTokenEvents(getTokenEventsSchema.parse({ cursor: 'e2' }), 'default');
+
+      expect(findMany.mock.calls[0][0]).toMatchObject({ cursor: { id: 'e2' }, skip: 1, take: 51 });
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+
+  describe('getTokenEventsSchema', () => {
+    it('should reject unknown event types and inverted ranges', () => {
+      expect(getTokenEventsSchema.safeParse({ type: 'delete' }).success).toBe(false);
+      expect(
+        getTokenEventsSchema.safeParse({ from: '2025-02-01T00:00:00Z', to: '2025-01-01T00:00:00Z' }).success
+      ).toBe(false);
+      expect(getTokenEventsSchema.safeParse({ limit: '101' }).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { getTokenEventsSchema } from '@/audit/audit.validation';
+import { getTokenEvents } from '@/audit/audit.service';
+import type { TokenEventPageResponse } from '@/audit/audit.type';
+import type { ErrorResponse } from '@/tokens/token.type';
+
+/**
+ * Controller for querying the audit log
+ * Handles authentication, validation, and paginated retrieval
+ */
+export async function getTokenEventsController(request: NextRequest) {
+  try {
+    // Authenticate request; the audit log is only visible to the admin key
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    if (auth.type !== 'admin') {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Forbidden. Admin API key required.' },
+        { status: 403 }
+      );
+    }
+
+    // Extract and validate query parameters
+    const searchParams = request.nextUrl.searchParams;
+    const validatedData = getTokenEventsSchema.parse({
+      userId: searchParams.get('userId') ?? undefined,
+      type: searchParams.get('type') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+      cursor: searchParams.get('cursor') ?? undefined,
+    });
+
+    const page = await getTokenEvents(validatedData, auth.tenantId);
+
+    return NextResponse.json<TokenEventPageResponse>(page, { status: 200 });
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          error: 'Validation failed',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error fetching audit events:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { randomUUID } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma, type DbClient } from '@/lib/db';
+import type { AuthContext } from '@/lib/auth';
+import type { GetTokenEventsInput } from '@/audit/audit.validation';
+import type {
+  AuditContext,
+  TokenEvent,
+  TokenEventInput,
+  TokenEventPageResponse,
+  TokenEventResponse,
+  TokenEventType,
+} from '@/audit/audit.type';
+
+/**
+ * Audit context for actions taken by background jobs
+ */
+export const SYSTEM_AUDIT_CONTEXT: AuditContext = {
+  actor: 'system',
+  clientId: null,
+  ip: null,
+  userAgent: null,
+  requestId: null,
+};
+
+/**
+ * Builds the audit context of an authenticated request
+ * The request id is taken from X-Request-Id when a proxy set one
+ */
+export function getAuditContext(request: NextRequest, auth: AuthContext): AuditContext {
+  const forwardedFor = request.headers.get('X-Forwarded-For');
+
+  return {
+    actor: auth.type === 'client' ? `client:${auth.client.id}` : 'admin',
+    clientId: auth.type === 'client' ? auth.client.id : null,
+    ip: forwardedFor?.split(',')[0].trim() || request.headers.get('X-Real-IP'),
+    userAgent: request.headers.get('User-Agent'),
+    requestId: request.headers.get('X-Request-Id') ?? randomUUID(),
+  };
+}
+
+/**
+ * Appends events of one type to the audit log
+ *
+ * @param db - Pass the transaction client of the audited change so the
+ *   events commit (or roll back) together with it
+ */
+export async function recordTokenEvents(
+  db: DbClient,
+  type: TokenEventType,
+  audit: AuditContext,
+  events: TokenEventInput[]
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  await db.tokenEvent.createMany({
+    data: events.map((event) => ({
+      type,
+      tenantId: event.tenantId,
+      tokenId: event.tokenId ?? null,
+      userId: event.userId ?? null,
+      details: (event.details as Prisma.InputJsonObject | undefined) ?? Prisma.JsonNull,
+      ...audit,
+    })),
+  });
+}
+
+/**
+ * Converts a TokenEvent to TokenEventResponse with ISO strings
+ */
+export function serializeTokenEvent(event: TokenEvent): TokenEventResponse {
+  return {
+    id: event.id,
+    type: event.type,
+    tokenId: event.tokenId,
+    userId: event.userId,
+    actor: event.actor,
+    clientId: event.clientId,
+    ip: event.ip,
+    userAgent: event.userAgent,
+    requestId: event.requestId,
+    details: event.details,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Lists audit events of a tenant, newest first, one page at a time
+ *
+ * @param query - Filters, page size and the cursor from the previous page
+ * @param tenantId - The caller's tenant; events of other tenants are not returned
+ * @returns The page and the cursor of the next one
+ */
+export async function getTokenEvents(query: GetTokenEventsInput, tenantId: string): Promise<TokenEventPageResponse> {
+  const events = await prisma.tokenEvent.findMany({
+    where: {
+      tenantId,
+      userId: query.userId,
+      type: query.type,
+      createdAt: {
+        gte: query.from,
+        lte: query.to,
+      },
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    // Fetch one extra row to learn whether another page exists
+    take: query.limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  });
+
+  const page = events.slice(0, query.limit);
+
+  return {
+    events: page.map(serializeTokenEvent),
+    nextCursor: events.length > query.limit ? page[page.length - 1].id : null,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Kinds of token lifecycle events recorded in the audit log
+ */
+export type TokenEventType = 'create' | 'list' | 'introspect' | 'refresh' | 'revoke' | 'expire' | 'update' | 'extend' | 'purge';
+
+/**
+ * Who performed an action and from where, attached to every audit event
+ * `actor` is "admin", "client:<id>" or "system" for background jobs
+ */
+export interface AuditContext {
+  actor: string;
+  clientId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+}
+
+/**
+ * A single audit event to record, in the tenant of the token it concerns
+ */
+export interface TokenEventInput {
+  tenantId: string;
+  tokenId?: string | null;
+  userId?: string | null;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Audit event matching the database schema
+ * Events are append-only; the database rejects updates and deletes
+ */
+export interface TokenEvent {
+  id: string;
+  type: TokenEventType;
+  tokenId: string | null;
+  userId: string | null;
+  actor: string;
+  clientId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  details: unknown;
+  createdAt: Date;
+  tenantId: string;
+}
+
+/**
+ * Response format for an audit event
+ */
+export interface TokenEventResponse {
+  id: string;
+  type: TokenEventType;
+  tokenId: string | null;
+  userId: string | null;
+  actor: string;
+  clientId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+  details: unknown;
+  createdAt: string;
+}
+
+/**
+ * Response format for a page of audit events
+ * `nextCursor` is null on the last page
+ */
+export interface TokenEventPageResponse {
+  events: TokenEventResponse[];
+  nextCursor: string | null;
+}
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for querying the audit log
+ * 
+ * Rules:
+ * - userId, type: optional exact-match filters
+ * - from, to: optional ISO 8601 bounds on the event time (inclusive)
+ * - limit: page size between 1 and 100, defaults to 50
+ * - cursor: `nextCursor` of the previous page
+ */
+export const getTokenEventsSchema = z
+  .object({
+    userId: z.string().min(1, 'userId must not be empty').optional(),
+    type: z.enum(['create', 'list', 'introspect', 'refresh', 'revoke', 'expire', 'update', 'extend', 'purge']).optional(),
+    from: z.iso.datetime({ offset: true }).transform((value) => new Date(value)).optional(),
+    to: z.iso.datetime({ offset: true }).transform((value) => new Date(value)).optional(),
+    limit: z.coerce
+      .number()
+      .int('limit must be an integer')
+      .min(1, 'limit must be at least 1')
+      .max(100, 'limit cannot exceed 100')
+      .default(50),
+    cursor: z.string().min(1, 'cursor must not be empty').optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+/**
+ * Type inference from schemas for TypeScript
+ */
+export type GetTokenEventsInput = z.infer<typeof getTokenEventsSchema>;
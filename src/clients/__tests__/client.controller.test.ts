@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import {
+  getClientController,
+  listClientsController,
+  rotateClientApiKeyController,
+  updateClientController,
+} from '../client.controller';
+import { prisma } from '@/lib/db';
+import type { Client } from '@/clients/client.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    client: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  getConfig: () => ({
+    apiKey: 'admin-key-for-tests',
+    authDisabled: false,
+  }),
+}));
+
+const storedClient: Client = {
+  id: 'client_1',
+  name: 'billing-service',
+  apiKeyHash: 'digest',
+  apiKeyPrefix: 'apikey_abc',
+  allowedScopes: ['repo:read'],
+  maxTokenLifetimeMinutes: null,
+  enabled: true,
+  createdAt: new Date('2025-01-01T10:00:00Z'),
+  updatedAt: new Date('2025-01-01T10:00:00Z'),
+  keyRotatedAt: null,
+  tenantId: 'default',
+};
+
+function adminRequest(path: string, tenantId: string, init: { method?: string; body?: unknown } = {}): NextRequest {
+  return new NextRequest(`http://localhost:3000/api/admin/clients${path}`, {
+    method: init.method ?? 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-API-Key': 'admin-key-for-tests',
+      'X-Tenant-Id': tenantId,
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
+}
+
+describe('Client Controller', () => {
+  const findFirst = prisma.client.findFirst as jest.Mock;
+  const findMany = prisma.client.findMany as jest.Mock;
+  const update = prisma.client.update as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findFirst.mockImplementation(({ where }) =>
+      Promise.resolve(where.id === storedClient.id && where.tenantId === storedClient.tenantId ? storedClient : null)
+    );
+    findMany.mockImplementation(({ where }) =>
+      Promise.resolve(where.tenantId === storedClient.tenantId ? [storedClient] : [])
+    );
+  });
+
+  it('should return a client to its own tenant', async () => {
+    const response = await getClientController(adminRequest('/client_1', 'default'), 'client_1');
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toMatchObject({ id: 'client_1' });
+  });
+
+  it('should report a client of another tenant as not found', async () => {
+    const response = await getClientController(adminRequest('/client_1', 'acme'), 'client_1');
+
+    expect(response.status).toBe(404);
+    await expect(response.json()).resolves.toEqual({ error: 'Client not found' });
+  });
+
+  it('should not update or rotate a client of another tenant', async () => {
+    const updated = await updateClientController(
+      adminRequest('/client_1', 'acme', { method: 'PATCH', body: { enabled: false } }),
+      'client_1'
+    );
+    const rotated = await rotateClientApiKeyController(
+      adminRequest('/client_1/rotate', 'acme', { method: 'POST' }),
+      'client_1'
+    );
+
+    expect(updated.status).toBe(404);
+    expect(rotated.status).toBe(404);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('should only list the clients of the selected tenant', async () => {
+    const response = await listClientsController(adminRequest('', 'acme'));
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  assertClientMayIssue,
+  createClient,
+  findClientByApiKey,
+  generateApiKey,
+  rotateClientApiKey,
+  serializeClient,
+  updateClient,
+} from '../client.service';
+import { prisma } from '@/lib/db';
+import { ApiError } from '@/lib/errors';
+import { getTokenPrefix, hashToken } from '@/tokens/token.service';
+import type { Client } from '@/clients/client.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    client: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    tenant: {
+      findUnique: jest.fn(),
+    },
+    scope: {
+      findMany: jest.fn().mockResolvedValue([
+        { name: 'repo:write', parentName: null },
+        { name: 'repo:read', parentName: 'repo:write' },
+        { name: 'billing:read', parentName: null },
+      ]),
+    },
+  },
+}));
+
+jest.mock('@/keys/key.service', () => ({
+  signWithActiveKey: jest.fn(),
+}));
+
+const findUnique = prisma.client.findUnique as jest.Mock;
+const findFirst = prisma.client.findFirst as jest.Mock;
+const create = prisma.client.create as jest.Mock;
+const update = prisma.client.update as jest.Mock;
+const findTenant = prisma.tenant.findUnique as jest.Mock;
+
+function storedClient(apiKey: string, overrides: Partial<Client> = {}): Client {
+  return {
+    id: 'client_1',
+    name: 'billing-service',
+    apiKeyHash: hashToken(apiKey),
+    apiKeyPrefix: getTokenPrefix(apiKey),
+    allowedScopes: ['repo:write'],
+    maxTokenLifetimeMinutes: 60,
+    enabled: true,
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+    updatedAt: new Date('2025-01-01T10:00:00Z'),
+    keyRotatedAt: null,
+    tenantId: 'default',
+    ...overrides,
+  };
+}
+
+describe('Client Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    create.mockImplementation(({ data }) => Promise.resolve({ id: 'client_1', ...data }));
+    findTenant.mockImplementation(({ where }) => Promise.resolve(where.id === 'missing' ? null : { id: where.id }));
+    update.mockImplementation(({ data }) => Promise.resolve({ ...storedClient('apikey_old'), ...data }));
+  });
+
+  describe('generateApiKey', () => {
+    it('should generate unique keys with the apikey_ prefix', () => {
+      const key = generateApiKey();
+
+      expect(key).toMatch(/^apikey_/);
+      expect(generateApiKey()).not.toBe(key);
+    });
+  });
+
+  describe('serializeClient', () => {
+    it('should mask the API key unless it was just issued', () => {
+      const client = storedClient('apikey_12345678-aaaa');
+
+      expect(serializeClient(client).apiKey).toBe('apikey_12345678...');
+      expect(serializeClient(client, 'apikey_12345678-aaaa').apiKey).toBe('apikey_12345678-aaaa');
+      expect(serializeClient(client).createdAt).toBe('2025-01-01T10:00:00.000Z');
+    });
+  });
+
+  describe('findClientByApiKey', () => {
+    it('should look clients up by the key digest', async () => {
+      findUnique.mockResolvedValue(storedClient('apikey_valid'));
+
+      const client = await findClientByApiKey('apikey_valid');
+
+      expect(client?.id).toBe('client_1');
+      expect(findUnique).toHaveBeenCalledWith({ where: { apiKeyHash: hashToken('apikey_valid') } });
+    });
+
+    it('should return null for unknown keys', async () => {
+      findUnique.mockResolvedValue(null);
+
+      await expect(findClientByApiKey('apikey_unknown')).resolves.toBeNull();
+    });
+
+    it('should return null for disabled clients', async () => {
+      findUnique.mockResolvedValue(storedClient('apikey_valid', { enabled: false }));
+
+      await expect(findClientByApiKey('apikey_valid')).resolves.toBeNull();
+    });
+  });
+
+  describe('assertClientMayIssue', () => {
+    const client = storedClient('apikey_valid');
+
+    it('should allow scopes implied by the allowlist within the lifetime cap', async () => {
+      await expect(assertClientMayIssue(client, ['repo:read'], [60])).resolves.toBeUndefined();
+    });
+
+    it('should reject scopes outside the allowlist', async () => {
+      const error = await assertClientMayIssue(client, ['billing:read'], [60]).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.status).toBe(403);
+      expect(error.details).toEqual({ allowedScopes: ['repo:write'] });
+    });
+
+    it('should not allow scopes registered after a wildcard was granted', async () => {
+      findFirst.mockResolvedValue(storedClient('apikey_old'));
+      const updated = await updateClient('client_1', 'default', { allowedScopes: ['repo:*'] });
+      (prisma.scope.findMany as jest.Mock).mockResolvedValueOnce([
+        { name: 'repo:write', parentName: null },
+        { name: 'repo:read', parentName: 'repo:write' },
+        { name: 'repo:admin', parentName: null },
+      ]);
+
+      await expect(assertClientMayIssue(updated as Client, ['repo:admin'], [60])).rejects.toMatchObject({ status: 403 });
+    });
+
+    it('should reject lifetimes above the client maximum', async () => {
+      const error = await assertClientMayIssue(client, ['repo:read'], [30, 1440]).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.status).toBe(403);
+      expect(error.message).toContain('60 minutes');
+    });
+
+    it('should not cap lifetimes when the client has no maximum', async () => {
+      const unlimited = storedClient('apikey_valid', { maxTokenLifetimeMinutes: null });
+
+      await expect(assertClientMayIssue(unlimited, ['repo:read'], [525600])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('createClient', () => {
+    it('should persist only the key digest and return the plaintext once', async () => {
+      const { client, apiKey } = await createClient({ name: 'billing-service', allowedScopes: ['repo:read'] });
+      const { data } = create.mock.calls[0][0];
+
+      expect(apiKey).toMatch(/^apikey_/);
+      expect(data).not.toHaveProperty('apiKey');
+      expect(data.apiKeyHash).toBe(hashToken(apiKey));
+      expect(data.maxTokenLifetimeMinutes).toBeNull();
+      expect(data.tenantId).toBe('default');
+      expect(client.apiKeyPrefix).toBe(getTokenPrefix(apiKey));
+    });
+
+    it('should register the client in the caller tenant unless the input names one', async () => {
+      await createClient({ name: 'billing-service', allowedScopes: ['repo:read'] }, 'acme');
+
+      expect(create.mock.calls[0][0].data.tenantId).toBe('acme');
+    });
+
+    it('should reject clients of unknown tenants', async () => {
+      await expect(
+        createClient({ name: 'billing-service', allowedScopes: ['repo:read'], tenantId: 'missing' })
+      ).rejects.toMatchObject({ status: 400, message: 'Tenant "missing" does not exist' });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should store wildcards in the allowlist as the scopes they match', async () => {
+      await createClient({ name: 'billing-service', allowedScopes: ['repo:*'] });
+
+      expect(create.mock.calls[0][0].data.allowedScopes).toEqual(['repo:read', 'repo:write']);
+    });
+
+    it('should reject allowed scopes missing from the catalogue', async () => {
+      await expect(
+        createClient({ name: 'billing-service', allowedScopes: ['repo:delete'] })
+      ).rejects.toMatchObject({ status: 400 });
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateClient', () => {
+    it('should return null for unknown clients', async () => {
+      findFirst.mockResolvedValue(null);
+
+      await expect(updateClient('missing', 'default', { enabled: false })).resolves.toBeNull();
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should update restrictions', async () => {
+      findFirst.mockResolvedValue(storedClient('apikey_old'));
+
+      const client = await updateClient('client_1', 'default', { allowedScopes: ['billing:read'], enabled: false });
+
+      expect(client?.allowedScopes).toEqual(['billing:read']);
+      expect(client?.enabled).toBe(false);
+    });
+
+    it('should only look the client up within the caller tenant', async () => {
+      findFirst.mockResolvedValue(null);
+
+      await expect(updateClient('client_1', 'acme', { enabled: false })).resolves.toBeNull();
+      expect(findFirst).toHaveBeenCalledWith({ where: { id: 'client_1', tenantId: 'acme' } });
+    });
+  });
+
+  describe('rotateClientApiKey', () => {
+    it('should replace the stored digest with a new key', async () => {
+      findFirst.mockResolvedValue(storedClient('apikey_old'));
+
+      const issued = await rotateClientApiKey('client_1', 'default');
+      const { data } = update.mock.calls[0][0];
+
+      expect(issued?.apiKey).not.toBe('apikey_old');
+      expect(data.apiKeyHash).toBe(hashToken(issued!.apiKey));
+      expect(data.keyRotatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should return null for unknown clients', async () => {
+      findFirst.mockResolvedValue(null);
+
+      await expect(rotateClientApiKey('missing', 'default')).resolves.toBeNull();
+    });
+  });
+});
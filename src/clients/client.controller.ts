@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { ApiError } from '@/lib/errors';
+import { createClientSchema, updateClientSchema } from '@/clients/client.validation';
+import {
+  createClient,
+  getClient,
+  listClients,
+  rotateClientApiKey,
+  serializeClient,
+  updateClient,
+} from '@/clients/client.service';
+import type { ErrorResponse } from '@/tokens/token.type';
+
+/**
+ * Maps errors thrown while handling a client request to a response
+ */
+function handleClientError(error: unknown, action: string) {
+  // Handle validation errors
+  if (error instanceof ZodError) {
+    return NextResponse.json<ErrorResponse>(
+      {
+        error: 'Validation failed',
+        details: error.issues,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Handle expected service errors
+  if (error instanceof ApiError) {
+    return NextResponse.json<ErrorResponse>(
+      { error: error.message, details: error.details },
+      { status: error.status }
+    );
+  }
+
+  // Handle other errors
+  console.error(`Error ${action}:`, error);
+  return NextResponse.json<ErrorResponse>(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+/**
+ * Returns the tenant selected with X-Tenant-Id, or an error response unless
+ * the request carries the admin API key
+ */
+async function requireAdmin(request: NextRequest): Promise<{ tenantId: string } | NextResponse<ErrorResponse>> {
+  const auth = await authenticateRequest(request);
+
+  if (!auth) {
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Unauthorized. Valid X-API-Key header required.' },
+      { status: 401 }
+    );
+  }
+
+  if (auth.type !== 'admin') {
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Forbidden. Admin API key required.' },
+      { status: 403 }
+    );
+  }
+
+  return { tenantId: auth.tenantId };
+}
+
+function clientNotFound() {
+  return NextResponse.json<ErrorResponse>(
+    { error: 'Client not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Controller for listing registered clients
+ */
+export async function listClientsController(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const clients = await listClients(admin.tenantId);
+
+    return NextResponse.json(clients.map((client) => serializeClient(client)), { status: 200 });
+  } catch (error) {
+    return handleClientError(error, 'listing clients');
+  }
+}
+
+/**
+ * Controller for registering a client and issuing its API key
+ */
+export async function createClientController(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const body = await request.json();
+    const validatedData = createClientSchema.parse(body);
+
+    const { client, apiKey } = await createClient(validatedData, admin.tenantId);
+
+    // The plaintext key is only ever shown here
+    return NextResponse.json(serializeClient(client, apiKey), { status: 201 });
+  } catch (error) {
+    return handleClientError(error, 'creating client');
+  }
+}
+
+/**
+ * Controller for retrieving a single client
+ */
+export async function getClientController(request: NextRequest, id: string) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const client = await getClient(id, admin.tenantId);
+
+    if (!client) {
+      return clientNotFound();
+    }
+
+    return NextResponse.json(serializeClient(client), { status: 200 });
+  } catch (error) {
+    return handleClientError(error, 'fetching client');
+  }
+}
+
+/**
+ * Controller for updating a client's restrictions or enabled status
+ */
+export async function updateClientController(request: NextRequest, id: string) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const body = await request.json();
+    const validatedData = updateClientSchema.parse(body);
+
+    const client = await updateClient(id, admin.tenantId, validatedData);
+
+    if (!client) {
+      return clientNotFound();
+    }
+
+    return NextResponse.json(serializeClient(client), { status: 200 });
+  } catch (error) {
+    return handleClientError(error, 'updating client');
+  }
+}
+
+/**
+ * Controller for rotating a client's API key
+ */
+export async function rotateClientApiKeyController(request: NextRequest, id: string) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const issued = await rotateClientApiKey(id, admin.tenantId);
+
+    if (!issued) {
+      return clientNotFound();
+    }
+
+    // The new plaintext key is only ever shown here
+    return NextResponse.json(serializeClient(issued.client, issued.apiKey), { status: 200 });
+  } catch (error) {
+    return handleClientError(error, 'rotating client API key');
+  }
+}
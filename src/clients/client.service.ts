@@ -0,0 +1,202 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/db';
+import { ApiError } from '@/lib/errors';
+import { getScopeCatalogue, isScopeSubset, resolveKnownScopes } from '@/scopes/scope.service';
+import { DEFAULT_TENANT_ID, getTenant } from '@/tenants/tenant.service';
+import { getTokenPrefix, hashToken, maskToken, tokenHashesMatch } from '@/tokens/token.service';
+import type { CreateClientInput, UpdateClientInput } from '@/clients/client.validation';
+import type { Client, ClientResponse, IssuedClient } from '@/clients/client.type';
+
+/**
+ * Generates a unique client API key
+ * Format: apikey_<uuid>
+ */
+export function generateApiKey(): string {
+  return `apikey_${randomUUID()}`;
+}
+
+/**
+ * Converts a Client with Date objects to ClientResponse with ISO strings
+ *
+ * @param client - The stored client
+ * @param apiKey - The plaintext key, only passed right after issuing it
+ */
+export function serializeClient(client: Client, apiKey?: string): ClientResponse {
+  return {
+    id: client.id,
+    name: client.name,
+    apiKey: apiKey ?? maskToken(client.apiKeyPrefix),
+    allowedScopes: client.allowedScopes,
+    maxTokenLifetimeMinutes: client.maxTokenLifetimeMinutes,
+    enabled: client.enabled,
+    createdAt: client.createdAt.toISOString(),
+    updatedAt: client.updatedAt.toISOString(),
+    keyRotatedAt: client.keyRotatedAt ? client.keyRotatedAt.toISOString() : null,
+    tenantId: client.tenantId,
+  };
+}
+
+/**
+ * Finds the enabled client owning a presented API key
+ *
+ * @returns The client, or null for unknown keys and disabled clients
+ */
+export async function findClientByApiKey(apiKey: string): Promise<Client | null> {
+  const apiKeyHash = hashToken(apiKey);
+
+  const client = await prisma.client.findUnique({
+    where: {
+      apiKeyHash,
+    },
+  });
+
+  if (!client || !client.enabled || !tokenHashesMatch(client.apiKeyHash, apiKeyHash)) {
+    return null;
+  }
+
+  return client;
+}
+
+/**
+ * Checks that a client may issue a token with the given scopes and lifetimes
+ *
+ * @param client - The calling client
+ * @param scopes - Requested scopes
+ * @param lifetimesInMinutes - Requested lifetimes (access and refresh)
+ * @throws ApiError (403) naming the violated restriction
+ */
+export async function assertClientMayIssue(
+  client: Client,
+  scopes: string[],
+  lifetimesInMinutes: number[]
+): Promise<void> {
+  const catalogue = await getScopeCatalogue();
+
+  if (!isScopeSubset(scopes, client.allowedScopes, catalogue)) {
+    throw new ApiError(403, 'Requested scopes exceed the scopes this client may grant', {
+      allowedScopes: client.allowedScopes,
+    });
+  }
+
+  const maxLifetime = client.maxTokenLifetimeMinutes;
+
+  if (maxLifetime !== null && lifetimesInMinutes.some((minutes) => minutes > maxLifetime)) {
+    throw new ApiError(403, `Token lifetime cannot exceed ${maxLifetime} minutes for this client`, {
+      maxTokenLifetimeMinutes: maxLifetime,
+    });
+  }
+}
+
+/**
+ * Lists a tenant's clients ordered by creation
+ *
+ * @param tenantId - The caller's tenant
+ */
+export async function listClients(tenantId: string): Promise<Client[]> {
+  return prisma.client.findMany({
+    where: {
+      tenantId,
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+}
+
+/**
+ * Retrieves a single client
+ *
+ * @param tenantId - The caller's tenant; clients of other tenants are treated as unknown
+ * @returns The client, or null if it does not exist
+ */
+export async function getClient(id: string, tenantId: string): Promise<Client | null> {
+  return prisma.client.findFirst({
+    where: {
+      id,
+      tenantId,
+    },
+  });
+}
+
+/**
+ * Registers a client within a tenant and issues its first API key
+ *
+ * @param defaultTenantId - The caller's tenant, used unless the input names one
+ * @throws ApiError (400) when the tenant does not exist or an allowed scope is not in the catalogue
+ */
+export async function createClient(
+  input: CreateClientInput,
+  defaultTenantId: string = DEFAULT_TENANT_ID
+): Promise<IssuedClient> {
+  const tenantId = input.tenantId ?? defaultTenantId;
+
+  if (!(await getTenant(tenantId))) {
+    throw new ApiError(400, `Tenant "${tenantId}" does not exist`);
+  }
+
+  // Wildcards are stored resolved, so the allowlist does not widen as scopes are registered
+  const allowedScopes = await resolveKnownScopes(input.allowedScopes);
+  const apiKey = generateApiKey();
+
+  const client = await prisma.client.create({
+    data: {
+      name: input.name,
+      apiKeyHash: hashToken(apiKey),
+      apiKeyPrefix: getTokenPrefix(apiKey),
+      allowedScopes,
+      maxTokenLifetimeMinutes: input.maxTokenLifetimeMinutes ?? null,
+      tenantId,
+    },
+  });
+
+  return { client, apiKey };
+}
+
+/**
+ * Updates a client's name, restrictions or enabled status
+ *
+ * @param tenantId - The caller's tenant
+ * @returns The updated client, or null if it does not exist
+ * @throws ApiError (400) when an allowed scope is not in the catalogue
+ */
+export async function updateClient(id: string, tenantId: string, input: UpdateClientInput): Promise<Client | null> {
+  if (!(await getClient(id, tenantId))) {
+    return null;
+  }
+
+  const allowedScopes = input.allowedScopes && (await resolveKnownScopes(input.allowedScopes));
+
+  return prisma.client.update({
+    where: {
+      id,
+    },
+    data: allowedScopes ? { ...input, allowedScopes } : input,
+  });
+}
+
+/**
+ * Replaces a client's API key; the previous key stops working immediately
+ *
+ * @param tenantId - The caller's tenant
+ * @returns The client and its new plaintext key, or null if it does not exist
+ */
+export async function rotateClientApiKey(id: string, tenantId: string): Promise<IssuedClient | null> {
+  if (!(await getClient(id, tenantId))) {
+    return null;
+  }
+
+  const apiKey = generateApiKey();
+
+  const client = await prisma.client.update({
+    where: {
+      id,
+    },
+    data: {
+      apiKeyHash: hashToken(apiKey),
+      apiKeyPrefix: getTokenPrefix(apiKey),
+      keyRotatedAt: new Date(),
+    },
+  });
+
+  return { client, apiKey };
+}
@@ -0,0 +1,64 @@
+/**
+ * API client matching the database schema
+ * Only a SHA-256 digest of the API key is stored, plus a display prefix
+ */
+export interface Client {
+  id: string;
+  name: string;
+  apiKeyHash: string;
+  apiKeyPrefix: string;
+  allowedScopes: string[];
+  maxTokenLifetimeMinutes: number | null;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  keyRotatedAt: Date | null;
+  tenantId: string;
+}
+
+/**
+ * A client together with its freshly generated API key
+ * The plaintext key is never persisted and is only available once
+ */
+export interface IssuedClient {
+  client: Client;
+  apiKey: string;
+}
+
+/**
+ * Request payload for registering a client
+ */
+export interface CreateClientRequest {
+  name: string;
+  allowedScopes: string[];
+  maxTokenLifetimeMinutes?: number | null;
+  tenantId?: string;
+}
+
+/**
+ * Request payload for updating a client
+ */
+export interface UpdateClientRequest {
+  name?: string;
+  allowedScopes?: string[];
+  maxTokenLifetimeMinutes?: number | null;
+  enabled?: boolean;
+}
+
+/**
+ * Response format for client operations
+ * `apiKey` holds the plaintext key when it was just issued or rotated and a
+ * masked form everywhere else
+ */
+export interface ClientResponse {
+  id: string;
+  name: string;
+  apiKey: string;
+  allowedScopes: string[];
+  maxTokenLifetimeMinutes: number | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  keyRotatedAt: string | null;
+  tenantId: string;
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+const allowedScopesSchema = z
+  .array(z.string().min(1, 'Each scope must be a non-empty string'))
+  .min(1, 'At least one allowed scope is required');
+
+const maxTokenLifetimeSchema = z
+  .number()
+  .int('maxTokenLifetimeMinutes must be an integer')
+  .positive('maxTokenLifetimeMinutes must be positive')
+  .max(525600, 'maxTokenLifetimeMinutes cannot exceed 1 year (525600 minutes)')
+  .nullable();
+
+/**
+ * Validation schema for registering a client
+ * 
+ * Rules:
+ * - name: non-empty string
+ * - allowedScopes: scopes (or wildcards) the client may grant
+ * - maxTokenLifetimeMinutes: optional cap on token lifetimes, null for none
+ * - tenantId: optional tenant the client acts within, the admin's X-Tenant-Id when omitted
+ */
+export const createClientSchema = z.object({
+  name: z.string().min(1, 'name must not be empty').max(100, 'name cannot exceed 100 characters'),
+  allowedScopes: allowedScopesSchema,
+  maxTokenLifetimeMinutes: maxTokenLifetimeSchema.optional(),
+  tenantId: z.string().min(1, 'tenantId must not be empty').optional(),
+});
+
+/**
+ * Validation schema for updating a client
+ */
+export const updateClientSchema = z
+  .object({
+    name: z.string().min(1, 'name must not be empty').max(100, 'name cannot exceed 100 characters').optional(),
+    allowedScopes: allowedScopesSchema.optional(),
+    maxTokenLifetimeMinutes: maxTokenLifetimeSchema.optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field is required',
+  });
+
+/**
+ * Type inference from schemas for TypeScript
+ */
+export type CreateClientInput = z.infer<typeof createClientSchema>;
+export type UpdateClientInput = z.infer<typeof updateClientSchema>;
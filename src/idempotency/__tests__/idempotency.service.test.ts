@@ -0,0 +1,173 @@
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import {
+  deleteExpiredIdempotencyKeys,
+  fingerprintRequest,
+  getIdempotencyPrincipal,
+  parseIdempotencyKey,
+  runIdempotent,
+} from '../idempotency.service';
+import { prisma } from '@/lib/db';
+import type { Client } from '@/clients/client.type';
+
+// Mock Prisma Client; interactive transactions run against the same mock
+jest.mock('@/lib/db', () => {
+  const client = {
+    idempotencyKey: {
+      create: jest.fn(),
+      update: jest.fn(),
+      findUnique: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((callback) => callback(client));
+  return { prisma: client };
+});
+
+jest.mock('@/lib/config', () => ({
+  getConfig: () => ({
+    idempotency: { retentionHours: 24 },
+  }),
+}));
+
+const create = prisma.idempotencyKey.create as jest.Mock;
+const update = prisma.idempotencyKey.update as jest.Mock;
+const findUnique = prisma.idempotencyKey.findUnique as jest.Mock;
+const deleteMany = prisma.idempotencyKey.deleteMany as jest.Mock;
+
+const key = '7c0f6a52-3d1e-4b8a-9f0e-2a6d5c4b3a21';
+const now = new Date('2025-01-01T10:00:00Z');
+const request = { principal: 'admin:default', key, fingerprint: fingerprintRequest({ userId: 'user123' }) };
+const response = { status: 201, body: { id: 'token_1', token: 'token_secret' } };
+
+function uniqueViolation(): Prisma.PrismaClientKnownRequestError {
+  return new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '7.0.1' });
+}
+
+/**
+ * Runs a first request and returns the row it stored
+ */
+async function storeResponse() {
+  await runIdempotent(request, jest.fn().mockResolvedValue(response), now);
+  const { data: created } = create.mock.calls[0][0];
+  const { data: completed } = update.mock.calls[0][0];
+  return { ...created, ...completed };
+}
+
+describe('Idempotency Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    create.mockImplementation(({ data }) => Promise.resolve({ id: 'idem_1', ...data }));
+    deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  describe('parseIdempotencyKey', () => {
+    it('should accept missing and well-formed keys only', () => {
+      expect(parseIdempotencyKey(null)).toBeNull();
+      expect(parseIdempotencyKey(key)).toBe(key);
+      expect(() => parseIdempotencyKey('retry-1')).toThrow(ZodError);
+      expect(() => parseIdempotencyKey('contains a space!')).toThrow(ZodError);
+    });
+  });
+
+  describe('getIdempotencyPrincipal', () => {
+    it('should give each client, and the admin key per tenant, its own namespace', () => {
+      expect(getIdempotencyPrincipal({ type: 'admin', tenantId: 'acme' })).toBe('admin:acme');
+      expect(getIdempotencyPrincipal({ type: 'client', client: { id: 'client_1' } as Client })).toBe('client:client_1');
+    });
+  });
+
+  describe('fingerprintRequest', () => {
+    it('should ignore key order but not values', () => {
+      const fingerprint = fingerprintRequest({ userId: 'user123', scopes: ['read'], expiresInMinutes: 60 });
+
+      expect(fingerprintRequest({ expiresInMinutes: 60, scopes: ['read'], userId: 'user123' })).toBe(fingerprint);
+      expect(fingerprintRequest({ userId: 'user123', scopes: ['read'], expiresInMinutes: 61 })).not.toBe(fingerprint);
+      expect(fingerprintRequest({ userId: 'user123', scopes: ['write', 'read'] })).not.toBe(
+        fingerprintRequest({ userId: 'user123', scopes: ['read', 'write'] })
+      );
+    });
+  });
+
+  describe('runIdempotent', () => {
+    it('should claim the key and store the response in the handler transaction', async () => {
+      const handler = jest.fn().mockResolvedValue(response);
+
+      await expect(runIdempotent(request, handler, now)).resolves.toEqual({ ...response, replayed: false });
+
+      expect(handler).toHaveBeenCalledWith(prisma);
+      expect(create).toHaveBeenCalledWith({
+        data: {
+          principal: 'admin:default',
+          keyHash: expect.stringMatching(/^[0-9a-f]{64}$/),
+          requestHash: request.fingerprint,
+          expiresAt: new Date('2025-01-02T10:00:00Z'),
+        },
+      });
+      expect(create.mock.calls[0][0].data.keyHash).not.toContain(key);
+      expect(create.mock.invocationCallOrder[0]).toBeLessThan(handler.mock.invocationCallOrder[0]);
+
+      const { data } = update.mock.calls[0][0];
+      expect(data.statusCode).toBe(201);
+      expect(data.encryptedResponse).not.toContain('token_secret');
+    });
+
+    it('should let expired keys be reused', async () => {
+      await runIdempotent(request, jest.fn().mockResolvedValue(response), now);
+
+      expect(deleteMany).toHaveBeenCalledWith({
+        where: { principal: 'admin:default', keyHash: expect.any(String), expiresAt: { lte: now } },
+      });
+    });
+
+    it('should replay the stored response when the key was used before', async () => {
+      const stored = await storeResponse();
+      const handler = jest.fn();
+      create.mockRejectedValue(uniqueViolation());
+      findUnique.mockResolvedValue(stored);
+
+      await expect(runIdempotent(request, handler, now)).resolves.toEqual({ ...response, replayed: true });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(findUnique).toHaveBeenCalledWith({
+        where: { principal_keyHash: { principal: 'admin:default', keyHash: stored.keyHash } },
+      });
+    });
+
+    it('should refuse a reused key with a different body', async () => {
+      const stored = await storeResponse();
+      create.mockRejectedValue(uniqueViolation());
+      findUnique.mockResolvedValue(stored);
+
+      await expect(
+        runIdempotent({ ...request, fingerprint: fingerprintRequest({ userId: 'user456' }) }, jest.fn(), now)
+      ).rejects.toMatchObject({ status: 422 });
+    });
+
+    it('should report a key whose response is not available as in progress', async () => {
+      create.mockRejectedValue(uniqueViolation());
+      findUnique.mockResolvedValue(null);
+
+      await expect(runIdempotent(request, jest.fn(), now)).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('should pass handler errors through without storing a response', async () => {
+      const failure = new Error('Database unavailable');
+
+      await expect(runIdempotent(request, jest.fn().mockRejectedValue(failure), now)).rejects.toBe(failure);
+
+      expect(update).not.toHaveBeenCalled();
+      expect(findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteExpiredIdempotencyKeys', () => {
+    it('should remove keys past their retention window', async () => {
+      deleteMany.mockResolvedValue({ count: 3 });
+
+      await expect(deleteExpiredIdempotencyKeys(now)).resolves.toBe(3);
+      expect(deleteMany).toHaveBeenCalledWith({ where: { expiresAt: { lte: now } } });
+    });
+  });
+});
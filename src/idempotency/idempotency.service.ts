@@ -0,0 +1,170 @@
+import { createHash, hkdfSync } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma, type DbClient } from '@/lib/db';
+import { getConfig } from '@/lib/config';
+import { decryptSecret, encryptSecret } from '@/lib/encryption';
+import { ApiError } from '@/lib/errors';
+import { idempotencyKeySchema } from '@/idempotency/idempotency.validation';
+import type { AuthContext } from '@/lib/auth';
+import type { IdempotentRequest, IdempotentResult, StoredResponse } from '@/idempotency/idempotency.type';
+
+/**
+ * Request header carrying the caller's idempotency key
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Response header set when a stored response is replayed
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Longest a request may hold its key's transaction; long enough for a token batch
+ */
+const IDEMPOTENT_TRANSACTION_TIMEOUT_MS = 30_000;
+
+/**
+ * Reads the Idempotency-Key header value
+ *
+ * @returns The key, or null when the header was not sent
+ * @throws ZodError when the key is too short, too long or not printable ASCII
+ */
+export function parseIdempotencyKey(value: string | null): string | null {
+  return value === null ? null : idempotencyKeySchema.parse(value);
+}
+
+/**
+ * Namespace for a caller's idempotency keys, so callers cannot replay each other's responses
+ * The admin key gets one namespace per tenant it acts within.
+ */
+export function getIdempotencyPrincipal(auth: AuthContext): string {
+  return auth.type === 'client' ? `client:${auth.client.id}` : `admin:${auth.tenantId}`;
+}
+
+/**
+ * Sorts object keys recursively so equal bodies serialize identically
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * SHA-256 digest of a request body, independent of key order and whitespace
+ */
+export function fingerprintRequest(body: unknown): string {
+  return createHash('sha256').update(JSON.stringify(canonicalize(body))).digest('hex');
+}
+
+function hashIdempotencyKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Derives the key encrypting a stored response from the Idempotency-Key
+ */
+function deriveResponseKey(key: string): Buffer {
+  return Buffer.from(hkdfSync('sha256', key, '', 'idempotent-response', 32));
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Runs a request at most once per Idempotency-Key
+ *
+ * The key is claimed by inserting it in the same transaction that runs the
+ * handler and stores its response. A concurrent request with the same key
+ * waits on the unique constraint until the first one commits, then replays
+ * its response; if the handler fails the claim is rolled back, so the request
+ * may be retried.
+ *
+ * @param request - Caller namespace, key and request body fingerprint
+ * @param handler - Produces the response; pass it the transaction client so its writes commit with the key
+ * @param now - Current time
+ * @returns The handler's response, or the stored one when the key was used before
+ * @throws ApiError (422) when the key was used with a different request body
+ * @throws ApiError (409) when the stored response is not available yet
+ */
+export async function runIdempotent(
+  request: IdempotentRequest,
+  handler: (tx: DbClient) => Promise<StoredResponse>,
+  now: Date = new Date()
+): Promise<IdempotentResult> {
+  const principalKey = { principal: request.principal, keyHash: hashIdempotencyKey(request.key) };
+  const expiresAt = new Date(now.getTime() + getConfig().idempotency.retentionHours * HOUR_MS);
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Expired keys may be reused before the purge job gets to them
+      await tx.idempotencyKey.deleteMany({ where: { ...principalKey, expiresAt: { lte: now } } });
+
+      const record = await tx.idempotencyKey.create({
+        data: { ...principalKey, requestHash: request.fingerprint, expiresAt },
+      });
+
+      const response = await handler(tx);
+
+      await tx.idempotencyKey.update({
+        where: { id: record.id },
+        data: {
+          statusCode: response.status,
+          encryptedResponse: encryptSecret(JSON.stringify(response.body), deriveResponseKey(request.key)),
+        },
+      });
+
+      return { ...response, replayed: false };
+    }, { timeout: IDEMPOTENT_TRANSACTION_TIMEOUT_MS });
+  } catch (error) {
+    if (!isUniqueViolation(error)) {
+      throw error;
+    }
+  }
+
+  const record = await prisma.idempotencyKey.findUnique({ where: { principal_keyHash: principalKey } });
+
+  if (record && record.requestHash !== request.fingerprint) {
+    throw new ApiError(422, 'Idempotency-Key was already used with a different request body');
+  }
+
+  if (!record || record.statusCode === null || record.encryptedResponse === null) {
+    throw new ApiError(409, 'A request with this Idempotency-Key is still in progress');
+  }
+
+  return {
+    status: record.statusCode,
+    body: JSON.parse(decryptSecret(record.encryptedResponse, deriveResponseKey(request.key))),
+    replayed: true,
+  };
+}
+
+/**
+ * Removes idempotency keys past their retention window
+ *
+ * @returns Number of keys removed
+ */
+export async function deleteExpiredIdempotencyKeys(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: {
+      expiresAt: {
+        lte: now,
+      },
+    },
+  });
+
+  return count;
+}
@@ -0,0 +1,43 @@
+/**
+ * Idempotency key record matching the database schema
+ * Keys are unique per principal (the calling client, or the admin key within
+ * a tenant) and stored as a SHA-256 digest. The response holds plaintext
+ * tokens, so it is encrypted with a key derived from the Idempotency-Key
+ * itself and cannot be read from the database alone.
+ */
+export interface IdempotencyRecord {
+  id: string;
+  principal: string;
+  keyHash: string;
+  requestHash: string;
+  statusCode: number | null;
+  encryptedResponse: string | null;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * A request made with an Idempotency-Key
+ * `fingerprint` identifies the request body, so a reused key can be told
+ * apart from a retry.
+ */
+export interface IdempotentRequest {
+  principal: string;
+  key: string;
+  fingerprint: string;
+}
+
+/**
+ * Response stored for replay
+ */
+export interface StoredResponse {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Response to send, either freshly produced or replayed from a previous request
+ */
+export interface IdempotentResult extends StoredResponse {
+  replayed: boolean;
+}
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for the Idempotency-Key header
+ *
+ * Rules:
+ * - 16 to 255 printable ASCII characters, e.g. a UUID; the key also protects
+ *   the stored response, so it must not be guessable
+ */
+export const idempotencyKeySchema = z
+  .string()
+  .min(16, 'Idempotency-Key must be at least 16 characters')
+  .max(255, 'Idempotency-Key cannot exceed 255 characters')
+  .regex(/^[\x21-\x7e]+$/, 'Idempotency-Key must only contain printable ASCII characters');
@@ -0,0 +1,62 @@
+/**
+ * Next.js instrumentation hook, run once when the server starts
+ * Validates configuration and starts background jobs in the Node.js runtime only
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // Refuse to boot with missing or invalid settings
+  const { getConfig } = await import('@/lib/config');
+  const config = getConfig();
+
+  if (config.authDisabled) {
+    console.warn('Warning: AUTH_DISABLED is set. Every request is treated as the admin.');
+  } else if (!config.apiKey) {
+    console.warn('Warning: API_KEY not configured. Only client API keys can authenticate.');
+  }
+
+  // Refuse to boot with an unreadable or invalid policy file
+  const { getPolicies } = await import('@/policies/policy.service');
+  await getPolicies();
+
+  const { scheduleJob } = await import('@/lib/scheduler');
+  const { getMasterKey } = await import('@/lib/encryption');
+  const { rotateSigningKeys } = await import('@/keys/key.service');
+  const { runCleanup } = await import('@/maintenance/maintenance.service');
+  const { getTokenUsageBuffer } = await import('@/tokens/token-usage.service');
+  const { dispatchWebhookDeliveries } = await import('@/webhooks/webhook.service');
+  const { sendExpiryReminders } = await import('@/reminders/reminder.service');
+  const { deleteExpiredIdempotencyKeys } = await import('@/idempotency/idempotency.service');
+  const { deleteExpiredPossessionProofs } = await import('@/tokens/token-binding.service');
+  const { deleteRefilledRateLimitBuckets } = await import('@/rate-limit/rate-limit.store');
+
+  // Replicas compete for an advisory lock, so only one cleans up per interval
+  scheduleJob('token-cleanup', config.cleanup.intervalMinutes * 60 * 1000, () => runCleanup());
+
+  // Stored responses hold plaintext tokens, so they are dropped once the retention window ends
+  scheduleJob('idempotency-key-purge', config.cleanup.intervalMinutes * 60 * 1000, () => deleteExpiredIdempotencyKeys());
+
+  // Proofs are only remembered while they could still be replayed
+  scheduleJob('possession-proof-purge', config.cleanup.intervalMinutes * 60 * 1000, () => deleteExpiredPossessionProofs());
+
+  // Shared buckets get a row per API key and user; refilled ones are dropped
+  if (config.rateLimit.store === 'postgres') {
+    scheduleJob('rate-limit-bucket-purge', config.cleanup.intervalMinutes * 60 * 1000, () => deleteRefilledRateLimitBuckets());
+  }
+
+  // Token uses are buffered in memory and written in batches
+  scheduleJob('token-usage-flush', config.tokenUsage.flushIntervalSeconds * 1000, () => getTokenUsageBuffer().flush());
+
+  // Reminders are recorded once sent, so each token is reminded once per window
+  if (config.expiryReminders.windowsHours.length > 0) {
+    scheduleJob('token-expiry-reminders', config.expiryReminders.intervalMinutes * 60 * 1000, () => sendExpiryReminders());
+  }
+
+  // Signing keys and webhook secrets can only be managed once a master key is configured
+  if (getMasterKey()) {
+    scheduleJob('signing-key-rotation', config.keys.rotationCheckIntervalMinutes * 60 * 1000, () => rotateSigningKeys());
+    scheduleJob('webhook-dispatch', config.webhooks.dispatchIntervalSeconds * 1000, () => dispatchWebhookDeliveries());
+  }
+}
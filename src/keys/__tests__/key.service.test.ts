@@ -0,0 +1,179 @@
+import { createPrivateKey } from 'crypto';
+import {
+  generateSigningKey,
+  getJwks,
+  getKeyRotationSettings,
+  planKeyRotation,
+  signWithActiveKey,
+  verifySignedToken,
+} from '../key.service';
+import { prisma } from '@/lib/db';
+import { decryptSecret } from '@/lib/encryption';
+import { JwtError, signJwt } from '@/lib/jwt';
+import type { KeyRotationSettings, SigningKey } from '@/keys/key.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    signingKey: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/config', () => ({
+  getConfig: () => ({
+    keys: {
+      encryptionKey: null,
+      algorithm: 'RS256',
+      rotationIntervalDays: 7,
+      gracePeriodDays: 90,
+      rotationCheckIntervalMinutes: 60,
+    },
+  }),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const masterKey = Buffer.alloc(32, 7);
+
+const settings: KeyRotationSettings = {
+  algorithm: 'ES256',
+  rotationIntervalDays: 30,
+  gracePeriodDays: 365,
+};
+
+function keyRecord(overrides: Partial<SigningKey>): Pick<SigningKey, 'kid' | 'status' | 'createdAt' | 'retiringAt'> {
+  return {
+    kid: 'kid',
+    status: 'active',
+    createdAt: new Date(),
+    retiringAt: null,
+    ...overrides,
+  };
+}
+
+describe('Key Service', () => {
+  describe('getKeyRotationSettings', () => {
+    it('should read the algorithm and rotation windows from the config', () => {
+      expect(getKeyRotationSettings()).toEqual({ algorithm: 'RS256', rotationIntervalDays: 7, gracePeriodDays: 90 });
+    });
+  });
+
+  describe('planKeyRotation', () => {
+    const now = new Date('2025-06-01T00:00:00.000Z');
+
+    it('should create the first key when none exist', () => {
+      expect(planKeyRotation([], now, settings)).toEqual({
+        createKey: true,
+        markRetiring: [],
+        markRetired: [],
+      });
+    });
+
+    it('should keep a fresh active key', () => {
+      const keys = [keyRecord({ kid: 'current', createdAt: new Date(now.getTime() - 10 * DAY_MS) })];
+
+      expect(planKeyRotation(keys, now, settings)).toEqual({
+        createKey: false,
+        markRetiring: [],
+        markRetired: [],
+      });
+    });
+
+    it('should replace an active key older than the rotation interval', () => {
+      const keys = [keyRecord({ kid: 'old', createdAt: new Date(now.getTime() - 31 * DAY_MS) })];
+
+      expect(planKeyRotation(keys, now, settings)).toEqual({
+        createKey: true,
+        markRetiring: ['old'],
+        markRetired: [],
+      });
+    });
+
+    it('should demote surplus active keys but keep the newest', () => {
+      const keys = [
+        keyRecord({ kid: 'older', createdAt: new Date(now.getTime() - 5 * DAY_MS) }),
+        keyRecord({ kid: 'newest', createdAt: new Date(now.getTime() - 1 * DAY_MS) }),
+      ];
+
+      expect(planKeyRotation(keys, now, settings).markRetiring).toEqual(['older']);
+    });
+
+    it('should retire keys only after the grace window', () => {
+      const keys = [
+        keyRecord({ kid: 'current' }),
+        keyRecord({ kid: 'in-grace', status: 'retiring', retiringAt: new Date(now.getTime() - 100 * DAY_MS) }),
+        keyRecord({ kid: 'expired', status: 'retiring', retiringAt: new Date(now.getTime() - 366 * DAY_MS) }),
+      ];
+
+      expect(planKeyRotation(keys, now, settings).markRetired).toEqual(['expired']);
+    });
+  });
+
+  describe('generateSigningKey', () => {
+    it.each(['ES256', 'RS256'] as const)('should generate an encrypted %s key identified by thumbprint', (algorithm) => {
+      const key = generateSigningKey(algorithm, masterKey);
+
+      expect(key.publicJwk).toMatchObject({ kid: key.kid, alg: algorithm, use: 'sig' });
+      expect(key.encryptedPrivateKey).not.toContain('PRIVATE KEY');
+
+      const privateKey = createPrivateKey(decryptSecret(key.encryptedPrivateKey, masterKey));
+      expect(privateKey.type).toBe('private');
+    });
+  });
+
+  describe('signWithActiveKey', () => {
+    it('should report a missing master key as a server error', async () => {
+      await expect(signWithActiveKey({ sub: 'user123' })).rejects.toMatchObject({
+        status: 503,
+        message: 'JWT token format is not enabled on this server',
+      });
+      expect(prisma.signingKey.findFirst).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getJwks', () => {
+    it('should publish active and retiring keys', async () => {
+      const key = generateSigningKey('ES256', masterKey);
+      const findMany = prisma.signingKey.findMany as jest.Mock;
+      findMany.mockResolvedValue([{ ...key, status: 'active' }]);
+
+      await expect(getJwks()).resolves.toEqual({ keys: [key.publicJwk] });
+      expect(findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: { in: ['active', 'retiring'] } } })
+      );
+    });
+  });
+
+  describe('verifySignedToken', () => {
+    const findFirst = prisma.signingKey.findFirst as jest.Mock;
+    const key = generateSigningKey('ES256', masterKey);
+    const privateKey = createPrivateKey(decryptSecret(key.encryptedPrivateKey, masterKey));
+
+    beforeEach(() => {
+      findFirst.mockReset();
+    });
+
+    it('should verify tokens signed by a published key', async () => {
+      findFirst.mockResolvedValue(key);
+      const token = signJwt({ alg: 'ES256', kid: key.kid }, { sub: 'user123' }, privateKey);
+
+      await expect(verifySignedToken(token)).resolves.toMatchObject({ payload: { sub: 'user123' } });
+    });
+
+    it('should reject tokens whose key is unknown or retired', async () => {
+      findFirst.mockResolvedValue(null);
+      const token = signJwt({ alg: 'ES256', kid: key.kid }, { sub: 'user123' }, privateKey);
+
+      await expect(verifySignedToken(token)).rejects.toThrow(JwtError);
+    });
+
+    it('should reject tokens without a kid header', async () => {
+      const token = signJwt({ alg: 'ES256' }, { sub: 'user123' }, privateKey);
+
+      await expect(verifySignedToken(token)).rejects.toThrow('Unknown signing key');
+      expect(findFirst).not.toHaveBeenCalled();
+    });
+  });
+});
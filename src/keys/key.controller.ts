@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getJwks } from '@/keys/key.service';
+import type { ErrorResponse } from '@/tokens/token.type';
+
+/**
+ * Controller for publishing the JSON Web Key Set
+ * Public by design: verifiers need the keys without credentials
+ */
+export async function jwksController() {
+  try {
+    const jwks = await getJwks();
+
+    // Allow verifiers to cache keys briefly; rotation keeps old keys published
+    return NextResponse.json(jwks, {
+      status: 200,
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+
+  } catch (error) {
+    console.error('Error fetching JWKS:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,263 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject } from 'crypto';
+import { getConfig } from '@/lib/config';
+import { prisma } from '@/lib/db';
+import { decryptSecret, encryptSecret, getMasterKey } from '@/lib/encryption';
+import { ApiError } from '@/lib/errors';
+import {
+  computeJwkThumbprint,
+  decodeJwt,
+  JwtError,
+  signJwt,
+  verifyJwt,
+  type DecodedJwt,
+  type JwtAlgorithm,
+  type JwtPayload,
+} from '@/lib/jwt';
+import type {
+  JwksResponse,
+  KeyRotationPlan,
+  KeyRotationSettings,
+  PublicJwk,
+  SigningKey,
+} from '@/keys/key.type';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Advisory lock id serializing rotation across app replicas
+ */
+const KEY_ROTATION_LOCK_ID = 7100001;
+
+/**
+ * Decrypted private keys, cached by kid to avoid decrypting on every signature
+ */
+const privateKeyCache = new Map<string, KeyObject>();
+
+/**
+ * Reads rotation settings from the config
+ * Defaults: ES256, rotate every 30 days, keep retiring keys published for
+ * 365 days so tokens of the maximum lifetime keep verifying
+ */
+export function getKeyRotationSettings(): KeyRotationSettings {
+  const { algorithm, rotationIntervalDays, gracePeriodDays } = getConfig().keys;
+
+  return { algorithm, rotationIntervalDays, gracePeriodDays };
+}
+
+/**
+ * Decides which state changes a rotation run should make
+ *
+ * - The newest active key is replaced once it is older than the rotation interval
+ * - Replaced (and any surplus) active keys become retiring
+ * - Retiring keys past the grace window become retired
+ */
+export function planKeyRotation(
+  keys: Pick<SigningKey, 'kid' | 'status' | 'createdAt' | 'retiringAt'>[],
+  now: Date,
+  settings: KeyRotationSettings
+): KeyRotationPlan {
+  const activeKeys = keys
+    .filter((key) => key.status === 'active')
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  const newestKey = activeKeys[0];
+
+  const createKey =
+    !newestKey ||
+    now.getTime() - newestKey.createdAt.getTime() >= settings.rotationIntervalDays * DAY_MS;
+
+  const markRetiring = (createKey ? activeKeys : activeKeys.slice(1)).map((key) => key.kid);
+
+  const markRetired = keys
+    .filter(
+      (key) =>
+        key.status === 'retiring' &&
+        key.retiringAt !== null &&
+        now.getTime() - key.retiringAt.getTime() >= settings.gracePeriodDays * DAY_MS
+    )
+    .map((key) => key.kid);
+
+  return { createKey, markRetiring, markRetired };
+}
+
+/**
+ * Generates a new key pair, identified by its RFC 7638 thumbprint
+ *
+ * @returns The columns for a new signing key row
+ */
+export function generateSigningKey(algorithm: JwtAlgorithm, masterKey: Buffer) {
+  const { privateKey, publicKey } =
+    algorithm === 'RS256'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  const jwk = publicKey.export({ format: 'jwk' });
+  const kid = computeJwkThumbprint(jwk);
+  const publicJwk: PublicJwk = {
+    kty: jwk.kty as string,
+    kid,
+    alg: algorithm,
+    use: 'sig',
+    ...(algorithm === 'RS256' ? { n: jwk.n, e: jwk.e } : { crv: jwk.crv, x: jwk.x, y: jwk.y }),
+  };
+
+  return {
+    kid,
+    algorithm,
+    publicJwk,
+    encryptedPrivateKey: encryptSecret(
+      privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      masterKey
+    ),
+  };
+}
+
+/**
+ * Runs one rotation cycle
+ * Runs inside a transaction holding an advisory lock so concurrent replicas
+ * cannot both create a new active key
+ *
+ * @param now - Reference time, defaults to the current time
+ * @returns The applied plan
+ */
+export async function rotateSigningKeys(now: Date = new Date()): Promise<KeyRotationPlan> {
+  const masterKey = getMasterKey();
+
+  if (!masterKey) {
+    throw new Error('KEY_ENCRYPTION_KEY is not configured');
+  }
+
+  const settings = getKeyRotationSettings();
+
+  return prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(${KEY_ROTATION_LOCK_ID})`;
+
+    const keys = await tx.signingKey.findMany({
+      where: {
+        status: { in: ['active', 'retiring'] },
+      },
+    });
+
+    const plan = planKeyRotation(keys, now, settings);
+
+    if (plan.markRetired.length > 0) {
+      await tx.signingKey.updateMany({
+        where: { kid: { in: plan.markRetired } },
+        data: { status: 'retired', retiredAt: now },
+      });
+    }
+
+    if (plan.markRetiring.length > 0) {
+      await tx.signingKey.updateMany({
+        where: { kid: { in: plan.markRetiring } },
+        data: { status: 'retiring', retiringAt: now },
+      });
+    }
+
+    if (plan.createKey) {
+      await tx.signingKey.create({
+        data: { ...generateSigningKey(settings.algorithm, masterKey), createdAt: now },
+      });
+    }
+
+    return plan;
+  });
+}
+
+/**
+ * Loads the current active signing key, creating the first one on demand
+ *
+ * @returns The key id, algorithm and decrypted private key, or null when
+ * no master key is configured
+ */
+export async function getActiveSigningKey(): Promise<
+  { kid: string; algorithm: JwtAlgorithm; privateKey: KeyObject } | null
+> {
+  const masterKey = getMasterKey();
+
+  if (!masterKey) {
+    return null;
+  }
+
+  const findActiveKey = () =>
+    prisma.signingKey.findFirst({
+      where: { status: 'active' },
+      orderBy: { createdAt: 'desc' },
+    });
+
+  let key = await findActiveKey();
+
+  if (!key) {
+    await rotateSigningKeys();
+    key = await findActiveKey();
+  }
+
+  if (!key) {
+    return null;
+  }
+
+  let privateKey = privateKeyCache.get(key.kid);
+
+  if (!privateKey) {
+    privateKey = createPrivateKey(decryptSecret(key.encryptedPrivateKey, masterKey));
+    privateKeyCache.set(key.kid, privateKey);
+  }
+
+  return { kid: key.kid, algorithm: key.algorithm as JwtAlgorithm, privateKey };
+}
+
+/**
+ * Signs a JWT with the active key, setting the `kid` header
+ *
+ * @throws ApiError (503) when signing keys are not configured; this is a
+ * server misconfiguration, not a problem with the request
+ */
+export async function signWithActiveKey(payload: JwtPayload): Promise<string> {
+  const key = await getActiveSigningKey();
+
+  if (!key) {
+    throw new ApiError(503, 'JWT token format is not enabled on this server');
+  }
+
+  return signJwt({ alg: key.algorithm, typ: 'JWT', kid: key.kid }, payload, key.privateKey);
+}
+
+/**
+ * Lists the public keys verifiers should trust: active and retiring keys
+ */
+export async function getJwks(): Promise<JwksResponse> {
+  const keys = await prisma.signingKey.findMany({
+    where: {
+      status: { in: ['active', 'retiring'] },
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+  return { keys: keys.map((key) => key.publicJwk as PublicJwk) };
+}
+
+/**
+ * Verifies a JWT issued by this service against the published keys
+ *
+ * @throws JwtError when the key is unknown/retired or verification fails
+ */
+export async function verifySignedToken(token: string): Promise<DecodedJwt> {
+  const { header } = decodeJwt(token);
+
+  const key = header.kid
+    ? await prisma.signingKey.findFirst({
+        where: {
+          kid: header.kid,
+          status: { in: ['active', 'retiring'] },
+        },
+      })
+    : null;
+
+  if (!key) {
+    throw new JwtError('Unknown signing key');
+  }
+
+  const publicKey = createPublicKey({ key: key.publicJwk as PublicJwk, format: 'jwk' });
+  return verifyJwt(token, publicKey);
+}
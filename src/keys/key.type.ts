@@ -0,0 +1,64 @@
+import type { JwtAlgorithm } from '@/lib/jwt';
+
+/**
+ * Lifecycle of a signing key
+ * - active: signs new tokens and is published in the JWKS
+ * - retiring: no longer signs, still published so issued tokens verify
+ * - retired: past the grace window, no longer published
+ */
+export type SigningKeyStatus = 'active' | 'retiring' | 'retired';
+
+/**
+ * Public half of a signing key in JWK form, as published in the JWKS
+ */
+export type PublicJwk = {
+  kty: string;
+  kid: string;
+  alg: JwtAlgorithm;
+  use: 'sig';
+  n?: string;
+  e?: string;
+  crv?: string;
+  x?: string;
+  y?: string;
+};
+
+/**
+ * Signing key record matching the database schema
+ * The private key is stored encrypted with the master key
+ */
+export interface SigningKey {
+  kid: string;
+  algorithm: string;
+  publicJwk: unknown;
+  encryptedPrivateKey: string;
+  status: SigningKeyStatus;
+  createdAt: Date;
+  retiringAt: Date | null;
+  retiredAt: Date | null;
+}
+
+/**
+ * Rotation timing, configured through the environment
+ */
+export interface KeyRotationSettings {
+  algorithm: JwtAlgorithm;
+  rotationIntervalDays: number;
+  gracePeriodDays: number;
+}
+
+/**
+ * State changes decided by a rotation run
+ */
+export interface KeyRotationPlan {
+  createKey: boolean;
+  markRetiring: string[];
+  markRetired: string[];
+}
+
+/**
+ * JSON Web Key Set response format
+ */
+export interface JwksResponse {
+  keys: PublicJwk[];
+}
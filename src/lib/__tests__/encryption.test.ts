@@ -0,0 +1,32 @@
+import { randomBytes } from 'crypto';
+import { decryptSecret, encryptSecret } from '@/lib/encryption';
+
+describe('Encryption', () => {
+  const key = randomBytes(32);
+
+  describe('encryptSecret and decryptSecret', () => {
+    it('should round-trip a secret', () => {
+      const payload = encryptSecret('super secret', key);
+
+      expect(payload).not.toContain('super secret');
+      expect(decryptSecret(payload, key)).toBe('super secret');
+    });
+
+    it('should use a fresh IV for every encryption', () => {
+      expect(encryptSecret('same', key)).not.toBe(encryptSecret('same', key));
+    });
+
+    it('should reject a different key', () => {
+      const payload = encryptSecret('super secret', key);
+      expect(() => decryptSecret(payload, randomBytes(32))).toThrow();
+    });
+
+    it('should reject tampered ciphertext', () => {
+      const [iv, tag, ciphertext] = encryptSecret('super secret', key).split('.');
+      const tampered = Buffer.from(ciphertext, 'base64url');
+      tampered[0] ^= 1;
+
+      expect(() => decryptSecret(`${iv}.${tag}.${tampered.toString('base64url')}`, key)).toThrow();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { generateKeyPairSync } from 'crypto';
+import {
+  computeJwkThumbprint,
+  decodeJwt,
+  getJwtAlgorithm,
+  JwtError,
+  signJwt,
+  verifyJwt,
+} from '@/lib/jwt';
+
+describe('JWT', () => {
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  describe('getJwtAlgorithm', () => {
+    it('should map RSA keys to RS256', () => {
+      expect(getJwtAlgorithm(rsa.privateKey)).toBe('RS256');
+    });
+
+    it('should map P-256 keys to ES256', () => {
+      expect(getJwtAlgorithm(ec.publicKey)).toBe('ES256');
+    });
+
+    it('should reject other curves', () => {
+      const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-384' });
+      expect(() => getJwtAlgorithm(privateKey)).toThrow(JwtError);
+    });
+  });
+
+  describe('signJwt and verifyJwt', () => {
+    it.each([
+      ['RS256', rsa],
+      ['ES256', ec],
+    ] as const)('should round-trip %s tokens', (alg, keys) => {
+      const token = signJwt({ alg, typ: 'JWT' }, { sub: 'user123', scope: 'read' }, keys.privateKey);
+
+      expect(verifyJwt(token, keys.publicKey)).toEqual({
+        header: { alg, typ: 'JWT' },
+        payload: { sub: 'user123', scope: 'read' },
+      });
+    });
+
+    it('should reject a header algorithm the key cannot produce', () => {
+      expect(() => signJwt({ alg: 'RS256' }, {}, ec.privateKey)).toThrow(JwtError);
+    });
+
+    it('should reject tampered payloads', () => {
+      const token = signJwt({ alg: 'ES256' }, { sub: 'user123' }, ec.privateKey);
+      const [header, , signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ sub: 'admin' })).toString('base64url');
+
+      expect(() => verifyJwt(`${header}.${forged}.${signature}`, ec.publicKey)).toThrow('Invalid JWT signature');
+    });
+
+    it('should reject tokens signed by another key', () => {
+      const other = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const token = signJwt({ alg: 'ES256' }, {}, other.privateKey);
+
+      expect(() => verifyJwt(token, ec.publicKey)).toThrow(JwtError);
+    });
+
+    it('should reject expired tokens', () => {
+      const exp = Math.floor(Date.now() / 1000) - 60;
+      const token = signJwt({ alg: 'ES256' }, { exp }, ec.privateKey);
+
+      expect(() => verifyJwt(token, ec.publicKey)).toThrow('JWT has expired');
+    });
+  });
+
+  describe('decodeJwt', () => {
+    it('should reject tokens without three segments', () => {
+      expect(() => decodeJwt('token_abc')).toThrow(JwtError);
+    });
+
+    it('should reject segments that are not JSON', () => {
+      expect(() => decodeJwt('a.b.c')).toThrow(JwtError);
+    });
+
+    it('should reject headers and payloads that are not JSON objects', () => {
+      const segment = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const header = segment({ alg: 'ES256' });
+
+      for (const value of [null, 'ES256', 42, ['ES256']]) {
+        expect(() => decodeJwt(`${segment(value)}.${segment({})}.c2ln`)).toThrow(JwtError);
+        expect(() => decodeJwt(`${header}.${segment(value)}.c2ln`)).toThrow(JwtError);
+      }
+      expect(() => verifyJwt(`${segment(null)}.${segment({})}.c2ln`, ec.publicKey)).toThrow(JwtError);
+    });
+  });
+
+  describe('computeJwkThumbprint', () => {
+    it('should hash only the required members', () => {
+      const jwk = ec.publicKey.export({ format: 'jwk' });
+
+      expect(computeJwkThumbprint(jwk)).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(computeJwkThumbprint({ ...jwk, kid: 'ignored', use: 'sig' })).toBe(computeJwkThumbprint(jwk));
+    });
+
+    it('should differ between keys', () => {
+      const other = generateKeyPairSync('ec', { namedCurve: 'P-256' }).publicKey.export({ format: 'jwk' });
+
+      expect(computeJwkThumbprint(other)).not.toBe(computeJwkThumbprint(ec.publicKey.export({ format: 'jwk' })));
+    });
+
+    it('should support RSA keys', () => {
+      expect(computeJwkThumbprint(rsa.publicKey.export({ format: 'jwk' }))).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    });
+  });
+});
@@ -1,18 +1,60 @@
 import type { NextRequest } from 'next/server';
+import { findClientByApiKey } from '@/clients/client.service';
+import { getConfig } from '@/lib/config';
+import { hashToken, tokenHashesMatch } from '@/tokens/token.service';
+import { DEFAULT_TENANT_ID } from '@/tenants/tenant.service';
+import type { Client } from '@/clients/client.type';
 
 /**
- * Validates API key from X-API-Key header
- * Returns true if valid, false otherwise
+ * Identity behind an authenticated request
+ * - admin: the operator key from API_KEY, allowed to manage clients and scopes;
+ *   acts within the tenant named by the X-Tenant-Id header
+ * - client: a registered client, restricted to its own tenant, allowlist and limits
  */
-export function validateApiKey(request: NextRequest): boolean {
+export type AuthContext =
+  | { type: 'admin'; tenantId: string }
+  | { type: 'client'; client: Client };
+
+/**
+ * Authenticates the API key from the X-API-Key header
+ * Returns the caller's identity, or null if the key is missing or unknown
+ */
+export async function authenticateRequest(request: NextRequest): Promise<AuthContext | null> {
   const apiKey = request.headers.get('X-API-Key');
-  const expectedApiKey = process.env.API_KEY;
+  const { apiKey: adminApiKey, authDisabled } = getConfig();
 
-  // If no API key is configured, skip authentication (dev mode)
-  if (!expectedApiKey) {
-    console.warn('Warning: API_KEY not configured. Authentication is disabled.');
-    return true;
+  const tenantId = request.headers.get('X-Tenant-Id') || DEFAULT_TENANT_ID;
+
+  // Authentication is only skipped on explicit opt-in (never in production)
+  if (authDisabled) {
+    return { type: 'admin', tenantId };
   }
 
-  return apiKey === expectedApiKey;
+  if (!apiKey) {
+    return null;
+  }
+
+  // Compare digests in constant time; without an admin key only clients can authenticate
+  if (adminApiKey && tokenHashesMatch(hashToken(apiKey), hashToken(adminApiKey))) {
+    return { type: 'admin', tenantId };
+  }
+
+  const client = await findClientByApiKey(apiKey);
+
+  return client ? { type: 'client', client } : null;
+}
+
+/**
+ * Returns the id of the calling client, or null for the admin key
+ */
+export function getAuthClientId(auth: AuthContext): string | null {
+  return auth.type === 'client' ? auth.client.id : null;
+}
+
+/**
+ * Returns the tenant the caller acts within
+ * Clients are bound to their own tenant; X-Tenant-Id is ignored for them
+ */
+export function getAuthTenantId(auth: AuthContext): string {
+  return auth.type === 'client' ? auth.client.tenantId : auth.tenantId;
 }
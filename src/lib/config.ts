@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import type { JwtAlgorithm } from '@/lib/jwt';
+import type { RateLimitRule } from '@/rate-limit/rate-limit.type';
+
+/**
+ * Treats empty strings (e.g. `API_KEY=""` in .env) as unset
+ */
+const optionalSecret = z.preprocess(
+  (value) => (value === '' ? undefined : value),
+  z.string().optional()
+);
+
+/**
+ * Positive integer read from a string variable, with a default when unset
+ */
+const positiveInt = (defaultValue: number) =>
+  z.coerce.number().int().positive().default(defaultValue);
+
+/**
+ * Non-negative integer read from a string variable, with a default when unset
+ */
+const nonNegativeInt = (defaultValue: number) =>
+  z.coerce.number().int().min(0).default(defaultValue);
+
+/**
+ * Optional base64 encoded 32 byte key, decoded to a Buffer; empty strings are unset
+ */
+const optionalEncryptionKey = optionalSecret
+  .refine(
+    (value) => value === undefined || (/^[A-Za-z0-9+/]+={0,2}$/.test(value) && Buffer.from(value, 'base64').length === 32),
+    'must be 32 bytes, base64 encoded'
+  )
+  .transform((value) => (value === undefined ? null : Buffer.from(value, 'base64')));
+
+/**
+ * Validation schema for the environment
+ *
+ * Rules:
+ * - DATABASE_URL: required
+ * - API_KEY: admin key; required in production, at least 16 characters
+ * - AUTH_DISABLED: explicit opt-out of authentication, never allowed in production
+ * - KEY_ENCRYPTION_KEY: optional master key (32 bytes, base64) enabling JWTs and webhooks
+ * - JWT_SIGNING_ALGORITHM, KEY_*: signing algorithm (ES256 or RS256), rotation
+ *   interval, grace window for retiring keys and rotation check interval
+ * - RATE_LIMIT_*: token bucket sizes and refill rates, store is memory or postgres
+ * - CLEANUP_*: token cleanup job interval, retention window and batch size
+ * - TOKEN_USAGE_FLUSH_INTERVAL_SECONDS: how often buffered token uses are written
+ * - WEBHOOK_*: delivery interval, attempts before giving up and request timeout
+ * - EXPIRY_REMINDER_*: comma-separated reminder windows in hours (empty
+ *   disables reminders), job interval and notifier (log or webhook)
+ * - POLICY_FILE: optional path to a JSON or YAML file of token policies
+ * - IDEMPOTENCY_RETENTION_HOURS: how long responses are kept for Idempotency-Key replays
+ */
+export const envSchema = z
+  .object({
+    NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
+    DATABASE_URL: z.string().min(1, 'DATABASE_URL is required'),
+    API_KEY: optionalSecret,
+    AUTH_DISABLED: z
+      .enum(['true', 'false'])
+      .optional()
+      .transform((value) => value === 'true'),
+    KEY_ENCRYPTION_KEY: optionalEncryptionKey,
+    JWT_SIGNING_ALGORITHM: z.enum(['ES256', 'RS256']).default('ES256'),
+    KEY_ROTATION_INTERVAL_DAYS: positiveInt(30),
+    KEY_GRACE_PERIOD_DAYS: positiveInt(365),
+    KEY_ROTATION_CHECK_INTERVAL_MINUTES: positiveInt(60),
+    RATE_LIMIT_STORE: z.enum(['memory', 'postgres']).default('memory'),
+    RATE_LIMIT_API_KEY_CAPACITY: positiveInt(120),
+    RATE_LIMIT_API_KEY_REFILL_PER_MINUTE: positiveInt(120),
+    RATE_LIMIT_USER_CAPACITY: positiveInt(20),
+    RATE_LIMIT_USER_REFILL_PER_MINUTE: positiveInt(10),
+    CLEANUP_INTERVAL_MINUTES: positiveInt(60),
+    CLEANUP_RETENTION_DAYS: nonNegativeInt(30),
+    CLEANUP_BATCH_SIZE: positiveInt(500),
+    TOKEN_USAGE_FLUSH_INTERVAL_SECONDS: positiveInt(30),
+    WEBHOOK_DISPATCH_INTERVAL_SECONDS: positiveInt(10),
+    WEBHOOK_MAX_ATTEMPTS: positiveInt(8),
+    WEBHOOK_TIMEOUT_SECONDS: positiveInt(10),
+    EXPIRY_REMINDER_WINDOWS_HOURS: z
+      .string()
+      .default('168,24')
+      .transform((value) => value.split(',').map((window) => window.trim()).filter(Boolean).map(Number))
+      .pipe(z.array(z.number().int().positive())),
+    EXPIRY_REMINDER_INTERVAL_MINUTES: positiveInt(60),
+    EXPIRY_REMINDER_NOTIFIER: z.enum(['log', 'webhook']).default('log'),
+    POLICY_FILE: optionalSecret,
+    IDEMPOTENCY_RETENTION_HOURS: positiveInt(24),
+  })
+  .superRefine((env, ctx) => {
+    if (env.NODE_ENV !== 'production') {
+      return;
+    }
+
+    if (!env.API_KEY) {
+      ctx.addIssue({ code: 'custom', path: ['API_KEY'], message: 'API_KEY is required in production' });
+    } else if (env.API_KEY.length < 16) {
+      ctx.addIssue({ code: 'custom', path: ['API_KEY'], message: 'API_KEY must be at least 16 characters in production' });
+    }
+
+    if (env.AUTH_DISABLED) {
+      ctx.addIssue({ code: 'custom', path: ['AUTH_DISABLED'], message: 'AUTH_DISABLED cannot be enabled in production' });
+    }
+  });
+
+/**
+ * Typed application configuration
+ */
+export interface Config {
+  nodeEnv: 'development' | 'test' | 'production';
+  databaseUrl: string;
+  apiKey: string | null;
+  authDisabled: boolean;
+  keys: {
+    encryptionKey: Buffer | null;
+    algorithm: JwtAlgorithm;
+    rotationIntervalDays: number;
+    gracePeriodDays: number;
+    rotationCheckIntervalMinutes: number;
+  };
+  rateLimit: {
+    store: 'memory' | 'postgres';
+    apiKey: RateLimitRule;
+    user: RateLimitRule;
+  };
+  cleanup: {
+    intervalMinutes: number;
+    retentionDays: number;
+    batchSize: number;
+  };
+  tokenUsage: {
+    flushIntervalSeconds: number;
+  };
+  webhooks: {
+    dispatchIntervalSeconds: number;
+    maxAttempts: number;
+    timeoutSeconds: number;
+  };
+  expiryReminders: {
+    windowsHours: number[];
+    intervalMinutes: number;
+    notifier: 'log' | 'webhook';
+  };
+  policies: {
+    file: string | null;
+  };
+  idempotency: {
+    retentionHours: number;
+  };
+}
+
+/**
+ * Thrown when the environment is missing or has invalid settings
+ */
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Validates an environment and maps it to a Config
+ *
+ * `next build` imports route modules with NODE_ENV=production but without
+ * runtime secrets, so production-only rules are skipped during the build phase.
+ *
+ * @throws ConfigError listing every invalid setting
+ */
+export function parseConfig(env: Record<string, string | undefined>): Config {
+  const isBuildPhase = env.NEXT_PHASE === 'phase-production-build';
+  const result = envSchema.safeParse(isBuildPhase ? { ...env, NODE_ENV: 'development' } : env);
+
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`));
+  }
+
+  return {
+    nodeEnv: isBuildPhase ? 'production' : result.data.NODE_ENV,
+    databaseUrl: result.data.DATABASE_URL,
+    apiKey: result.data.API_KEY ?? null,
+    authDisabled: result.data.AUTH_DISABLED,
+    keys: {
+      encryptionKey: result.data.KEY_ENCRYPTION_KEY,
+      algorithm: result.data.JWT_SIGNING_ALGORITHM,
+      rotationIntervalDays: result.data.KEY_ROTATION_INTERVAL_DAYS,
+      gracePeriodDays: result.data.KEY_GRACE_PERIOD_DAYS,
+      rotationCheckIntervalMinutes: result.data.KEY_ROTATION_CHECK_INTERVAL_MINUTES,
+    },
+    rateLimit: {
+      store: result.data.RATE_LIMIT_STORE,
+      apiKey: {
+        capacity: result.data.RATE_LIMIT_API_KEY_CAPACITY,
+        refillPerMinute: result.data.RATE_LIMIT_API_KEY_REFILL_PER_MINUTE,
+      },
+      user: {
+        capacity: result.data.RATE_LIMIT_USER_CAPACITY,
+        refillPerMinute: result.data.RATE_LIMIT_USER_REFILL_PER_MINUTE,
+      },
+    },
+    cleanup: {
+      intervalMinutes: result.data.CLEANUP_INTERVAL_MINUTES,
+      retentionDays: result.data.CLEANUP_RETENTION_DAYS,
+      batchSize: result.data.CLEANUP_BATCH_SIZE,
+    },
+    tokenUsage: {
+      flushIntervalSeconds: result.data.TOKEN_USAGE_FLUSH_INTERVAL_SECONDS,
+    },
+    webhooks: {
+      dispatchIntervalSeconds: result.data.WEBHOOK_DISPATCH_INTERVAL_SECONDS,
+      maxAttempts: result.data.WEBHOOK_MAX_ATTEMPTS,
+      timeoutSeconds: result.data.WEBHOOK_TIMEOUT_SECONDS,
+    },
+    expiryReminders: {
+      windowsHours: result.data.EXPIRY_REMINDER_WINDOWS_HOURS,
+      intervalMinutes: result.data.EXPIRY_REMINDER_INTERVAL_MINUTES,
+      notifier: result.data.EXPIRY_REMINDER_NOTIFIER,
+    },
+    policies: {
+      file: result.data.POLICY_FILE ?? null,
+    },
+    idempotency: {
+      retentionHours: result.data.IDEMPOTENCY_RETENTION_HOURS,
+    },
+  };
+}
+
+let cachedConfig: Config | undefined;
+
+/**
+ * Returns the validated configuration, parsing process.env on first use
+ *
+ * @throws ConfigError when the environment is invalid
+ */
+export function getConfig(): Config {
+  cachedConfig ??= parseConfig(process.env);
+  return cachedConfig;
+}
@@ -1,6 +1,7 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { PrismaPg } from '@prisma/adapter-pg';
 import { Pool } from 'pg';
+import { getConfig } from '@/lib/config';
 
 /**
  * Prisma Client singleton to prevent multiple instances during development
@@ -12,18 +13,99 @@ const globalForPrisma = globalThis as unknown as {
   pool: Pool | undefined;
 };
 
+const config = getConfig();
+
 // Create PostgreSQL connection pool
-const pool = globalForPrisma.pool ?? new Pool({ connectionString: process.env.DATABASE_URL });
+const pool = globalForPrisma.pool ?? new Pool({ connectionString: config.databaseUrl });
 const adapter = new PrismaPg(pool);
 
 export const prisma =
   globalForPrisma.prisma ??
   new PrismaClient({
     adapter,
-    log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+    log: config.nodeEnv === 'development' ? ['query', 'error', 'warn'] : ['error'],
   });
 
-if (process.env.NODE_ENV !== 'production') {
+if (config.nodeEnv !== 'production') {
   globalForPrisma.prisma = prisma;
   globalForPrisma.pool = pool;
 }
+
+/**
+ * Client accepted by service functions that can run inside a transaction
+ * Pass the `tx` of `prisma.$transaction` to join it; defaults to `prisma`
+ */
+export type DbClient = Prisma.TransactionClient;
+
+/**
+ * Runs `fn` atomically: joins the caller's transaction when `db` already is
+ * a transaction client, otherwise starts a new one with the given options
+ */
+export async function inTransaction<T>(
+  db: DbClient,
+  fn: (tx: DbClient) => Promise<T>,
+  options?: { timeout?: number }
+): Promise<T> {
+  if ('$transaction' in db) {
+    return (db as PrismaClient).$transaction(fn, options);
+  }
+
+  return fn(db);
+}
+
+/**
+ * Runs `fn` atomically like `inTransaction`, but when `db` already is a
+ * transaction client it runs in a savepoint instead of joining: an error
+ * thrown by `fn` only rolls back its own changes and leaves the caller's
+ * transaction usable
+ */
+export async function inSavepoint<T>(
+  db: DbClient,
+  fn: (tx: DbClient) => Promise<T>,
+  options?: { timeout?: number }
+): Promise<T> {
+  if ('$transaction' in db) {
+    return (db as PrismaClient).$transaction(fn, options);
+  }
+
+  // Savepoints of the same name nest; each release or rollback applies to the latest
+  await db.$executeRaw`SAVEPOINT nested_transaction`;
+
+  try {
+    const result = await fn(db);
+    await db.$executeRaw`RELEASE SAVEPOINT nested_transaction`;
+    return result;
+  } catch (error) {
+    await db.$executeRaw`ROLLBACK TO SAVEPOINT nested_transaction`;
+    throw error;
+  }
+}
+
+/**
+ * Runs `fn` only when no other process holds the named advisory lock, so a
+ * background job runs on one replica at a time
+ *
+ * The transaction-scoped lock is held by a transaction kept open until `fn`
+ * settles; `fn` runs its own queries and transactions.
+ *
+ * @param name - Lock name, hashed to the advisory lock key
+ * @param fn - The work to perform while holding the lock
+ * @param timeoutMs - Longest time the lock may be held
+ * @returns The result of `fn`, or null when another process holds the lock
+ */
+export async function withAdvisoryLock<T>(
+  name: string,
+  fn: () => Promise<T>,
+  timeoutMs: number = 10 * 60 * 1000
+): Promise<T | null> {
+  return prisma.$transaction(
+    async (tx) => {
+      const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+        SELECT pg_try_advisory_xact_lock(hashtext(${name})) AS "locked"
+      `;
+
+      return locked ? fn() : null;
+    },
+    { timeout: timeoutMs }
+  );
+}
@@ -0,0 +1,45 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { getConfig } from '@/lib/config';
+
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * Returns the master key used to encrypt secrets at rest
+ * KEY_ENCRYPTION_KEY must hold 32 random bytes, base64 encoded
+ * (e.g. `openssl rand -base64 32`); it is validated with the rest of the config
+ *
+ * @returns The key, or null if it is not configured
+ */
+export function getMasterKey(): Buffer | null {
+  return getConfig().keys.encryptionKey;
+}
+
+/**
+ * Encrypts a secret with AES-256-GCM
+ * Output format: <iv>.<auth tag>.<ciphertext>, each base64url encoded
+ */
+export function encryptSecret(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decrypts a secret produced by encryptSecret
+ * Throws if the payload was tampered with or the key is wrong
+ */
+export function decryptSecret(payload: string, key: Buffer): string {
+  const [iv, authTag, ciphertext] = payload.split('.').map((part) => Buffer.from(part, 'base64url'));
+
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Malformed encrypted payload');
+  }
+
+  const decipher = createDecipheriv(CIPHER, key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
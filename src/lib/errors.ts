@@ -0,0 +1,31 @@
+import type { OAuthErrorCode } from '@/oauth/oauth.type';
+
+/**
+ * Error for expected failures that map to an HTTP status
+ * Services throw it; controllers translate it into an ErrorResponse
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Error for OAuth 2.0 endpoints, which report failures in the RFC 6749
+ * format `{ error, error_description }` instead of an ErrorResponse
+ */
+export class OAuthError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: OAuthErrorCode,
+    description: string
+  ) {
+    super(description);
+    this.name = 'OAuthError';
+  }
+}
@@ -0,0 +1,158 @@
+import { createHash, JsonWebKey, KeyObject, sign, verify } from 'crypto';
+
+/**
+ * Supported asymmetric signing algorithms
+ * RS256: RSASSA-PKCS1-v1_5 with SHA-256
+ * ES256: ECDSA on P-256 with SHA-256
+ */
+export type JwtAlgorithm = 'RS256' | 'ES256';
+
+export interface JwtHeader {
+  alg: JwtAlgorithm;
+  typ?: string;
+  kid?: string;
+  [parameter: string]: unknown;
+}
+
+export interface JwtPayload {
+  sub?: string;
+  scope?: string;
+  iat?: number;
+  exp?: number;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+export interface DecodedJwt {
+  header: JwtHeader;
+  payload: JwtPayload;
+}
+
+/**
+ * Raised when a JWT is malformed or fails verification
+ */
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Decodes a header or payload segment, which must be a JSON object
+ */
+function decodeSegment<T>(segment: string): T {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new JwtError('Malformed JWT segment');
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new JwtError('JWT header and payload must be JSON objects');
+  }
+
+  return value as T;
+}
+
+/**
+ * Determines the JWT algorithm for a key
+ * RSA keys sign with RS256 and P-256 EC keys with ES256
+ */
+export function getJwtAlgorithm(key: KeyObject): JwtAlgorithm {
+  if (key.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+
+  if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+    return 'ES256';
+  }
+
+  throw new JwtError('Unsupported key type. Use an RSA or P-256 EC key.');
+}
+
+/**
+ * Signs a JWT in compact serialization
+ * ECDSA signatures use the raw r||s encoding required by JWS
+ */
+export function signJwt(header: JwtHeader, payload: JwtPayload, privateKey: KeyObject): string {
+  if (getJwtAlgorithm(privateKey) !== header.alg) {
+    throw new JwtError(`Key cannot sign ${header.alg} tokens`);
+  }
+
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  const signature = sign('sha256', Buffer.from(signingInput), {
+    key: privateKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Decodes a compact JWT without verifying its signature
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const segments = token.split('.');
+
+  if (segments.length !== 3) {
+    throw new JwtError('JWT must have three segments');
+  }
+
+  return {
+    header: decodeSegment<JwtHeader>(segments[0]),
+    payload: decodeSegment<JwtPayload>(segments[1]),
+  };
+}
+
+/**
+ * Verifies a JWT signature and its `exp` claim
+ *
+ * @param token - Compact serialized JWT
+ * @param publicKey - Key expected to have signed the token
+ * @returns The decoded header and payload
+ */
+export function verifyJwt(token: string, publicKey: KeyObject): DecodedJwt {
+  const decoded = decodeJwt(token);
+
+  if (decoded.header.alg !== getJwtAlgorithm(publicKey)) {
+    throw new JwtError('JWT algorithm does not match the verification key');
+  }
+
+  const [header, payload, signature] = token.split('.');
+  const valid = verify(
+    'sha256',
+    Buffer.from(`${header}.${payload}`),
+    { key: publicKey, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url')
+  );
+
+  if (!valid) {
+    throw new JwtError('Invalid JWT signature');
+  }
+
+  if (typeof decoded.payload.exp === 'number' && decoded.payload.exp * 1000 <= Date.now()) {
+    throw new JwtError('JWT has expired');
+  }
+
+  return decoded;
+}
+
+/**
+ * Computes the RFC 7638 thumbprint of a public JWK (base64url SHA-256)
+ * Only the required members are hashed, in lexicographic order
+ */
+export function computeJwkThumbprint(jwk: JsonWebKey): string {
+  const members =
+    jwk.kty === 'RSA'
+      ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+      : { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y };
+
+  return createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
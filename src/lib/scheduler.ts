@@ -0,0 +1,39 @@
+/**
+ * Runs a task immediately and then on a fixed interval in the server process
+ * A run is skipped while the previous one is still in progress, and failures
+ * are logged instead of crashing the process
+ *
+ * @param name - Job name used in log messages
+ * @param intervalMs - Delay between runs in milliseconds
+ * @param task - The work to perform
+ * @returns Function that stops the job
+ */
+export function scheduleJob(
+  name: string,
+  intervalMs: number,
+  task: () => Promise<unknown>
+): () => void {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      console.error(`Scheduled job "${name}" failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  // Do not keep the process alive just for background jobs
+  timer.unref();
+  void run();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,167 @@
+import { getCleanupCutoff, runCleanup, serializeCleanupResult } from '../maintenance.service';
+import { prisma, withAdvisoryLock } from '@/lib/db';
+import type { AuditContext } from '@/audit/audit.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests;
+// interactive transactions run against the same mock
+jest.mock('@/lib/db', () => {
+  const client = {
+    token: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    refreshToken: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    tokenEvent: {
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((callback) => callback(client));
+  return {
+    prisma: client,
+    inTransaction: jest.fn((db, callback) => callback(db)),
+    withAdvisoryLock: jest.fn((name, fn) => fn()),
+  };
+});
+
+const audit: AuditContext = {
+  actor: 'admin',
+  clientId: null,
+  ip: '203.0.113.7',
+  userAgent: 'curl/8.0',
+  requestId: 'req_1',
+};
+
+const now = new Date('2025-03-01T00:00:00.000Z');
+
+const storedToken = (id: string) => ({
+  id,
+  userId: 'user123',
+  expiresAt: new Date('2025-01-01T00:00:00.000Z'),
+  revokedAt: new Date('2025-01-02T00:00:00.000Z'),
+});
+
+describe('Maintenance Service', () => {
+  const tokenFindMany = prisma.token.findMany as jest.Mock;
+  const tokenDeleteMany = prisma.token.deleteMany as jest.Mock;
+  const refreshFindMany = prisma.refreshToken.findMany as jest.Mock;
+  const refreshDeleteMany = prisma.refreshToken.deleteMany as jest.Mock;
+  const createMany = prisma.tokenEvent.createMany as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tokenFindMany.mockReset();
+    tokenDeleteMany.mockReset();
+    refreshFindMany.mockReset();
+    refreshDeleteMany.mockReset();
+    tokenFindMany.mockResolvedValue([]);
+    tokenDeleteMany.mockResolvedValue({ count: 0 });
+    refreshFindMany.mockResolvedValue([]);
+    refreshDeleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  describe('getCleanupCutoff', () => {
+    it('should subtract the retention window from now', () => {
+      expect(getCleanupCutoff(30, now)).toEqual(new Date('2025-01-30T00:00:00.000Z'));
+      expect(getCleanupCutoff(0, now)).toEqual(now);
+    });
+  });
+
+  describe('runCleanup', () => {
+    it('should delete expired and revoked tokens in batches until none remain', async () => {
+      tokenFindMany
+        .mockResolvedValueOnce([storedToken('a'), storedToken('b')])
+        .mockResolvedValueOnce([storedToken('c')])
+        .mockResolvedValueOnce([storedToken('d')]);
+      tokenDeleteMany.mockImplementation(({ where }) => Promise.resolve({ count: where.id.in.length }));
+
+      const result = await runCleanup({ retentionDays: 30, batchSize: 2, dryRun: false, tenantId: null }, audit, now);
+
+      expect(result).toEqual({
+        dryRun: false,
+        retentionDays: 30,
+        cutoff: new Date('2025-01-30T00:00:00.000Z'),
+        expiredTokens: 3,
+        revokedTokens: 1,
+        expiredRefreshTokens: 0,
+      });
+      expect(tokenFindMany.mock.calls[0][0]).toMatchObject({
+        where: { revokedAt: null, expiresAt: { lte: result!.cutoff } },
+        take: 2,
+      });
+      expect(tokenFindMany.mock.calls[2][0].where).toEqual({ revokedAt: { lte: result!.cutoff } });
+      expect(withAdvisoryLock).toHaveBeenCalledWith('maintenance:token-cleanup', expect.any(Function));
+    });
+
+    it('should record an event per deleted token', async () => {
+      tokenFindMany.mockResolvedValueOnce([]).mockResolvedValueOnce([storedToken('a')]);
+      tokenDeleteMany.mockResolvedValue({ count: 1 });
+
+      await runCleanup({ retentionDays: 30, batchSize: 10, dryRun: false, tenantId: null }, audit, now);
+
+      expect(createMany.mock.calls[0][0].data[0]).toMatchObject({
+        type: 'purge',
+        tokenId: 'a',
+        actor: 'admin',
+        details: { revokedAt: '2025-01-02T00:00:00.000Z' },
+      });
+    });
+
+    it('should delete expired refresh tokens', async () => {
+      refreshFindMany.mockResolvedValueOnce([{ id: 'r1' }]);
+      refreshDeleteMany.mockResolvedValue({ count: 1 });
+
+      const result = await runCleanup({ retentionDays: 0, batchSize: 10, dryRun: false, tenantId: null }, audit, now);
+
+      expect(refreshFindMany.mock.calls[0][0].where).toEqual({ expiresAt: { lte: now } });
+      expect(result?.expiredRefreshTokens).toBe(1);
+    });
+
+    it('should only clean up the given tenant', async () => {
+      await runCleanup({ retentionDays: 0, batchSize: 10, dryRun: false, tenantId: 'acme' }, audit, now);
+
+      expect(tokenFindMany.mock.calls[0][0].where).toEqual({ tenantId: 'acme', revokedAt: null, expiresAt: { lte: now } });
+      expect(tokenFindMany.mock.calls[1][0].where).toEqual({ tenantId: 'acme', revokedAt: { lte: now } });
+      expect(refreshFindMany.mock.calls[0][0].where).toEqual({ tenantId: 'acme', expiresAt: { lte: now } });
+    });
+
+    it('should only count rows in a dry run', async () => {
+      (prisma.token.count as jest.Mock).mockResolvedValueOnce(4).mockResolvedValueOnce(2);
+      (prisma.refreshToken.count as jest.Mock).mockResolvedValueOnce(7);
+
+      const result = await runCleanup({ retentionDays: 30, batchSize: 10, dryRun: true, tenantId: null }, audit, now);
+
+      expect(result).toMatchObject({ dryRun: true, expiredTokens: 4, revokedTokens: 2, expiredRefreshTokens: 7 });
+      expect(tokenDeleteMany).not.toHaveBeenCalled();
+      expect(refreshDeleteMany).not.toHaveBeenCalled();
+      expect(createMany).not.toHaveBeenCalled();
+    });
+
+    it('should skip the run when another instance holds the lock', async () => {
+      (withAdvisoryLock as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(runCleanup({ retentionDays: 30, batchSize: 10, dryRun: false, tenantId: null }, audit, now)).resolves.toBeNull();
+      expect(tokenDeleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('serializeCleanupResult', () => {
+    it('should convert the cutoff to an ISO string', () => {
+      expect(
+        serializeCleanupResult({
+          dryRun: true,
+          retentionDays: 30,
+          cutoff: new Date('2025-01-30T00:00:00.000Z'),
+          expiredTokens: 1,
+          revokedTokens: 0,
+          expiredRefreshTokens: 0,
+        }).cutoff
+      ).toBe('2025-01-30T00:00:00.000Z');
+    });
+  });
+});
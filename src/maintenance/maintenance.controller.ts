@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { authenticateRequest, getAuthTenantId } from '@/lib/auth';
+import { getAuditContext } from '@/audit/audit.service';
+import { runCleanupSchema } from '@/maintenance/maintenance.validation';
+import { getDefaultCleanupOptions, runCleanup, serializeCleanupResult } from '@/maintenance/maintenance.service';
+import type { CleanupResponse } from '@/maintenance/maintenance.type';
+import type { ErrorResponse } from '@/tokens/token.type';
+
+/**
+ * Controller for running token cleanup on demand
+ * Handles authentication, validation, and reporting the removed counts
+ */
+export async function runCleanupController(request: NextRequest) {
+  try {
+    // Authenticate request; maintenance is only available to the admin key
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    if (auth.type !== 'admin') {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Forbidden. Admin API key required.' },
+        { status: 403 }
+      );
+    }
+
+    // Parse and validate optional request body
+    const text = await request.text();
+    const validatedData = runCleanupSchema.parse(text ? JSON.parse(text) : {});
+
+    // On-demand runs only clean up the tenant named by X-Tenant-Id
+    const defaults = getDefaultCleanupOptions();
+    const result = await runCleanup(
+      {
+        retentionDays: validatedData.retentionDays ?? defaults.retentionDays,
+        batchSize: validatedData.batchSize ?? defaults.batchSize,
+        dryRun: validatedData.dryRun ?? false,
+        tenantId: getAuthTenantId(auth),
+      },
+      getAuditContext(request, auth)
+    );
+
+    if (!result) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Cleanup is already running on another instance' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json<CleanupResponse>(serializeCleanupResult(result), { status: 200 });
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          error: 'Validation failed',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error running cleanup:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
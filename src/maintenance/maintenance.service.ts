@@ -0,0 +1,85 @@
+import { prisma, withAdvisoryLock } from '@/lib/db';
+import { getConfig } from '@/lib/config';
+import { SYSTEM_AUDIT_CONTEXT } from '@/audit/audit.service';
+import {
+  deleteExpiredTokens,
+  deleteRevokedTokens,
+  getExpiredTokenFilter,
+  getRevokedTokenFilter,
+} from '@/tokens/token.service';
+import { deleteExpiredRefreshTokens, getExpiredRefreshTokenFilter } from '@/tokens/refresh-token.service';
+import type { AuditContext } from '@/audit/audit.type';
+import type { CleanupOptions, CleanupResponse, CleanupResult } from '@/maintenance/maintenance.type';
+
+/**
+ * Advisory lock held while cleaning up, so one replica cleans up at a time
+ */
+export const CLEANUP_LOCK_NAME = 'maintenance:token-cleanup';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cleanup settings from the environment
+ */
+export function getDefaultCleanupOptions(): CleanupOptions {
+  const { retentionDays, batchSize } = getConfig().cleanup;
+  return { retentionDays, batchSize, dryRun: false, tenantId: null };
+}
+
+/**
+ * Start of the retention window: rows that ended before it are removed
+ */
+export function getCleanupCutoff(retentionDays: number, now: Date = new Date()): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+/**
+ * Removes tokens that expired or were revoked before the retention window,
+ * and refresh tokens that expired before it, in one tenant or all of them
+ *
+ * Deletes run in batches, each in its own transaction. A dry run only counts
+ * the rows that would be removed.
+ *
+ * @param options - Retention window, batch size, dry-run flag and tenant
+ * @param audit - Who is cleaning up, the system for scheduled runs
+ * @param now - Current time
+ * @returns Counts per kind of row, or null when another instance is already cleaning up
+ */
+export async function runCleanup(
+  options: CleanupOptions = getDefaultCleanupOptions(),
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  now: Date = new Date()
+): Promise<CleanupResult | null> {
+  const cutoff = getCleanupCutoff(options.retentionDays, now);
+  const { tenantId } = options;
+  const base = { dryRun: options.dryRun, retentionDays: options.retentionDays, cutoff };
+
+  // Counting takes no locks, so dry runs do not wait for the leader
+  if (options.dryRun) {
+    const [expiredTokens, revokedTokens, expiredRefreshTokens] = await Promise.all([
+      prisma.token.count({ where: getExpiredTokenFilter(cutoff, tenantId) }),
+      prisma.token.count({ where: getRevokedTokenFilter(cutoff, tenantId) }),
+      prisma.refreshToken.count({ where: getExpiredRefreshTokenFilter(cutoff, tenantId) }),
+    ]);
+
+    return { ...base, expiredTokens, revokedTokens, expiredRefreshTokens };
+  }
+
+  return withAdvisoryLock(CLEANUP_LOCK_NAME, async () => {
+    const expiredTokens = await deleteExpiredTokens(cutoff, options.batchSize, audit, tenantId);
+    const revokedTokens = await deleteRevokedTokens(cutoff, options.batchSize, audit, tenantId);
+    const expiredRefreshTokens = await deleteExpiredRefreshTokens(cutoff, options.batchSize, tenantId);
+
+    return { ...base, expiredTokens, revokedTokens, expiredRefreshTokens };
+  });
+}
+
+/**
+ * Converts a CleanupResult to its JSON response format
+ */
+export function serializeCleanupResult(result: CleanupResult): CleanupResponse {
+  return {
+    ...result,
+    cutoff: result.cutoff.toISOString(),
+  };
+}
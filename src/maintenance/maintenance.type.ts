@@ -0,0 +1,34 @@
+/**
+ * Settings for a token cleanup run
+ * A null tenant cleans up every tenant, as scheduled runs do.
+ */
+export interface CleanupOptions {
+  retentionDays: number;
+  batchSize: number;
+  dryRun: boolean;
+  tenantId: string | null;
+}
+
+/**
+ * Rows removed by a cleanup run, or that would be removed in a dry run
+ */
+export interface CleanupResult {
+  dryRun: boolean;
+  retentionDays: number;
+  cutoff: Date;
+  expiredTokens: number;
+  revokedTokens: number;
+  expiredRefreshTokens: number;
+}
+
+/**
+ * Response format for a cleanup run
+ */
+export interface CleanupResponse {
+  dryRun: boolean;
+  retentionDays: number;
+  cutoff: string;
+  expiredTokens: number;
+  revokedTokens: number;
+  expiredRefreshTokens: number;
+}
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for triggering a cleanup run
+ *
+ * Rules (all optional, defaults come from the CLEANUP_* settings):
+ * - dryRun: report what would be removed without deleting anything
+ * - retentionDays: keep tokens expired or revoked within this many days, up to 10 years
+ * - batchSize: rows deleted per transaction, up to 10000
+ */
+export const runCleanupSchema = z.object({
+  dryRun: z.boolean().optional(),
+  retentionDays: z
+    .number()
+    .int('retentionDays must be an integer')
+    .min(0, 'retentionDays cannot be negative')
+    .max(3650, 'retentionDays cannot exceed 10 years (3650 days)')
+    .optional(),
+  batchSize: z
+    .number()
+    .int('batchSize must be an integer')
+    .positive('batchSize must be positive')
+    .max(10000, 'batchSize cannot exceed 10000')
+    .optional(),
+});
+
+export type RunCleanupInput = z.infer<typeof runCleanupSchema>;
@@ -0,0 +1,158 @@
+import { NextRequest } from 'next/server';
+import { oauthTokenController } from '../oauth.controller';
+import { prisma } from '@/lib/db';
+import { getPolicies } from '@/policies/policy.service';
+import { getTokenPrefix, hashToken } from '@/tokens/token.service';
+import { ACCESS_TOKEN_TYPE, TOKEN_EXCHANGE_GRANT_TYPE } from '@/oauth/oauth.type';
+import type { Client } from '@/clients/client.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    client: {
+      findUnique: jest.fn(),
+    },
+    tenant: {
+      findUnique: jest.fn(),
+    },
+    scope: {
+      findMany: jest.fn().mockResolvedValue([
+        { name: 'repo:write', parentName: null },
+        { name: 'repo:read', parentName: 'repo:write' },
+        { name: 'billing:read', parentName: null },
+      ]),
+    },
+    token: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    tokenEvent: {
+      createMany: jest.fn(),
+    },
+    webhookSubscription: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  },
+  inTransaction: jest.fn((db, callback) => callback(db)),
+}));
+
+jest.mock('@/keys/key.service', () => ({
+  signWithActiveKey: jest.fn(),
+}));
+
+jest.mock('@/rate-limit/rate-limit.service', () => ({
+  checkRateLimit: jest.fn().mockResolvedValue({ allowed: true }),
+  rateLimitHeaders: jest.fn(() => ({})),
+}));
+
+jest.mock('@/policies/policy.service', () => ({
+  ...jest.requireActual('@/policies/policy.service'),
+  getPolicies: jest.fn(),
+}));
+
+const apiKey = 'apikey_test';
+
+const client: Client = {
+  id: 'client_1',
+  name: 'billing-service',
+  apiKeyHash: hashToken(apiKey),
+  apiKeyPrefix: getTokenPrefix(apiKey),
+  allowedScopes: ['repo:write'],
+  maxTokenLifetimeMinutes: null,
+  enabled: true,
+  createdAt: new Date('2025-01-01T10:00:00Z'),
+  updatedAt: new Date('2025-01-01T10:00:00Z'),
+  keyRotatedAt: null,
+  tenantId: 'default',
+};
+
+function tokenRequest(params: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost:3000/api/oauth/token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization: `Basic ${Buffer.from(`client_1:${apiKey}`).toString('base64')}`,
+    },
+    body: new URLSearchParams(params).toString(),
+  });
+}
+
+describe('OAuth Controller', () => {
+  const findTenant = prisma.tenant.findUnique as jest.Mock;
+  const create = prisma.token.create as jest.Mock;
+  const mockGetPolicies = getPolicies as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.client.findUnique as jest.Mock).mockResolvedValue(client);
+    findTenant.mockImplementation(({ where }) =>
+      Promise.resolve({ id: where.id, allowedScopes: [], maxTokenLifetimeMinutes: null })
+    );
+    create.mockImplementation(({ data }) => Promise.resolve({ id: 'token_id', ...data }));
+    mockGetPolicies.mockResolvedValue([
+      { name: 'repo-needs-billing', type: 'scope_requires', scope: 'repo:read', requiredScopes: ['billing:read'] },
+    ]);
+  });
+
+  it('should issue client credentials tokens that meet every policy', async () => {
+    mockGetPolicies.mockResolvedValue([]);
+
+    const response = await oauthTokenController(tokenRequest({ grant_type: 'client_credentials', scope: 'repo:read' }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Cache-Control')).toBe('no-store');
+    await expect(response.json()).resolves.toMatchObject({ token_type: 'Bearer', scope: 'repo:read' });
+  });
+
+  it('should report a missing required scope as invalid_scope', async () => {
+    const response = await oauthTokenController(tokenRequest({ grant_type: 'client_credentials', scope: 'repo:read' }));
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({
+      error: 'invalid_scope',
+      error_description: expect.stringContaining('"billing:read"'),
+    });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('should report a missing tenant as invalid_request', async () => {
+    findTenant.mockResolvedValue(null);
+
+    const response = await oauthTokenController(tokenRequest({ grant_type: 'client_credentials' }));
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({ error: 'invalid_request', error_description: 'Tenant not found' });
+  });
+
+  it('should report policy violations and missing tenants of token exchanges the same way', async () => {
+    (prisma.token.findUnique as jest.Mock).mockResolvedValue({
+      id: 'parent_id',
+      tokenHash: hashToken('token_parent'),
+      userId: 'user123',
+      scopes: ['repo:write'],
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      tenantId: 'default',
+      cnfJkt: null,
+      cnfX5tS256: null,
+    });
+    const exchange = () =>
+      oauthTokenController(
+        tokenRequest({
+          grant_type: TOKEN_EXCHANGE_GRANT_TYPE,
+          subject_token: 'token_parent',
+          subject_token_type: ACCESS_TOKEN_TYPE,
+          scope: 'repo:read',
+        })
+      );
+
+    const violation = await exchange();
+    expect(violation.status).toBe(400);
+    await expect(violation.json()).resolves.toMatchObject({ error: 'invalid_scope' });
+
+    findTenant.mockResolvedValue(null);
+    const missingTenant = await exchange();
+    expect(missingTenant.status).toBe(400);
+    await expect(missingTenant.json()).resolves.toMatchObject({ error: 'invalid_request' });
+  });
+});
@@ -0,0 +1,300 @@
+import {
+  authenticateOAuthClient,
+  DEFAULT_OAUTH_TOKEN_LIFETIME_MINUTES,
+  exchangeOAuthToken,
+  issueClientCredentialsToken,
+  parseBasicCredentials,
+  parseScopeParameter,
+} from '../oauth.service';
+import { prisma } from '@/lib/db';
+import { OAuthError } from '@/lib/errors';
+import { SYSTEM_AUDIT_CONTEXT } from '@/audit/audit.service';
+import { getTokenPrefix, hashToken } from '@/tokens/token.service';
+import { ACCESS_TOKEN_TYPE } from '@/oauth/oauth.type';
+import type { Client } from '@/clients/client.type';
+import type { TokenExchangeParams } from '@/oauth/oauth.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    client: {
+      findUnique: jest.fn(),
+    },
+    tenant: {
+      findUnique: jest.fn(),
+    },
+    scope: {
+      findMany: jest.fn().mockResolvedValue([
+        { name: 'repo:write', parentName: null },
+        { name: 'repo:read', parentName: 'repo:write' },
+        { name: 'billing:read', parentName: null },
+      ]),
+    },
+    token: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    tokenEvent: {
+      createMany: jest.fn(),
+    },
+    webhookSubscription: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  },
+  inTransaction: jest.fn((db, callback) => callback(db)),
+}));
+
+jest.mock('@/keys/key.service', () => ({
+  signWithActiveKey: jest.fn(),
+}));
+
+// Run without a policy file
+jest.mock('@/policies/policy.service', () => ({
+  ...jest.requireActual('@/policies/policy.service'),
+  getPolicies: jest.fn().mockResolvedValue([]),
+}));
+
+const apiKey = 'apikey_test';
+
+function storedClient(overrides: Partial<Client> = {}): Client {
+  return {
+    id: 'client_1',
+    name: 'billing-service',
+    apiKeyHash: hashToken(apiKey),
+    apiKeyPrefix: getTokenPrefix(apiKey),
+    allowedScopes: ['repo:write'],
+    maxTokenLifetimeMinutes: null,
+    enabled: true,
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+    updatedAt: new Date('2025-01-01T10:00:00Z'),
+    keyRotatedAt: null,
+    tenantId: 'default',
+    ...overrides,
+  };
+}
+
+const basic = (value: string) => `Basic ${Buffer.from(value).toString('base64')}`;
+
+describe('OAuth Service', () => {
+  const findUnique = prisma.client.findUnique as jest.Mock;
+  const create = prisma.token.create as jest.Mock;
+  const findTenant = prisma.tenant.findUnique as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    create.mockImplementation(({ data }) => Promise.resolve({ id: 'token_id', ...data }));
+    findTenant.mockImplementation(({ where }) =>
+      Promise.resolve({ id: where.id, allowedScopes: [], maxTokenLifetimeMinutes: null })
+    );
+  });
+
+  describe('parseBasicCredentials', () => {
+    it('should decode form-encoded client credentials', () => {
+      expect(parseBasicCredentials(basic('client%201:s%3Acret+x'))).toEqual({
+        clientId: 'client 1',
+        clientSecret: 's:cret x',
+      });
+    });
+
+    it('should ignore other authorization schemes', () => {
+      expect(parseBasicCredentials(null)).toBeNull();
+      expect(parseBasicCredentials('Bearer abc')).toBeNull();
+    });
+
+    it('should reject malformed credentials as invalid_client', () => {
+      expect(() => parseBasicCredentials(basic('no-separator'))).toThrow(OAuthError);
+      expect(() => parseBasicCredentials(basic('client:%E0%A4%A'))).toThrow(
+        expect.objectContaining({ status: 401, code: 'invalid_client' })
+      );
+    });
+  });
+
+  describe('parseScopeParameter', () => {
+    it('should split on spaces and drop duplicates', () => {
+      expect(parseScopeParameter('repo:read  billing:read repo:read')).toEqual(['repo:read', 'billing:read']);
+      expect(parseScopeParameter(' ')).toEqual([]);
+    });
+  });
+
+  describe('authenticateOAuthClient', () => {
+    it('should return the client owning the secret', async () => {
+      findUnique.mockResolvedValue(storedClient());
+
+      await expect(authenticateOAuthClient({ clientId: 'client_1', clientSecret: apiKey })).resolves.toMatchObject({
+        id: 'client_1',
+      });
+    });
+
+    it('should reject secrets of another client and unknown secrets', async () => {
+      findUnique.mockResolvedValue(storedClient());
+      await expect(authenticateOAuthClient({ clientId: 'client_2', clientSecret: apiKey })).rejects.toMatchObject({
+        code: 'invalid_client',
+      });
+
+      findUnique.mockResolvedValue(null);
+      await expect(authenticateOAuthClient({ clientId: 'client_1', clientSecret: 'wrong' })).rejects.toMatchObject({
+        status: 401,
+        code: 'invalid_client',
+      });
+    });
+
+    it('should reject disabled clients', async () => {
+      findUnique.mockResolvedValue(storedClient({ enabled: false }));
+
+      await expect(authenticateOAuthClient({ clientId: 'client_1', clientSecret: apiKey })).rejects.toMatchObject({
+        code: 'invalid_client',
+      });
+    });
+  });
+
+  describe('issueClientCredentialsToken', () => {
+    it('should issue a token for the client in the RFC 6749 format', async () => {
+      const response = await issueClientCredentialsToken(storedClient(), ['repo:read'], SYSTEM_AUDIT_CONTEXT);
+
+      expect(response).toEqual({
+        access_token: expect.stringMatching(/^token_/),
+        token_type: 'Bearer',
+        expires_in: DEFAULT_OAUTH_TOKEN_LIFETIME_MINUTES * 60,
+        scope: 'repo:read',
+      });
+      expect(create.mock.calls[0][0].data).toMatchObject({ userId: 'client_1', clientId: 'client_1', tenantId: 'default' });
+    });
+
+    it('should issue the token in the client tenant within its lifetime cap', async () => {
+      findTenant.mockResolvedValue({ id: 'acme', allowedScopes: [], maxTokenLifetimeMinutes: 10 });
+
+      const response = await issueClientCredentialsToken(storedClient({ tenantId: 'acme' }), null, SYSTEM_AUDIT_CONTEXT);
+
+      expect(response.expires_in).toBe(10 * 60);
+      expect(create.mock.calls[0][0].data.tenantId).toBe('acme');
+    });
+
+    it('should default to the client scopes and cap the lifetime', async () => {
+      const response = await issueClientCredentialsToken(
+        storedClient({ maxTokenLifetimeMinutes: 15 }),
+        null,
+        SYSTEM_AUDIT_CONTEXT
+      );
+
+      expect(response).toMatchObject({ expires_in: 15 * 60, scope: 'repo:write' });
+    });
+
+    it('should report scopes beyond the allowlist and unknown scopes as invalid_scope', async () => {
+      await expect(
+        issueClientCredentialsToken(storedClient(), ['billing:read'], SYSTEM_AUDIT_CONTEXT)
+      ).rejects.toMatchObject({ status: 400, code: 'invalid_scope' });
+
+      await expect(
+        issueClientCredentialsToken(storedClient({ allowedScopes: ['*'] }), ['unknown'], SYSTEM_AUDIT_CONTEXT)
+      ).rejects.toMatchObject({ status: 400, code: 'invalid_scope' });
+
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse clients without any scope to grant', async () => {
+      await expect(
+        issueClientCredentialsToken(storedClient({ allowedScopes: [] }), null, SYSTEM_AUDIT_CONTEXT)
+      ).rejects.toMatchObject({ code: 'invalid_scope' });
+    });
+  });
+
+  describe('exchangeOAuthToken', () => {
+    const findToken = prisma.token.findUnique as jest.Mock;
+    const params = (overrides: Partial<TokenExchangeParams> = {}): TokenExchangeParams => ({
+      subjectToken: 'token_parent',
+      subjectTokenType: ACCESS_TOKEN_TYPE,
+      requestedTokenType: null,
+      scopes: ['repo:read'],
+      expiresIn: 300,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      findToken.mockResolvedValue({
+        id: 'parent_id',
+        tokenHash: hashToken('token_parent'),
+        userId: 'user123',
+        scopes: ['repo:write'],
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        revokedAt: null,
+        tenantId: 'default',
+      });
+    });
+
+    it('should issue a downscoped child token with the issued token type', async () => {
+      const response = await exchangeOAuthToken(storedClient(), params(), SYSTEM_AUDIT_CONTEXT);
+
+      expect(response).toEqual({
+        access_token: expect.stringMatching(/^token_/),
+        issued_token_type: ACCESS_TOKEN_TYPE,
+        token_type: 'Bearer',
+        expires_in: 300,
+        scope: 'repo:read',
+      });
+      expect(create.mock.calls[0][0].data).toMatchObject({
+        userId: 'user123',
+        parentId: 'parent_id',
+        clientId: 'client_1',
+        tenantId: 'default',
+      });
+    });
+
+    it('should treat subject tokens of another tenant as invalid grants', async () => {
+      await expect(
+        exchangeOAuthToken(storedClient({ tenantId: 'acme' }), params(), SYSTEM_AUDIT_CONTEXT)
+      ).rejects.toMatchObject({ status: 400, code: 'invalid_grant' });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should map invalid subject tokens to invalid_grant and wider scopes to invalid_scope', async () => {
+      await expect(
+        exchangeOAuthToken(storedClient(), params({ scopes: ['billing:read'] }), SYSTEM_AUDIT_CONTEXT)
+      ).rejects.toMatchObject({ status: 400, code: 'invalid_scope' });
+
+      findToken.mockResolvedValue(null);
+      await expect(exchangeOAuthToken(storedClient(), params(), SYSTEM_AUDIT_CONTEXT)).rejects.toMatchObject({
+        status: 400,
+        code: 'invalid_grant',
+      });
+    });
+
+    it('should map unknown scopes to invalid_scope', async () => {
+      findToken.mockResolvedValue({ ...(await findToken()), scopes: ['repo:*'] });
+
+      await expect(
+        exchangeOAuthToken(storedClient({ allowedScopes: ['repo:*'] }), params({ scopes: ['repo:delete'] }), SYSTEM_AUDIT_CONTEXT)
+      ).rejects.toMatchObject({ status: 400, code: 'invalid_scope', message: 'Unknown scopes' });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should keep the child within the client scope allowlist and maximum lifetime', async () => {
+      await expect(
+        exchangeOAuthToken(storedClient({ allowedScopes: ['billing:read'] }), params(), SYSTEM_AUDIT_CONTEXT)
+      ).rejects.toMatchObject({ status: 400, code: 'invalid_scope' });
+
+      await expect(
+        exchangeOAuthToken(storedClient({ maxTokenLifetimeMinutes: 2 }), params({ expiresIn: 300 }), SYSTEM_AUDIT_CONTEXT)
+      ).rejects.toMatchObject({ status: 400, code: 'invalid_scope' });
+      expect(create).not.toHaveBeenCalled();
+
+      // Without a requested lifetime the client's maximum applies
+      const response = await exchangeOAuthToken(
+        storedClient({ maxTokenLifetimeMinutes: 2 }),
+        params({ expiresIn: null }),
+        SYSTEM_AUDIT_CONTEXT
+      );
+      expect(response.expires_in).toBe(120);
+    });
+
+it('should reject unsupported token types', async () => {
+      await expect(
+        exchangeOAuthToken(storedClient(), params({ subjectTokenType: 'urn:ietf:params:oauth:token-type:saml2' }), SYSTEM_AUDIT_CONTEXT)
+      ).rejects.toMatchObject({ code: 'invalid_request' });
+
+      await expect(
+        exchangeOAuthToken(storedClient(), params({ requestedTokenType: 'urn:ietf:params:oauth:token-type:id_token' }), SYSTEM_AUDIT_CONTEXT)
+      ).rejects.toMatchObject({ code: 'invalid_request' });
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { getAuditContext } from '@/audit/audit.service';
+import { checkRateLimit, rateLimitHeaders } from '@/rate-limit/rate-limit.service';
+import { OAuthError } from '@/lib/errors';
+import { tokenRequestSchema } from '@/oauth/oauth.validation';
+import {
+  authenticateOAuthClient,
+  exchangeOAuthToken,
+  issueClientCredentialsToken,
+  parseBasicCredentials,
+  parseScopeParameter,
+} from '@/oauth/oauth.service';
+import { CLIENT_CREDENTIALS_GRANT_TYPE, TOKEN_EXCHANGE_GRANT_TYPE } from '@/oauth/oauth.type';
+import type { OAuthClientCredentials, OAuthErrorResponse, OAuthTokenResponse } from '@/oauth/oauth.type';
+
+/**
+ * Token responses must not be cached (RFC 6749, section 5.1)
+ */
+const NO_STORE_HEADERS = {
+  'Cache-Control': 'no-store',
+  Pragma: 'no-cache',
+};
+
+/**
+ * Reads a form-encoded body; every parameter may appear at most once
+ *
+ * @throws OAuthError (invalid_request) for other content types and repeated parameters
+ */
+async function readFormBody(request: NextRequest): Promise<Record<string, string>> {
+  const contentType = request.headers.get('Content-Type') ?? '';
+
+  if (!contentType.toLowerCase().startsWith('application/x-www-form-urlencoded')) {
+    throw new OAuthError(400, 'invalid_request', 'Content-Type must be application/x-www-form-urlencoded');
+  }
+
+  const params = new URLSearchParams(await request.text());
+  const body: Record<string, string> = {};
+
+  for (const [name, value] of params) {
+    if (name in body) {
+      throw new OAuthError(400, 'invalid_request', `Parameter ${name} must not be repeated`);
+    }
+    body[name] = value;
+  }
+
+  return body;
+}
+
+/**
+ * Controller for the OAuth 2.0 token endpoint
+ * Supports the client_credentials and token exchange grants; clients
+ * authenticate with their id and API key via HTTP Basic auth or the
+ * client_id/client_secret parameters
+ */
+export async function oauthTokenController(request: NextRequest) {
+  try {
+    const body = tokenRequestSchema.parse(await readFormBody(request));
+
+    if (body.grant_type !== CLIENT_CREDENTIALS_GRANT_TYPE && body.grant_type !== TOKEN_EXCHANGE_GRANT_TYPE) {
+      throw new OAuthError(400, 'unsupported_grant_type', `Grant type ${body.grant_type} is not supported`);
+    }
+
+    // Clients must use exactly one authentication method
+    const basicCredentials = parseBasicCredentials(request.headers.get('Authorization'));
+    const hasBodyCredentials = body.client_id !== undefined || body.client_secret !== undefined;
+
+    if (basicCredentials && hasBodyCredentials) {
+      throw new OAuthError(400, 'invalid_request', 'Client credentials must be sent either via Basic auth or in the body');
+    }
+
+    let credentials: OAuthClientCredentials | null = basicCredentials;
+    if (!credentials && body.client_id !== undefined && body.client_secret !== undefined) {
+      credentials = { clientId: body.client_id, clientSecret: body.client_secret };
+    }
+
+    if (!credentials) {
+      throw new OAuthError(401, 'invalid_client', 'Client authentication required');
+    }
+
+    const client = await authenticateOAuthClient(credentials);
+    const auth = { type: 'client' as const, client };
+
+    // The client is both the caller and the subject of the token
+    const rateLimit = await checkRateLimit(auth, client.id);
+    if (!rateLimit.allowed) {
+      return NextResponse.json<OAuthErrorResponse>(
+        { error: 'temporarily_unavailable', error_description: 'Too many requests' },
+        { status: 429, headers: { ...rateLimitHeaders(rateLimit), ...NO_STORE_HEADERS } }
+      );
+    }
+
+    const scopes = body.scope !== undefined ? parseScopeParameter(body.scope) : null;
+    if (scopes !== null && scopes.length === 0) {
+      throw new OAuthError(400, 'invalid_scope', 'scope must list at least one scope');
+    }
+
+    const audit = getAuditContext(request, auth);
+    let response: OAuthTokenResponse;
+
+    if (body.grant_type === TOKEN_EXCHANGE_GRANT_TYPE) {
+      if (body.subject_token === undefined || body.subject_token_type === undefined) {
+        throw new OAuthError(400, 'invalid_request', 'subject_token and subject_token_type are required');
+      }
+
+      response = await exchangeOAuthToken(
+        client,
+        {
+          subjectToken: body.subject_token,
+          subjectTokenType: body.subject_token_type,
+          requestedTokenType: body.requested_token_type ?? null,
+          scopes,
+          expiresIn: body.expires_in ?? null,
+        },
+        audit
+      );
+    } else {
+      response = await issueClientCredentialsToken(client, scopes, audit);
+    }
+
+    return NextResponse.json<OAuthTokenResponse>(response, {
+      headers: { ...rateLimitHeaders(rateLimit), ...NO_STORE_HEADERS },
+    });
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<OAuthErrorResponse>(
+        { error: 'invalid_request', error_description: error.issues[0].message },
+        { status: 400, headers: NO_STORE_HEADERS }
+      );
+    }
+
+    // Handle OAuth errors; failed client authentication asks for Basic credentials
+    if (error instanceof OAuthError) {
+      return NextResponse.json<OAuthErrorResponse>(
+        { error: error.code, error_description: error.message },
+        {
+          status: error.status,
+          headers: error.status === 401
+            ? { ...NO_STORE_HEADERS, 'WWW-Authenticate': 'Basic realm="oauth"' }
+            : NO_STORE_HEADERS,
+        }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error issuing OAuth token:', error);
+    return NextResponse.json<OAuthErrorResponse>(
+      { error: 'server_error', error_description: 'Internal server error' },
+      { status: 500, headers: NO_STORE_HEADERS }
+    );
+  }
+}
@@ -0,0 +1,202 @@
+import { assertClientMayIssue, findClientByApiKey } from '@/clients/client.service';
+import { createToken, exchangeToken } from '@/tokens/token.service';
+import { requireTenant } from '@/tenants/tenant.service';
+import { resolveKnownScopes } from '@/scopes/scope.service';
+import { ApiError, OAuthError } from '@/lib/errors';
+import { ACCESS_TOKEN_TYPE, JWT_TOKEN_TYPE } from '@/oauth/oauth.type';
+import type { AuditContext } from '@/audit/audit.type';
+import type { Client } from '@/clients/client.type';
+import type { Token } from '@/tokens/token.type';
+import type { OAuthClientCredentials, OAuthTokenResponse, TokenExchangeParams } from '@/oauth/oauth.type';
+
+/**
+ * Lifetime of client credentials tokens, shortened to the client's and its tenant's maximum
+ */
+export const DEFAULT_OAUTH_TOKEN_LIFETIME_MINUTES = 60;
+
+/**
+ * Converts an issued token to the RFC 6749 response format
+ */
+function toOAuthTokenResponse(token: Token, plaintext: string): OAuthTokenResponse {
+  return {
+    access_token: plaintext,
+    token_type: 'Bearer',
+    expires_in: Math.round((token.expiresAt.getTime() - token.createdAt.getTime()) / 1000),
+    scope: token.scopes.join(' '),
+  };
+}
+
+/**
+ * Decodes one form-urlencoded component of Basic credentials (RFC 6749, section 2.3.1)
+ */
+function decodeFormComponent(value: string): string {
+  return decodeURIComponent(value.replace(/\+/g, ' '));
+}
+
+/**
+ * Reads client credentials from an Authorization header
+ *
+ * @returns The credentials, or null when the header does not use the Basic scheme
+ * @throws OAuthError (invalid_client) for malformed Basic credentials
+ */
+export function parseBasicCredentials(authorization: string | null): OAuthClientCredentials | null {
+  const match = authorization?.match(/^Basic\s+(\S+)$/i);
+
+  if (!match) {
+    return null;
+  }
+
+  const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+
+  try {
+    if (separator > 0) {
+      return {
+        clientId: decodeFormComponent(decoded.slice(0, separator)),
+        clientSecret: decodeFormComponent(decoded.slice(separator + 1)),
+      };
+    }
+  } catch {
+    // Invalid percent-encoding, reported below
+  }
+
+  throw new OAuthError(401, 'invalid_client', 'Malformed Basic credentials');
+}
+
+/**
+ * Splits a space-delimited scope parameter (RFC 6749, section 3.3)
+ */
+export function parseScopeParameter(scope: string): string[] {
+  return [...new Set(scope.split(' ').filter(Boolean))];
+}
+
+/**
+ * Authenticates a client by its id and API key (the client secret)
+ *
+ * @throws OAuthError (invalid_client) for unknown or disabled clients and wrong secrets
+ */
+export async function authenticateOAuthClient(credentials: OAuthClientCredentials): Promise<Client> {
+  const client = await findClientByApiKey(credentials.clientSecret);
+
+  if (!client || client.id !== credentials.clientId) {
+    throw new OAuthError(401, 'invalid_client', 'Client authentication failed');
+  }
+
+  return client;
+}
+
+/**
+ * Issues an access token to a client acting on its own behalf
+ * The token's userId is the client id and it belongs to the client's tenant.
+ * Without requested scopes the token gets every scope the client may grant.
+ *
+ * @param client - The authenticated client
+ * @param scopes - Requested scopes, or null to use the client's allowed scopes
+ * @param audit - Audit context of the request
+ * @throws OAuthError (invalid_scope) for unknown scopes, scopes beyond the client's or tenant's allowlist and policy violations
+ * @throws OAuthError (invalid_request) when the client's tenant no longer exists
+ */
+export async function issueClientCredentialsToken(
+  client: Client,
+  scopes: string[] | null,
+  audit: AuditContext
+): Promise<OAuthTokenResponse> {
+  const grantedScopes = scopes ?? client.allowedScopes;
+
+  if (grantedScopes.length === 0) {
+    throw new OAuthError(400, 'invalid_scope', 'No scope requested and the client has no allowed scopes');
+  }
+
+  try {
+    const tenant = await requireTenant(client.tenantId);
+    const expiresInMinutes = Math.min(
+      DEFAULT_OAUTH_TOKEN_LIFETIME_MINUTES,
+      client.maxTokenLifetimeMinutes ?? DEFAULT_OAUTH_TOKEN_LIFETIME_MINUTES,
+      tenant.maxTokenLifetimeMinutes ?? DEFAULT_OAUTH_TOKEN_LIFETIME_MINUTES
+    );
+
+    await assertClientMayIssue(client, grantedScopes, [expiresInMinutes]);
+
+    const { token, plaintext } = await createToken(client.id, grantedScopes, expiresInMinutes, {
+      clientId: client.id,
+      tenantId: client.tenantId,
+      audit,
+    });
+
+    return toOAuthTokenResponse(token, plaintext);
+  } catch (error) {
+    // Unknown scopes (400), scopes outside the client's or tenant's allowlist or
+    // policy limits (403) and scopes missing what a policy requires (422)
+    if (error instanceof ApiError && (error.status === 400 || error.status === 403 || error.status === 422)) {
+      throw new OAuthError(400, 'invalid_scope', error.message);
+    }
+    if (error instanceof ApiError && error.status === 404) {
+      throw new OAuthError(400, 'invalid_request', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Exchanges a subject token for a downscoped child token (RFC 8693)
+ * The child is recorded as issued by the authenticated client and must stay
+ * within its scope allowlist and maximum lifetime; without a requested
+ * lifetime it expires with the subject token or after the client's maximum.
+ *
+ * @param client - The authenticated client
+ * @param params - Subject token, requested scopes and lifetime
+ * @param audit - Audit context of the request
+ * @throws OAuthError (invalid_request) for unsupported token types
+ * @throws OAuthError (invalid_grant) when the subject token is unknown, expired or revoked
+ * @throws OAuthError (invalid_scope) for unknown scopes, scopes beyond the subject token's or the
+ *   client's grant, lifetimes beyond the client's maximum and policy violations
+ * @throws OAuthError (invalid_request) when the client's tenant no longer exists
+ */
+export async function exchangeOAuthToken(
+  client: Client,
+  params: TokenExchangeParams,
+  audit: AuditContext
+): Promise<OAuthTokenResponse> {
+  if (params.subjectTokenType !== ACCESS_TOKEN_TYPE && params.subjectTokenType !== JWT_TOKEN_TYPE) {
+    throw new OAuthError(400, 'invalid_request', `Unsupported subject_token_type ${params.subjectTokenType}`);
+  }
+
+  if (params.requestedTokenType !== null && params.requestedTokenType !== ACCESS_TOKEN_TYPE) {
+    throw new OAuthError(400, 'invalid_request', `Unsupported requested_token_type ${params.requestedTokenType}`);
+  }
+
+  const expiresInMinutes = params.expiresIn !== null ? Math.ceil(params.expiresIn / 60) : client.maxTokenLifetimeMinutes;
+
+  // Checked first: the exchange reports every other 400 for the subject token
+  if (params.scopes !== null) {
+    try {
+      await resolveKnownScopes(params.scopes);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 400) {
+        throw new OAuthError(400, 'invalid_scope', error.message);
+      }
+      throw error;
+    }
+  }
+
+  try {
+    const { token, plaintext } = await exchangeToken(params.subjectToken, client.tenantId, params.scopes, expiresInMinutes, {
+      clientId: client.id,
+      audit,
+      assertMayIssue: (scopes, minutes) => assertClientMayIssue(client, scopes, [minutes]),
+    });
+
+    return { ...toOAuthTokenResponse(token, plaintext), issued_token_type: ACCESS_TOKEN_TYPE };
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 400) {
+      throw new OAuthError(400, 'invalid_grant', error.message);
+    }
+    if (error instanceof ApiError && (error.status === 403 || error.status === 422)) {
+      throw new OAuthError(400, 'invalid_scope', error.message);
+    }
+    if (error instanceof ApiError && error.status === 404) {
+      throw new OAuthError(400, 'invalid_request', error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Error codes of the token endpoint (RFC 6749, section 5.2), plus
+ * server_error and temporarily_unavailable (section 4.1.2.1) for unexpected
+ * failures and rate-limited requests
+ */
+export type OAuthErrorCode =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'unauthorized_client'
+  | 'unsupported_grant_type'
+  | 'invalid_scope'
+  | 'server_error'
+  | 'temporarily_unavailable';
+
+/**
+ * Grant types supported by the token endpoint
+ */
+export const CLIENT_CREDENTIALS_GRANT_TYPE = 'client_credentials';
+export const TOKEN_EXCHANGE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:token-exchange';
+
+/**
+ * Token type identifiers (RFC 8693, section 3); tokens of both types are
+ * access tokens of this service
+ */
+export const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+export const JWT_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:jwt';
+
+/**
+ * Client credentials presented via Basic auth or the request body
+ */
+export interface OAuthClientCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Parameters of a token exchange request (RFC 8693, section 2.1)
+ * `expiresIn` (seconds) is an extension; the child never outlives the subject token
+ */
+export interface TokenExchangeParams {
+  subjectToken: string;
+  subjectTokenType: string;
+  requestedTokenType: string | null;
+  scopes: string[] | null;
+  expiresIn: number | null;
+}
+
+/**
+ * Successful token response (RFC 6749, section 5.1)
+ * Token exchange responses also name the issued token type (RFC 8693, section 2.2.1)
+ */
+export interface OAuthTokenResponse {
+  access_token: string;
+  issued_token_type?: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+}
+
+/**
+ * Error response (RFC 6749, section 5.2)
+ */
+export interface OAuthErrorResponse {
+  error: OAuthErrorCode;
+  error_description?: string;
+}
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+/**
+ * Validation schema for token endpoint requests (form fields)
+ *
+ * Rules:
+ * - grant_type: required; "client_credentials" or token exchange
+ * - scope: optional, space-delimited scope names
+ * - client_id, client_secret: optional, when not sent via Basic auth
+ * - subject_token, subject_token_type, requested_token_type: token exchange
+ *   parameters, checked by the grant
+ * - expires_in: optional child lifetime in seconds for token exchange
+ */
+export const tokenRequestSchema = z.object({
+  grant_type: z.string({ error: 'grant_type is required' }).min(1, 'grant_type is required'),
+  scope: z.string().optional(),
+  client_id: z.string().min(1, 'client_id must not be empty').optional(),
+  client_secret: z.string().min(1, 'client_secret must not be empty').optional(),
+  subject_token: z.string().min(1, 'subject_token must not be empty').optional(),
+  subject_token_type: z.string().min(1, 'subject_token_type must not be empty').optional(),
+  requested_token_type: z.string().min(1, 'requested_token_type must not be empty').optional(),
+  expires_in: z.coerce
+    .number()
+    .int('expires_in must be an integer')
+    .positive('expires_in must be positive')
+    .optional(),
+});
+
+export type TokenRequestInput = z.infer<typeof tokenRequestSchema>;
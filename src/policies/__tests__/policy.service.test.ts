@@ -0,0 +1,260 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  assertPoliciesAllow,
+  findPolicyViolation,
+  getPolicies,
+  getPolicyFileFormat,
+  loadPolicyFile,
+  parsePolicies,
+  policyApplies,
+} from '../policy.service';
+import { prisma } from '@/lib/db';
+import { ConfigError } from '@/lib/config';
+import type { Policy, PolicyContext } from '@/policies/policy.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    token: {
+      count: jest.fn(),
+    },
+    scope: {
+      findMany: jest.fn().mockResolvedValue([
+        { name: 'admin', parentName: null },
+        { name: 'write', parentName: 'admin' },
+        { name: 'read', parentName: 'write' },
+        { name: 'repo:write', parentName: null },
+        { name: 'repo:read', parentName: null },
+      ]),
+    },
+  },
+}));
+
+let mockPolicyFile: string | null = null;
+
+jest.mock('@/lib/config', () => ({
+  ...jest.requireActual('@/lib/config'),
+  getConfig: () => ({ policies: { file: mockPolicyFile } }),
+}));
+
+const adminShortLived: Policy = { name: 'admin-short-lived', type: 'max_lifetime', scope: 'admin', maxLifetimeMinutes: 60 };
+const tokenCap: Policy = { name: 'acme-token-cap', type: 'max_active_tokens', tenantId: 'acme', maxActiveTokens: 20 };
+const writeRequiresRead: Policy = {
+  name: 'repo-write-requires-read',
+  type: 'scope_requires',
+  scope: 'repo:write',
+  requiredScopes: ['repo:read'],
+};
+
+const context = (overrides: Partial<PolicyContext> = {}): PolicyContext => ({
+  tenantId: 'acme',
+  clientId: null,
+  userId: 'user123',
+  scopes: ['read'],
+  effectiveScopes: ['read'],
+  expiresInMinutes: 60,
+  activeTokenCount: 0,
+  ...overrides,
+});
+
+describe('Policy Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('parsePolicies', () => {
+    it('should read JSON and YAML documents alike', () => {
+      const json = JSON.stringify({ policies: [adminShortLived, tokenCap] });
+      const yaml = `
+policies:
+  - name: admin-short-lived
+    type: max_lifetime
+    scope: admin
+    maxLifetimeMinutes: 60
+  - name: acme-token-cap
+    type: max_active_tokens
+    tenantId: acme
+    maxActiveTokens: 20
+`;
+
+      expect(parsePolicies(json, 'json')).toEqual([adminShortLived, tokenCap]);
+      expect(parsePolicies(yaml, 'yaml')).toEqual([adminShortLived, tokenCap]);
+    });
+
+    it('should report every invalid field with its path', () => {
+      const document = {
+        policies: [
+          { name: 'cap', type: 'max_active_tokens', maxActiveTokens: 0 },
+          { name: 'typo', type: 'max_lifetime', maxLifetimeMinute: 60 },
+        ],
+      };
+
+      expect(() => parsePolicies(JSON.stringify(document), 'json', 'policies.json')).toThrow(
+        expect.objectContaining({
+          issues: [
+            'policies.json policies.0.maxActiveTokens: maxActiveTokens must be positive',
+            expect.stringMatching(/^policies\.json policies\.1\.maxLifetimeMinutes: /),
+            expect.stringMatching(/^policies\.json policies\.1: .*maxLifetimeMinute/),
+          ],
+        })
+      );
+    });
+
+    it('should refuse duplicate names, unknown types and syntax errors', () => {
+      expect(() => parsePolicies(JSON.stringify({ policies: [adminShortLived, adminShortLived] }), 'json')).toThrow(
+        'Policy names must be unique'
+      );
+      expect(() => parsePolicies(JSON.stringify({ policies: [{ name: 'x', type: 'max_scopes' }] }), 'json')).toThrow(
+        ConfigError
+      );
+      expect(() => parsePolicies('policies: [', 'yaml')).toThrow(ConfigError);
+      expect(() => parsePolicies('{', 'json')).toThrow(ConfigError);
+    });
+  });
+
+  describe('getPolicyFileFormat and loadPolicyFile', () => {
+    it('should pick the format from the extension', () => {
+      expect(getPolicyFileFormat('/etc/token-service/policies.json')).toBe('json');
+      expect(getPolicyFileFormat('policies.YML')).toBe('yaml');
+      expect(() => getPolicyFileFormat('policies.toml')).toThrow(ConfigError);
+    });
+
+    it('should load a policy file from disk', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'policies-'));
+      const path = join(directory, 'policies.yaml');
+
+      try {
+        await writeFile(path, 'policies:\n  - { name: admin-short-lived, type: max_lifetime, scope: admin, maxLifetimeMinutes: 60 }\n');
+
+        await expect(loadPolicyFile(path)).resolves.toEqual([adminShortLived]);
+        await expect(loadPolicyFile(join(directory, 'missing.json'))).rejects.toThrow(ConfigError);
+      } finally {
+        await rm(directory, { recursive: true });
+      }
+    });
+    it('should retry reading the policy file after a failed load', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'policies-'));
+      mockPolicyFile = join(directory, 'policies.json');
+
+      try {
+        await writeFile(mockPolicyFile, '{ "policies": [');
+        await expect(getPolicies()).rejects.toThrow(ConfigError);
+
+        await writeFile(mockPolicyFile, JSON.stringify({ policies: [adminShortLived] }));
+        await expect(getPolicies()).resolves.toEqual([adminShortLived]);
+
+        // Loaded policies are kept until the process restarts
+        await writeFile(mockPolicyFile, JSON.stringify({ policies: [] }));
+        await expect(getPolicies()).resolves.toEqual([adminShortLived]);
+      } finally {
+        mockPolicyFile = null;
+        await rm(directory, { recursive: true });
+      }
+    });
+  });
+
+  describe('policyApplies', () => {
+    it('should require every selector to match', () => {
+      const policy: Policy = { ...adminShortLived, tenantId: 'acme', clientId: 'client_1' };
+
+      expect(policyApplies(policy, context({ clientId: 'client_1', effectiveScopes: ['admin', 'read'] }))).toBe(true);
+      expect(policyApplies(policy, context({ clientId: 'client_2', effectiveScopes: ['admin'] }))).toBe(false);
+      expect(policyApplies(policy, context({ tenantId: 'globex', clientId: 'client_1', effectiveScopes: ['admin'] }))).toBe(false);
+      expect(policyApplies(policy, context({ clientId: 'client_1', effectiveScopes: ['read'] }))).toBe(false);
+    });
+
+    it('should match scope wildcards', () => {
+      const policy: Policy = { ...adminShortLived, scope: 'repo:*' };
+
+      expect(policyApplies(policy, context({ effectiveScopes: ['repo:read'] }))).toBe(true);
+      expect(policyApplies(policy, context({ effectiveScopes: ['read'] }))).toBe(false);
+    });
+  });
+
+  describe('findPolicyViolation', () => {
+    it('should cap the lifetime of matching tokens only', () => {
+      expect(findPolicyViolation([adminShortLived], context({ effectiveScopes: ['admin'], expiresInMinutes: 60 }))).toBeNull();
+      expect(findPolicyViolation([adminShortLived], context({ effectiveScopes: ['read'], expiresInMinutes: 600 }))).toBeNull();
+
+      expect(findPolicyViolation([adminShortLived], context({ effectiveScopes: ['admin'], expiresInMinutes: 61 }))).toMatchObject({
+        status: 403,
+        message: 'Token violates policy "admin-short-lived": lifetime cannot exceed 60 minutes',
+        details: { policy: 'admin-short-lived', type: 'max_lifetime', maxLifetimeMinutes: 60 },
+      });
+    });
+
+    it('should refuse a token that would exceed the active token cap', () => {
+      expect(findPolicyViolation([tokenCap], context({ activeTokenCount: 19 }))).toBeNull();
+
+      expect(findPolicyViolation([tokenCap], context({ activeTokenCount: 20 }))).toMatchObject({
+        status: 403,
+        message: 'Token violates policy "acme-token-cap": user already has 20 active tokens (maximum 20)',
+      });
+    });
+
+    it('should report missing required scopes as unprocessable', () => {
+      expect(findPolicyViolation([writeRequiresRead], context({ effectiveScopes: ['repo:read', 'repo:write'] }))).toBeNull();
+
+      expect(findPolicyViolation([writeRequiresRead], context({ effectiveScopes: ['repo:write'] }))).toMatchObject({
+        status: 422,
+        message: 'Token violates policy "repo-write-requires-read": scope "repo:write" requires "repo:read"',
+        details: { missingScopes: ['repo:read'] },
+      });
+    });
+
+    it('should report the first violated policy in file order', () => {
+      const violation = findPolicyViolation(
+        [writeRequiresRead, adminShortLived],
+        context({ effectiveScopes: ['admin', 'repo:write'], expiresInMinutes: 120 })
+      );
+
+      expect(violation?.policy).toBe(writeRequiresRead);
+    });
+  });
+
+  describe('assertPoliciesAllow', () => {
+    const count = prisma.token.count as jest.Mock;
+    const request = { tenantId: 'acme', clientId: null, userId: 'user123', scopes: ['admin'], expiresInMinutes: 120 };
+
+    it('should evaluate expanded scopes and throw the violation', async () => {
+      await expect(assertPoliciesAllow([{ ...adminShortLived, scope: 'read' }], request)).rejects.toMatchObject({
+        status: 403,
+        details: { policy: 'admin-short-lived' },
+      });
+    });
+
+    it('should only count active tokens when a cap applies', async () => {
+      await assertPoliciesAllow([{ ...tokenCap, tenantId: 'globex' }], request);
+      expect(count).not.toHaveBeenCalled();
+
+      count.mockResolvedValue(20);
+      await expect(assertPoliciesAllow([tokenCap], request)).rejects.toMatchObject({ status: 403 });
+      expect(count).toHaveBeenCalledWith({
+        where: { tenantId: 'acme', userId: 'user123', revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+      });
+    });
+
+    it('should not count the token being changed nor the refresh family being rotated', async () => {
+      count.mockResolvedValue(19);
+      await assertPoliciesAllow([tokenCap], { ...request, tokenId: 'token_1', familyId: 'family_1' });
+
+      expect(count).toHaveBeenCalledWith({
+        where: {
+          tenantId: 'acme',
+          userId: 'user123',
+          revokedAt: null,
+          expiresAt: { gt: expect.any(Date) },
+          id: { not: 'token_1' },
+          OR: [{ familyId: null }, { familyId: { not: 'family_1' } }],
+        },
+      });
+    });
+
+    it('should skip all work without policies', async () => {
+      await expect(assertPoliciesAllow([], request)).resolves.toBeUndefined();
+      expect(prisma.scope.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { load as loadYaml } from 'js-yaml';
+import { prisma, type DbClient } from '@/lib/db';
+import { ConfigError, getConfig } from '@/lib/config';
+import { ApiError } from '@/lib/errors';
+import { expandScopes, getScopeCatalogue, isWildcardScope, matchesWildcard } from '@/scopes/scope.service';
+import { policyDocumentSchema } from '@/policies/policy.validation';
+import type { Policy, PolicyContext, PolicyRequest, PolicyViolation } from '@/policies/policy.type';
+
+/**
+ * Formats a policy file may be written in
+ */
+export type PolicyFileFormat = 'json' | 'yaml';
+
+/**
+ * Picks the format of a policy file from its extension
+ *
+ * @throws ConfigError for extensions other than .json, .yaml and .yml
+ */
+export function getPolicyFileFormat(path: string): PolicyFileFormat {
+  const extension = extname(path).toLowerCase();
+
+  if (extension === '.json') {
+    return 'json';
+  }
+  if (extension === '.yaml' || extension === '.yml') {
+    return 'yaml';
+  }
+
+  throw new ConfigError([`POLICY_FILE: ${path} must be a .json, .yaml or .yml file`]);
+}
+
+/**
+ * Parses and validates a policy document
+ *
+ * @param content - File contents
+ * @param format - JSON or YAML
+ * @param source - Name used in error messages, e.g. the file path
+ * @returns The policies in file order
+ * @throws ConfigError listing syntax errors or every invalid field
+ */
+export function parsePolicies(content: string, format: PolicyFileFormat, source: string = 'policies'): Policy[] {
+  let document: unknown;
+
+  try {
+    document = format === 'json' ? JSON.parse(content) : loadYaml(content);
+  } catch (error) {
+    throw new ConfigError([`${source}: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  const result = policyDocumentSchema.safeParse(document);
+
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map((issue) => `${source} ${issue.path.join('.')}: ${issue.message}`));
+  }
+
+  return result.data.policies;
+}
+
+/**
+ * Reads and validates a JSON or YAML policy file
+ *
+ * @throws ConfigError when the file cannot be read or is invalid
+ */
+export async function loadPolicyFile(path: string): Promise<Policy[]> {
+  const format = getPolicyFileFormat(path);
+  let content: string;
+
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new ConfigError([`POLICY_FILE: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  return parsePolicies(content, format, path);
+}
+
+let policies: Promise<Policy[]> | undefined;
+
+/**
+ * Returns the policies from POLICY_FILE, read on first use
+ * Without a policy file no policies apply. A failed read is not cached, so
+ * the next call tries again once the file is fixed.
+ *
+ * @throws ConfigError when the policy file cannot be read or is invalid
+ */
+export async function getPolicies(): Promise<Policy[]> {
+  const { file } = getConfig().policies;
+  policies ??= file
+    ? loadPolicyFile(file).catch((error) => {
+        policies = undefined;
+        throw error;
+      })
+    : Promise.resolve([]);
+  return policies;
+}
+
+/**
+ * Whether effective scopes include a scope, or any scope under a wildcard
+ */
+function grantsScope(effectiveScopes: string[], scope: string): boolean {
+  return isWildcardScope(scope)
+    ? effectiveScopes.some((effective) => matchesWildcard(scope, effective))
+    : effectiveScopes.includes(scope);
+}
+
+/**
+ * Whether a policy's selectors match a token
+ */
+export function policyApplies(
+  policy: Policy,
+  context: Pick<PolicyContext, 'tenantId' | 'clientId' | 'effectiveScopes'>
+): boolean {
+  return (
+    (policy.tenantId === undefined || policy.tenantId === context.tenantId) &&
+    (policy.clientId === undefined || policy.clientId === context.clientId) &&
+    (policy.scope === undefined || grantsScope(context.effectiveScopes, policy.scope))
+  );
+}
+
+/**
+ * Checks a token against one policy, regardless of its selectors
+ *
+ * @returns The violation, or null when the token complies
+ */
+function checkPolicy(policy: Policy, context: PolicyContext): PolicyViolation | null {
+  const prefix = `Token violates policy "${policy.name}"`;
+
+  switch (policy.type) {
+    case 'max_lifetime':
+      if (context.expiresInMinutes <= policy.maxLifetimeMinutes) {
+        return null;
+      }
+      return {
+        policy,
+        status: 403,
+        message: `${prefix}: lifetime cannot exceed ${policy.maxLifetimeMinutes} minutes`,
+        details: { policy: policy.name, type: policy.type, maxLifetimeMinutes: policy.maxLifetimeMinutes },
+      };
+
+    case 'max_active_tokens':
+      if (context.activeTokenCount < policy.maxActiveTokens) {
+        return null;
+      }
+      return {
+        policy,
+        status: 403,
+        message: `${prefix}: user already has ${context.activeTokenCount} active tokens (maximum ${policy.maxActiveTokens})`,
+        details: {
+          policy: policy.name,
+          type: policy.type,
+          maxActiveTokens: policy.maxActiveTokens,
+          activeTokens: context.activeTokenCount,
+        },
+      };
+
+    case 'scope_requires': {
+      const missingScopes = policy.requiredScopes.filter((scope) => !grantsScope(context.effectiveScopes, scope));
+      if (missingScopes.length === 0) {
+        return null;
+      }
+      return {
+        policy,
+        status: 422,
+        message: `${prefix}: scope "${policy.scope}" requires ${missingScopes.map((scope) => `"${scope}"`).join(', ')}`,
+        details: { policy: policy.name, type: policy.type, scope: policy.scope, missingScopes },
+      };
+    }
+  }
+}
+
+/**
+ * Evaluates policies against a token without touching the database
+ *
+ * @param policies - Policies in evaluation order
+ * @param context - The token and the facts policies need about it
+ * @returns The first violation, or null when every applicable policy is met
+ */
+export function findPolicyViolation(policies: Policy[], context: PolicyContext): PolicyViolation | null {
+  for (const policy of policies) {
+    const violation = policyApplies(policy, context) ? checkPolicy(policy, context) : null;
+
+    if (violation) {
+      return violation;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Counts a user's unrevoked, unexpired tokens within a tenant, other than the
+ * token being checked and the refresh family it replaces
+ */
+async function countActiveTokens(db: DbClient, request: PolicyRequest): Promise<number> {
+  return db.token.count({
+    where: {
+      tenantId: request.tenantId,
+      userId: request.userId,
+      revokedAt: null,
+      expiresAt: {
+        gt: new Date(),
+      },
+      ...(request.tokenId !== undefined && { id: { not: request.tokenId } }),
+      // A plain inequality would also leave out tokens without a family
+      ...(request.familyId && { OR: [{ familyId: null }, { familyId: { not: request.familyId } }] }),
+    },
+  });
+}
+
+/**
+ * Checks that a token about to be created, or an existing token's new grant, complies with every policy
+ * The user's active tokens are only counted when a max_active_tokens policy applies.
+ *
+ * @param policies - Policies to enforce, usually from getPolicies()
+ * @param request - The token about to be created, or the existing token with its new grant
+ * @param db - Client to use, pass a transaction client to join a transaction
+ * @throws ApiError (403) for lifetime and active token limits, (422) for missing required scopes
+ */
+export async function assertPoliciesAllow(
+  policies: Policy[],
+  request: PolicyRequest,
+  db: DbClient = prisma
+): Promise<void> {
+  if (policies.length === 0) {
+    return;
+  }
+
+  const effectiveScopes = expandScopes(request.scopes, await getScopeCatalogue(db));
+  const applicable = policies.filter((policy) => policyApplies(policy, { ...request, effectiveScopes }));
+  const activeTokenCount = applicable.some((policy) => policy.type === 'max_active_tokens')
+    ? await countActiveTokens(db, request)
+    : 0;
+
+  const violation = findPolicyViolation(applicable, { ...request, effectiveScopes, activeTokenCount });
+
+  if (violation) {
+    throw new ApiError(violation.status, violation.message, violation.details);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Kinds of token policy
+ * - max_lifetime: tokens may live at most `maxLifetimeMinutes`
+ * - max_active_tokens: a user may hold at most `maxActiveTokens` active tokens
+ * - scope_requires: tokens granting `scope` must also grant `requiredScopes`
+ */
+export type PolicyType = 'max_lifetime' | 'max_active_tokens' | 'scope_requires';
+
+/**
+ * Tokens a policy applies to; every given field must match and omitted
+ * fields match any token
+ * `scope` matches tokens whose effective scopes include it (wildcards allowed).
+ */
+export interface PolicyMatch {
+  tenantId?: string;
+  clientId?: string;
+  scope?: string;
+}
+
+interface PolicyBase extends PolicyMatch {
+  name: string;
+  description?: string;
+}
+
+export interface MaxLifetimePolicy extends PolicyBase {
+  type: 'max_lifetime';
+  maxLifetimeMinutes: number;
+}
+
+export interface MaxActiveTokensPolicy extends PolicyBase {
+  type: 'max_active_tokens';
+  maxActiveTokens: number;
+}
+
+export interface ScopeRequiresPolicy extends PolicyBase {
+  type: 'scope_requires';
+  scope: string;
+  requiredScopes: string[];
+}
+
+/**
+ * Declarative rule evaluated whenever a token is created
+ */
+export type Policy = MaxLifetimePolicy | MaxActiveTokensPolicy | ScopeRequiresPolicy;
+
+/**
+ * Token about to be created, as seen by policies
+ * `tokenId` is set when an existing token's grant changes; that token is
+ * then not counted among the user's active tokens. Likewise the tokens of
+ * `familyId`, which a refresh rotation replaces.
+ */
+export interface PolicyRequest {
+  tenantId: string;
+  clientId: string | null;
+  userId: string;
+  scopes: string[];
+  expiresInMinutes: number;
+  tokenId?: string;
+  familyId?: string | null;
+}
+
+/**
+ * Everything policies are evaluated against
+ * `effectiveScopes` are the requested scopes with hierarchy and wildcards
+ * expanded; `activeTokenCount` is the user's active tokens in the tenant.
+ */
+export interface PolicyContext extends PolicyRequest {
+  effectiveScopes: string[];
+  activeTokenCount: number;
+}
+
+/**
+ * A policy the token would break, with the response to send
+ */
+export interface PolicyViolation {
+  policy: Policy;
+  status: 403 | 422;
+  message: string;
+  details: Record<string, unknown>;
+}
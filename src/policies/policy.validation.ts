@@ -0,0 +1,61 @@
+import { z } from 'zod';
+
+const policyBaseSchema = z.strictObject({
+  name: z.string().min(1, 'name must not be empty').max(100, 'name cannot exceed 100 characters'),
+  description: z.string().max(500, 'description cannot exceed 500 characters').optional(),
+  tenantId: z.string().min(1, 'tenantId must not be empty').optional(),
+  clientId: z.string().min(1, 'clientId must not be empty').optional(),
+  scope: z.string().min(1, 'scope must not be empty').optional(),
+});
+
+/**
+ * Validation schema for a single policy
+ *
+ * Rules:
+ * - name: unique label reported when the policy is violated
+ * - tenantId, clientId, scope: optional selectors; the policy applies to
+ *   tokens matching all of them
+ * - type: max_lifetime (maxLifetimeMinutes), max_active_tokens (maxActiveTokens)
+ *   or scope_requires (scope and requiredScopes)
+ * - unknown fields are rejected so typos do not silently disable a rule
+ */
+export const policySchema = z.discriminatedUnion('type', [
+  policyBaseSchema.extend({
+    type: z.literal('max_lifetime'),
+    maxLifetimeMinutes: z
+      .number()
+      .int('maxLifetimeMinutes must be an integer')
+      .positive('maxLifetimeMinutes must be positive'),
+  }),
+  policyBaseSchema.extend({
+    type: z.literal('max_active_tokens'),
+    maxActiveTokens: z
+      .number()
+      .int('maxActiveTokens must be an integer')
+      .positive('maxActiveTokens must be positive'),
+  }),
+  policyBaseSchema.extend({
+    type: z.literal('scope_requires'),
+    scope: z.string().min(1, 'scope must not be empty'),
+    requiredScopes: z
+      .array(z.string().min(1, 'Each scope must be a non-empty string'))
+      .min(1, 'At least one required scope is needed'),
+  }),
+]);
+
+/**
+ * Validation schema for a policy file: `{ "policies": [...] }`
+ */
+export const policyDocumentSchema = z
+  .strictObject({
+    policies: z.array(policySchema),
+  })
+  .refine(
+    (document) => new Set(document.policies.map((policy) => policy.name)).size === document.policies.length,
+    { message: 'Policy names must be unique', path: ['policies'] }
+  );
+
+/**
+ * Type inference from schemas for TypeScript
+ */
+export type PolicyDocumentInput = z.infer<typeof policyDocumentSchema>;
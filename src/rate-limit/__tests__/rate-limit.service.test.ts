@@ -0,0 +1,195 @@
+import { checkRateLimit, mostRestrictive, rateLimitHeaders } from '../rate-limit.service';
+import { deleteRefilledRateLimitBuckets, MemoryRateLimitStore, PostgresRateLimitStore } from '../rate-limit.store';
+import { takeFromBucket } from '../token-bucket';
+import { prisma } from '@/lib/db';
+import type { RateLimitResult, RateLimitRule } from '@/rate-limit/rate-limit.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => {
+  const tx = {
+    $executeRaw: jest.fn(),
+    $queryRaw: jest.fn(),
+    rateLimitBucket: { upsert: jest.fn() },
+  };
+  return {
+    prisma: {
+      tx,
+      rateLimitBucket: { deleteMany: jest.fn() },
+      $transaction: jest.fn((callback) => callback(tx)),
+    },
+  };
+});
+
+jest.mock('@/lib/config', () => ({
+  getConfig: () => ({
+    rateLimit: {
+      store: 'memory',
+      apiKey: { capacity: 3, refillPerMinute: 60 },
+      user: { capacity: 2, refillPerMinute: 1 },
+    },
+  }),
+}));
+
+const rule: RateLimitRule = { capacity: 2, refillPerMinute: 60 };
+const start = new Date('2025-01-01T10:00:00Z');
+
+function secondsLater(seconds: number): Date {
+  return new Date(start.getTime() + seconds * 1000);
+}
+
+function result(overrides: Partial<RateLimitResult>): RateLimitResult {
+  return { allowed: true, limit: 10, remaining: 5, resetSeconds: 5, retryAfterSeconds: 0, ...overrides };
+}
+
+describe('Rate Limit Service', () => {
+  describe('takeFromBucket', () => {
+    it('should start new buckets full', () => {
+      const { bucket, result } = takeFromBucket(null, rule, start);
+
+      expect(bucket).toEqual({ tokens: 1, updatedAt: start });
+      expect(result).toEqual({ allowed: true, limit: 2, remaining: 1, resetSeconds: 1, retryAfterSeconds: 0 });
+    });
+
+    it('should deny requests once the bucket is empty', () => {
+      const { result } = takeFromBucket({ tokens: 0.5, updatedAt: start }, rule, start);
+
+      expect(result.allowed).toBe(false);
+      expect(result.remaining).toBe(0);
+      expect(result.retryAfterSeconds).toBe(1);
+    });
+
+    it('should refill continuously without exceeding the capacity', () => {
+      expect(takeFromBucket({ tokens: 0, updatedAt: start }, rule, secondsLater(1)).result.allowed).toBe(true);
+      expect(takeFromBucket({ tokens: 0, updatedAt: start }, rule, secondsLater(3600)).bucket.tokens).toBe(1);
+    });
+
+    it('should not refill for timestamps in the past', () => {
+      const { result } = takeFromBucket({ tokens: 0, updatedAt: secondsLater(10) }, rule, start);
+
+      expect(result.allowed).toBe(false);
+    });
+  });
+
+  describe('mostRestrictive', () => {
+    it('should prefer denied results with the longest wait', () => {
+      const denied = result({ allowed: false, remaining: 0, retryAfterSeconds: 30 });
+
+      expect(mostRestrictive([result({}), denied, result({ allowed: false, retryAfterSeconds: 5 })])).toBe(denied);
+    });
+
+    it('should report the lowest remaining when all are allowed', () => {
+      const low = result({ remaining: 1 });
+
+      expect(mostRestrictive([result({}), low])).toBe(low);
+    });
+  });
+
+  describe('rateLimitHeaders', () => {
+    it('should add Retry-After only when denied', () => {
+      expect(rateLimitHeaders(result({}))).toEqual({
+        'RateLimit-Limit': '10',
+        'RateLimit-Remaining': '5',
+        'RateLimit-Reset': '5',
+      });
+      expect(rateLimitHeaders(result({ allowed: false, retryAfterSeconds: 7 }))['Retry-After']).toBe('7');
+    });
+  });
+
+  describe('MemoryRateLimitStore', () => {
+    it('should keep separate buckets per key', async () => {
+      const store = new MemoryRateLimitStore();
+
+      await store.consume('user:a', rule, start);
+      await store.consume('user:a', rule, start);
+
+      expect((await store.consume('user:a', rule, start)).allowed).toBe(false);
+      expect((await store.consume('user:b', rule, start)).allowed).toBe(true);
+      expect((await store.consume('user:a', rule, secondsLater(1))).allowed).toBe(true);
+    });
+
+    it('should periodically drop buckets that have refilled under their own rule', async () => {
+      const store = new MemoryRateLimitStore();
+      const slowRule: RateLimitRule = { capacity: 2, refillPerMinute: 1 };
+
+      await store.consume('user:slow', slowRule, start);
+      await store.consume('user:slow', slowRule, start);
+      await store.consume('key:fast', rule, start);
+      expect(store.size).toBe(2);
+
+      // Full again after a second, but kept until the next sweep
+      await store.consume('key:other', rule, secondsLater(30));
+      expect(store.size).toBe(3);
+
+      // The fast buckets have refilled; the slow one still needs another minute
+      await store.consume('key:next', rule, secondsLater(61));
+      expect(store.size).toBe(2);
+      expect((await store.consume('user:slow', slowRule, secondsLater(61))).remaining).toBe(0);
+    });
+  });
+
+  describe('PostgresRateLimitStore', () => {
+    const tx = (prisma as unknown as { tx: Record<string, jest.Mock> & { rateLimitBucket: { upsert: jest.Mock } } }).tx;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should lock the bucket row and store the refilled state', async () => {
+      tx.$queryRaw.mockResolvedValue([{ tokens: 0, updatedAt: start }]);
+
+      const outcome = await new PostgresRateLimitStore().consume('user:a', rule, secondsLater(1));
+
+      expect(outcome.allowed).toBe(true);
+      expect(tx.$executeRaw).toHaveBeenCalled();
+      // Empty again, so full two seconds later
+      const data = { tokens: 0, updatedAt: secondsLater(1), fullAt: secondsLater(3) };
+      expect(tx.rateLimitBucket.upsert).toHaveBeenCalledWith({
+        where: { key: 'user:a' },
+        create: { key: 'user:a', ...data },
+        update: data,
+      });
+    });
+
+    it('should purge buckets that have refilled', async () => {
+      const deleteMany = prisma.rateLimitBucket.deleteMany as jest.Mock;
+      deleteMany.mockResolvedValue({ count: 7 });
+
+      await expect(deleteRefilledRateLimitBuckets(start)).resolves.toBe(7);
+      expect(deleteMany).toHaveBeenCalledWith({ where: { fullAt: { lte: start } } });
+    });
+  });
+
+  describe('checkRateLimit', () => {
+    it('should limit per user across API keys', async () => {
+      const admin = { type: 'admin' as const, tenantId: 'default' };
+
+      expect((await checkRateLimit(admin, 'limited-user', start)).allowed).toBe(true);
+      expect((await checkRateLimit(admin, 'limited-user', start)).allowed).toBe(true);
+
+      const denied = await checkRateLimit(admin, 'limited-user', start);
+
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfterSeconds).toBe(60);
+    });
+
+    it('should limit per API key across users', async () => {
+      const admin = { type: 'admin' as const, tenantId: 'default' };
+      const later = secondsLater(600);
+
+      await checkRateLimit(admin, 'user-1', later);
+      await checkRateLimit(admin, 'user-2', later);
+      await checkRateLimit(admin, 'user-3', later);
+
+      expect((await checkRateLimit(admin, 'user-4', later)).allowed).toBe(false);
+    });
+
+    it('should keep separate user buckets per tenant', async () => {
+      const later = secondsLater(1200);
+
+      await checkRateLimit({ type: 'admin', tenantId: 'acme' }, 'shared-user', later);
+      await checkRateLimit({ type: 'admin', tenantId: 'acme' }, 'shared-user', later);
+
+      expect((await checkRateLimit({ type: 'admin', tenantId: 'globex' }, 'shared-user', later)).allowed).toBe(true);
+    });
+  });
+});
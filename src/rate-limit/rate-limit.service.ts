@@ -0,0 +1,77 @@
+import { getConfig } from '@/lib/config';
+import { getAuthTenantId } from '@/lib/auth';
+import { MemoryRateLimitStore, PostgresRateLimitStore } from '@/rate-limit/rate-limit.store';
+import type { AuthContext } from '@/lib/auth';
+import type { RateLimitResult, RateLimitStore } from '@/rate-limit/rate-limit.type';
+
+/**
+ * Merges the outcomes of several buckets into the one to report
+ * Denied results win (longest wait first), otherwise the lowest remaining
+ */
+export function mostRestrictive(results: RateLimitResult[]): RateLimitResult {
+  return results.reduce((current, candidate) => {
+    if (current.allowed !== candidate.allowed) {
+      return candidate.allowed ? current : candidate;
+    }
+
+    if (!current.allowed) {
+      return candidate.retryAfterSeconds > current.retryAfterSeconds ? candidate : current;
+    }
+
+    return candidate.remaining < current.remaining ? candidate : current;
+  });
+}
+
+/**
+ * Builds the RateLimit-* response headers, plus Retry-After when denied
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfterSeconds);
+  }
+
+  return headers;
+}
+
+let store: RateLimitStore | undefined;
+
+/**
+ * Returns the configured store
+ * The memory store is per process; use the postgres store with several replicas
+ */
+export function getRateLimitStore(): RateLimitStore {
+  store ??= getConfig().rateLimit.store === 'postgres'
+    ? new PostgresRateLimitStore()
+    : new MemoryRateLimitStore();
+  return store;
+}
+
+/**
+ * Takes one request from the caller's API key bucket and the user's bucket
+ *
+ * @param auth - The authenticated caller; clients are limited per client
+ * @param userId - The user the request is about, bucketed per tenant since user ids are only unique within one
+ * @returns The most restrictive outcome of both buckets
+ */
+export async function checkRateLimit(
+  auth: AuthContext,
+  userId: string,
+  now: Date = new Date()
+): Promise<RateLimitResult> {
+  const { rateLimit } = getConfig();
+  const rateLimitStore = getRateLimitStore();
+  const apiKeyBucket = auth.type === 'client' ? `apikey:${auth.client.id}` : 'apikey:admin';
+
+  const results = await Promise.all([
+    rateLimitStore.consume(apiKeyBucket, rateLimit.apiKey, now),
+    rateLimitStore.consume(`user:${getAuthTenantId(auth)}:${userId}`, rateLimit.user, now),
+  ]);
+
+  return mostRestrictive(results);
+}
@@ -0,0 +1,114 @@
+import { prisma } from '@/lib/db';
+import { takeFromBucket } from '@/rate-limit/token-bucket';
+import type { BucketState, RateLimitResult, RateLimitRule, RateLimitStore } from '@/rate-limit/rate-limit.type';
+
+/**
+ * Minimum time between sweeps for buckets that have refilled completely
+ */
+const MEMORY_STORE_PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Bucket kept in memory, with the time it will be full again under its own rule
+ */
+interface MemoryBucket {
+  bucket: BucketState;
+  fullAt: number;
+}
+
+/**
+ * Keeps buckets in process memory
+ * Suitable for a single replica; limits are not shared between processes
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, MemoryBucket>();
+  private nextPruneAt = 0;
+
+  /**
+   * Number of buckets currently held
+   */
+  get size(): number {
+    return this.buckets.size;
+  }
+
+  async consume(key: string, rule: RateLimitRule, now: Date): Promise<RateLimitResult> {
+    const { bucket, result } = takeFromBucket(this.buckets.get(key)?.bucket ?? null, rule, now);
+
+    this.buckets.set(key, { bucket, fullAt: now.getTime() + result.resetSeconds * 1000 });
+
+    if (now.getTime() >= this.nextPruneAt) {
+      this.prune(now);
+    }
+
+    return result;
+  }
+
+  /**
+   * Drops buckets that have refilled completely; they behave like new ones
+   * Runs at most once per interval so the sweep is amortised across requests
+   */
+  private prune(now: Date): void {
+    this.nextPruneAt = now.getTime() + MEMORY_STORE_PRUNE_INTERVAL_MS;
+
+    for (const [key, { fullAt }] of this.buckets) {
+      if (fullAt <= now.getTime()) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Keeps buckets in the rate_limit_buckets table so limits hold across replicas
+ * Each consume locks the bucket row for the duration of a short transaction.
+ * Rows record when they are full again, so refilled buckets can be purged.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  async consume(key: string, rule: RateLimitRule, now: Date): Promise<RateLimitResult> {
+    return prisma.$transaction(async (tx) => {
+      // Create the bucket full on first use; a concurrent insert is a no-op
+      await tx.$executeRaw`
+        INSERT INTO "rate_limit_buckets" ("key", "tokens", "updatedAt")
+        VALUES (${key}, ${rule.capacity}, ${now})
+        ON CONFLICT ("key") DO NOTHING
+      `;
+
+      const [current] = await tx.$queryRaw<BucketState[]>`
+        SELECT "tokens", "updatedAt" FROM "rate_limit_buckets" WHERE "key" = ${key} FOR UPDATE
+      `;
+
+      const { bucket, result } = takeFromBucket(current ?? null, rule, now);
+      const data = { ...bucket, fullAt: new Date(now.getTime() + result.resetSeconds * 1000) };
+
+      // Upserted in case the purge removed the row between the insert and the lock
+      await tx.rateLimitBucket.upsert({
+        where: {
+          key,
+        },
+        create: {
+          key,
+          ...data,
+        },
+        update: data,
+      });
+
+      return result;
+    });
+  }
+}
+
+/**
+ * Removes stored buckets that have refilled completely; they behave like new ones
+ *
+ * @returns Number of buckets removed
+ */
+export async function deleteRefilledRateLimitBuckets(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.rateLimitBucket.deleteMany({
+    where: {
+      fullAt: {
+        lte: now,
+      },
+    },
+  });
+
+  return count;
+}
@@ -0,0 +1,38 @@
+/**
+ * Token bucket configuration
+ * A bucket holds up to `capacity` requests and regains `refillPerMinute`
+ * of them per minute, so short bursts are allowed up to the capacity
+ */
+export interface RateLimitRule {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+/**
+ * Persisted state of a single bucket
+ * `tokens` is fractional because refills are computed continuously
+ */
+export interface BucketState {
+  tokens: number;
+  updatedAt: Date;
+}
+
+/**
+ * Outcome of taking one request from a bucket
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Storage for token buckets
+ * `consume` must read, refill and take from the bucket atomically so
+ * concurrent requests (or replicas) cannot spend the same token twice
+ */
+export interface RateLimitStore {
+  consume(key: string, rule: RateLimitRule, now: Date): Promise<RateLimitResult>;
+}
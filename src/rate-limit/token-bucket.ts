@@ -0,0 +1,35 @@
+import type { BucketState, RateLimitResult, RateLimitRule } from '@/rate-limit/rate-limit.type';
+
+/**
+ * Refills a bucket for the elapsed time and takes one request from it
+ *
+ * @param bucket - Current state, or null for a bucket never used (starts full)
+ * @param rule - Capacity and refill rate
+ * @param now - Current time
+ * @returns The new bucket state and the outcome to report
+ */
+export function takeFromBucket(
+  bucket: BucketState | null,
+  rule: RateLimitRule,
+  now: Date
+): { bucket: BucketState; result: RateLimitResult } {
+  const refillPerSecond = rule.refillPerMinute / 60;
+  const elapsedSeconds = bucket ? Math.max(0, (now.getTime() - bucket.updatedAt.getTime()) / 1000) : 0;
+  const available = bucket
+    ? Math.min(rule.capacity, bucket.tokens + elapsedSeconds * refillPerSecond)
+    : rule.capacity;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: rule.capacity,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((rule.capacity - tokens) / refillPerSecond),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerSecond),
+    },
+  };
+}
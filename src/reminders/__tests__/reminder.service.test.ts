@@ -0,0 +1,164 @@
+import { findTokensEnteringWindow, sendExpiryReminders } from '../reminder.service';
+import { LogExpiryNotifier, WebhookExpiryNotifier } from '../reminder.notifier';
+import { prisma, withAdvisoryLock } from '@/lib/db';
+import type { ExpiringToken, ExpiryNotifier } from '@/reminders/reminder.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => {
+  const client = {
+    tokenExpiryReminder: {
+      createMany: jest.fn(),
+    },
+    webhookSubscription: {
+      findMany: jest.fn(),
+    },
+    webhookDelivery: {
+      createMany: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((callback) => callback(client));
+  return {
+    prisma: client,
+    withAdvisoryLock: jest.fn((name, fn) => fn()),
+  };
+});
+
+const now = new Date('2025-01-01T10:00:00.000Z');
+
+const expiringToken = (id: string, hoursLeft: number): ExpiringToken => ({
+  id,
+  tenantId: 'default',
+  userId: 'user123',
+  name: `Token ${id}`,
+  clientId: null,
+  expiresAt: new Date(now.getTime() + hoursLeft * 60 * 60 * 1000),
+});
+
+describe('Expiry Reminder Service', () => {
+  const queryRaw = prisma.$queryRaw as jest.Mock;
+  const createMany = prisma.tokenExpiryReminder.createMany as jest.Mock;
+  let notifier: ExpiryNotifier & { notify: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queryRaw.mockReset();
+    notifier = { notify: jest.fn() };
+  });
+
+  describe('findTokensEnteringWindow', () => {
+    it('should look for active tokens expiring before the end of the window', async () => {
+      queryRaw.mockResolvedValue([]);
+
+      await findTokensEnteringWindow(24, 100, now);
+
+      const [strings, ...values] = queryRaw.mock.calls[0];
+      const sql = strings.join('?');
+      expect(sql).toContain('"revokedAt" IS NULL');
+      expect(sql).toContain('NOT EXISTS');
+      expect(values).toEqual([now, new Date('2025-01-02T10:00:00.000Z'), 24, 24, 100]);
+    });
+  });
+
+  describe('sendExpiryReminders', () => {
+    it('should remind tokens once for the narrowest window they entered', async () => {
+      // 1 day window, then the 7 day window
+      queryRaw.mockResolvedValueOnce([expiringToken('a', 12)]).mockResolvedValueOnce([expiringToken('b', 100)]);
+
+      await expect(sendExpiryReminders([168, 24], notifier, now)).resolves.toBe(2);
+
+      expect(withAdvisoryLock).toHaveBeenCalled();
+      expect(queryRaw.mock.calls[0].slice(1)).toContain(24);
+      expect(queryRaw.mock.calls[1].slice(1)).toContain(168);
+
+      // The wider window is covered by the 1 day reminder
+      expect(createMany.mock.calls[0][0]).toEqual({
+        data: [
+          { tokenId: 'a', windowHours: 24, sentAt: now },
+          { tokenId: 'a', windowHours: 168, sentAt: now },
+        ],
+        skipDuplicates: true,
+      });
+      expect(createMany.mock.calls[1][0].data).toEqual([{ tokenId: 'b', windowHours: 168, sentAt: now }]);
+
+      expect(notifier.notify).toHaveBeenCalledTimes(2);
+      expect(notifier.notify.mock.calls[0][1]).toEqual([
+        {
+          tenantId: 'default',
+          tokenId: 'a',
+          userId: 'user123',
+          name: 'Token a',
+          clientId: null,
+          expiresAt: expiringToken('a', 12).expiresAt,
+          windowHours: 24,
+        },
+      ]);
+    });
+
+    it('should not record or notify when no token entered a window', async () => {
+      queryRaw.mockResolvedValue([]);
+
+      await expect(sendExpiryReminders([24], notifier, now)).resolves.toBe(0);
+
+      expect(createMany).not.toHaveBeenCalled();
+      expect(notifier.notify).not.toHaveBeenCalled();
+    });
+
+    it('should leave reminders unrecorded when the notifier fails', async () => {
+      queryRaw.mockResolvedValue([expiringToken('a', 12)]);
+      notifier.notify.mockRejectedValue(new Error('unavailable'));
+
+      await expect(sendExpiryReminders([24], notifier, now)).rejects.toThrow('unavailable');
+    });
+
+    it('should skip the run while another replica holds the lock', async () => {
+      (withAdvisoryLock as jest.Mock).mockResolvedValueOnce(null);
+
+      await expect(sendExpiryReminders([24], notifier, now)).resolves.toBeNull();
+      expect(queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifiers', () => {
+    const reminder = {
+      tenantId: 'acme',
+      tokenId: 'a',
+      userId: 'user123',
+      name: null,
+      clientId: 'client_1',
+      expiresAt: new Date('2025-01-02T00:00:00.000Z'),
+      windowHours: 24,
+    };
+
+    it('should log reminders by default', async () => {
+      const info = jest.spyOn(console, 'info').mockImplementation(() => {});
+
+      await new LogExpiryNotifier().notify(prisma as never, [reminder]);
+
+      expect(info).toHaveBeenCalledWith(expect.stringContaining('token a of user user123'));
+      info.mockRestore();
+    });
+
+    it('should queue token.expiring webhook deliveries', async () => {
+      (prisma.webhookSubscription.findMany as jest.Mock).mockResolvedValue([{ id: 'hook_1', tenantId: 'acme' }]);
+
+      await new WebhookExpiryNotifier().notify(prisma as never, [reminder]);
+
+      expect((prisma.webhookDelivery.createMany as jest.Mock).mock.calls[0][0].data[0]).toMatchObject({
+        subscriptionId: 'hook_1',
+        eventType: 'token.expiring',
+        payload: {
+          type: 'token.expiring',
+          data: {
+            tokenId: 'a',
+            userId: 'user123',
+            clientId: 'client_1',
+            expiresAt: '2025-01-02T00:00:00.000Z',
+            windowHours: 24,
+          },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import type { DbClient } from '@/lib/db';
+import { enqueueWebhookEvents } from '@/webhooks/webhook.service';
+import type { ExpiryNotifier, ExpiryReminder } from '@/reminders/reminder.type';
+
+/**
+ * Writes reminders to the server log
+ */
+export class LogExpiryNotifier implements ExpiryNotifier {
+  async notify(_db: DbClient, reminders: ExpiryReminder[]): Promise<void> {
+    for (const reminder of reminders) {
+      console.info(
+        `token.expiring: token ${reminder.tokenId} of user ${reminder.userId} expires at ` +
+          `${reminder.expiresAt.toISOString()} (${reminder.windowHours}h reminder)`
+      );
+    }
+  }
+}
+
+/**
+ * Queues a `token.expiring` webhook delivery for every subscribed endpoint
+ */
+export class WebhookExpiryNotifier implements ExpiryNotifier {
+  async notify(db: DbClient, reminders: ExpiryReminder[]): Promise<void> {
+    await enqueueWebhookEvents(
+      db,
+      'token.expiring',
+      reminders.map((reminder) => ({
+        tenantId: reminder.tenantId,
+        tokenId: reminder.tokenId,
+        userId: reminder.userId,
+        details: {
+          name: reminder.name,
+          clientId: reminder.clientId,
+          expiresAt: reminder.expiresAt.toISOString(),
+          windowHours: reminder.windowHours,
+        },
+      }))
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { prisma, withAdvisoryLock } from '@/lib/db';
+import { getConfig } from '@/lib/config';
+import { LogExpiryNotifier, WebhookExpiryNotifier } from '@/reminders/reminder.notifier';
+import type { ExpiringToken, ExpiryNotifier, ExpiryReminder } from '@/reminders/reminder.type';
+
+/**
+ * Advisory lock held while sending reminders, so one replica sends them
+ */
+export const EXPIRY_REMINDER_LOCK_NAME = 'reminders:token-expiry';
+
+/**
+ * Tokens reminded per transaction
+ */
+const EXPIRY_REMINDER_BATCH_SIZE = 500;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+let notifier: ExpiryNotifier | undefined;
+
+/**
+ * Returns the configured notifier; reminders are logged by default
+ */
+export function getExpiryNotifier(): ExpiryNotifier {
+  notifier ??= getConfig().expiryReminders.notifier === 'webhook'
+    ? new WebhookExpiryNotifier()
+    : new LogExpiryNotifier();
+  return notifier;
+}
+
+/**
+ * Finds active tokens expiring within a window that have not been reminded
+ * for it yet
+ *
+ * Only tokens that lived longer than the window qualify, so short-lived
+ * tokens are not reminded as soon as they are created. Sliding tokens are
+ * skipped: their expiry moves with every use.
+ *
+ * @param windowHours - The reminder window
+ * @param limit - Maximum number of tokens to return, soonest expiry first
+ * @param now - Start of the window
+ */
+export async function findTokensEnteringWindow(
+  windowHours: number,
+  limit: number,
+  now: Date = new Date()
+): Promise<ExpiringToken[]> {
+  const windowEnd = new Date(now.getTime() + windowHours * HOUR_MS);
+
+  return prisma.$queryRaw<ExpiringToken[]>`
+    SELECT t."id", t."tenantId", t."userId", t."name", t."clientId", t."expiresAt"
+    FROM "tokens" t
+    WHERE t."revokedAt" IS NULL
+      AND t."idleTimeoutMinutes" IS NULL
+      AND t."expiresAt" > ${now}
+      AND t."expiresAt" <= ${windowEnd}
+      AND t."expiresAt" - t."createdAt" > ${windowHours}::int * INTERVAL '1 hour'
+      AND NOT EXISTS (
+        SELECT 1 FROM "token_expiry_reminders" r
+        WHERE r."tokenId" = t."id" AND r."windowHours" = ${windowHours}::int
+      )
+    ORDER BY t."expiresAt"
+    LIMIT ${limit}::int
+  `;
+}
+
+/**
+ * Sends a `token.expiring` reminder for every token that entered a window
+ * since the last run, and records it so it is sent once per window
+ *
+ * Windows are processed from the narrowest: a token that is already inside
+ * several windows (e.g. 7 days and 1 day) gets one reminder for the
+ * narrowest, and the wider ones are recorded as sent. Extending a token
+ * clears its reminders.
+ *
+ * @param windowsHours - Reminder windows in hours
+ * @param expiryNotifier - Delivery channel for the reminders
+ * @param now - When the run happens
+ * @returns Number of reminders sent, or null if another run holds the lock
+ */
+export async function sendExpiryReminders(
+  windowsHours: number[] = getConfig().expiryReminders.windowsHours,
+  expiryNotifier: ExpiryNotifier = getExpiryNotifier(),
+  now: Date = new Date()
+): Promise<number | null> {
+  const windows = [...new Set(windowsHours)].sort((a, b) => a - b);
+
+  return withAdvisoryLock(EXPIRY_REMINDER_LOCK_NAME, async () => {
+    let sent = 0;
+
+    for (const [index, windowHours] of windows.entries()) {
+      let tokens: ExpiringToken[];
+
+      do {
+        tokens = await findTokensEnteringWindow(windowHours, EXPIRY_REMINDER_BATCH_SIZE, now);
+
+        if (tokens.length === 0) {
+          break;
+        }
+
+        const reminders = tokens.map<ExpiryReminder>((token) => ({
+          tenantId: token.tenantId,
+          tokenId: token.id,
+          userId: token.userId,
+          name: token.name,
+          clientId: token.clientId,
+          expiresAt: token.expiresAt,
+          windowHours,
+        }));
+
+        await prisma.$transaction(async (tx) => {
+          await tx.tokenExpiryReminder.createMany({
+            data: tokens.flatMap((token) =>
+              windows.slice(index).map((coveredWindowHours) => ({
+                tokenId: token.id,
+                windowHours: coveredWindowHours,
+                sentAt: now,
+              }))
+            ),
+            skipDuplicates: true,
+          });
+
+          await expiryNotifier.notify(tx, reminders);
+        });
+
+        sent += reminders.length;
+      } while (tokens.length === EXPIRY_REMINDER_BATCH_SIZE);
+    }
+
+    return sent;
+  });
+}
@@ -0,0 +1,35 @@
+import type { DbClient } from '@/lib/db';
+
+/**
+ * Active token that has entered a reminder window
+ */
+export interface ExpiringToken {
+  id: string;
+  tenantId: string;
+  userId: string;
+  name: string | null;
+  clientId: string | null;
+  expiresAt: Date;
+}
+
+/**
+ * Notice that a token expires within `windowHours`
+ */
+export interface ExpiryReminder {
+  tenantId: string;
+  tokenId: string;
+  userId: string;
+  name: string | null;
+  clientId: string | null;
+  expiresAt: Date;
+  windowHours: number;
+}
+
+/**
+ * Delivery channel for expiry reminders
+ * `notify` runs in the transaction that records the reminders as sent, so a
+ * notifier that throws leaves them to be retried by the next run
+ */
+export interface ExpiryNotifier {
+  notify(db: DbClient, reminders: ExpiryReminder[]): Promise<void>;
+}
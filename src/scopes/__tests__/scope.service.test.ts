@@ -0,0 +1,207 @@
+import {
+  createScope,
+  deleteScope,
+  expandScopes,
+  findUnknownScopes,
+  isScopeSubset,
+  isWildcardScope,
+  matchesWildcard,
+  resolveWildcardScopes,
+  serializeScope,
+  updateScope,
+} from '../scope.service';
+import { prisma } from '@/lib/db';
+import { ApiError } from '@/lib/errors';
+import type { ScopeDefinition } from '@/scopes/scope.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    scope: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}));
+
+const catalogue: ScopeDefinition[] = [
+  { name: 'repo:admin', parentName: null },
+  { name: 'repo:write', parentName: 'repo:admin' },
+  { name: 'repo:read', parentName: 'repo:write' },
+  { name: 'repo:issues:read', parentName: null },
+  { name: 'billing:read', parentName: null },
+];
+
+const findUnique = prisma.scope.findUnique as jest.Mock;
+
+describe('Scope Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isWildcardScope and matchesWildcard', () => {
+    it('should detect wildcard grants', () => {
+      expect(isWildcardScope('repo:*')).toBe(true);
+      expect(isWildcardScope('repo:read')).toBe(false);
+    });
+
+    it('should match scopes below the wildcard namespace only', () => {
+      expect(matchesWildcard('repo:*', 'repo:read')).toBe(true);
+      expect(matchesWildcard('repo:*', 'repo:issues:read')).toBe(true);
+      expect(matchesWildcard('repo:*', 'repository:read')).toBe(false);
+      expect(matchesWildcard('repo:*', 'repo')).toBe(false);
+    });
+  });
+
+  describe('findUnknownScopes', () => {
+    it('should report typos', () => {
+      expect(findUnknownScopes(['repo:read', 'repo:raed'], catalogue)).toEqual(['repo:raed']);
+    });
+
+    it('should accept wildcards that match registered scopes', () => {
+      expect(findUnknownScopes(['repo:*'], catalogue)).toEqual([]);
+    });
+
+    it('should reject wildcards matching nothing', () => {
+      expect(findUnknownScopes(['orders:*'], catalogue)).toEqual(['orders:*']);
+    });
+  });
+
+  describe('expandScopes', () => {
+    it('should add every implied descendant', () => {
+      expect(expandScopes(['repo:admin'], catalogue)).toEqual(['repo:admin', 'repo:read', 'repo:write']);
+    });
+
+    it('should not add ancestors', () => {
+      expect(expandScopes(['repo:read'], catalogue)).toEqual(['repo:read']);
+    });
+
+    it('should resolve wildcards', () => {
+      expect(expandScopes(['repo:*'], catalogue)).toEqual([
+        'repo:admin',
+        'repo:issues:read',
+        'repo:read',
+        'repo:write',
+      ]);
+    });
+
+    it('should drop unknown scopes', () => {
+      expect(expandScopes(['unknown'], catalogue)).toEqual([]);
+    });
+  });
+
+  describe('resolveWildcardScopes', () => {
+    it('should replace wildcards with the scopes they match and keep other scopes as given', () => {
+      expect(resolveWildcardScopes(['billing:read', 'repo:*', 'repo:read'], catalogue)).toEqual([
+        'billing:read',
+        'repo:admin',
+        'repo:issues:read',
+        'repo:read',
+        'repo:write',
+      ]);
+    });
+
+    it('should not cover scopes registered later', () => {
+      const granted = resolveWildcardScopes(['repo:*'], catalogue);
+      const later = [...catalogue, { name: 'repo:delete', parentName: null }];
+
+      expect(isScopeSubset(['repo:delete'], granted, later)).toBe(false);
+    });
+  });
+
+  describe('isScopeSubset', () => {
+    it('should accept scopes implied by the grant', () => {
+      expect(isScopeSubset(['repo:read'], ['repo:write'], catalogue)).toBe(true);
+    });
+
+    it('should accept scopes covered by a wildcard', () => {
+      expect(isScopeSubset(['repo:issues:read', 'repo:admin'], ['repo:*'], catalogue)).toBe(true);
+    });
+
+    it('should reject broader scopes', () => {
+      expect(isScopeSubset(['repo:write'], ['repo:read'], catalogue)).toBe(false);
+    });
+
+    it('should reject scopes outside the grant', () => {
+      expect(isScopeSubset(['billing:read'], ['repo:*'], catalogue)).toBe(false);
+    });
+  });
+
+  describe('serializeScope', () => {
+    it('should expose the parent and ISO dates', () => {
+      expect(
+        serializeScope({
+          name: 'repo:read',
+          description: 'Read repositories',
+          parentName: 'repo:write',
+          createdAt: new Date('2025-01-01T10:00:00.000Z'),
+          updatedAt: new Date('2025-01-02T10:00:00.000Z'),
+        })
+      ).toEqual({
+        name: 'repo:read',
+        description: 'Read repositories',
+        parent: 'repo:write',
+        createdAt: '2025-01-01T10:00:00.000Z',
+        updatedAt: '2025-01-02T10:00:00.000Z',
+      });
+    });
+  });
+
+  describe('createScope', () => {
+    it('should reject duplicate names', async () => {
+      findUnique.mockResolvedValue({ name: 'repo:read' });
+
+      await expect(createScope({ name: 'repo:read', description: 'Read' })).rejects.toMatchObject({ status: 409 });
+    });
+
+    it('should reject unknown parents', async () => {
+      findUnique.mockResolvedValue(null);
+
+      await expect(
+        createScope({ name: 'repo:read', description: 'Read', parent: 'repo:write' })
+      ).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('should register the scope under its parent', async () => {
+      findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(where.name === 'repo:write' ? { name: 'repo:write' } : null)
+      );
+
+      await createScope({ name: 'repo:read', description: 'Read', parent: 'repo:write' });
+
+      expect(prisma.scope.create).toHaveBeenCalledWith({
+        data: { name: 'repo:read', description: 'Read', parentName: 'repo:write' },
+      });
+    });
+  });
+
+  describe('updateScope', () => {
+    it('should return null for unknown scopes', async () => {
+      findUnique.mockResolvedValue(null);
+
+      await expect(updateScope('missing', { description: 'x' })).resolves.toBeNull();
+    });
+
+    it('should refuse to create hierarchy cycles', async () => {
+      findUnique.mockResolvedValue({ name: 'repo:admin' });
+      (prisma.scope.findMany as jest.Mock).mockResolvedValue(catalogue);
+
+      await expect(updateScope('repo:admin', { parent: 'repo:read' })).rejects.toThrow(ApiError);
+      expect(prisma.scope.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteScope', () => {
+    it('should refuse to delete scopes that still have children', async () => {
+      findUnique.mockResolvedValue({ name: 'repo:write' });
+      (prisma.scope.count as jest.Mock).mockResolvedValue(1);
+
+      await expect(deleteScope('repo:write')).rejects.toMatchObject({ status: 409 });
+      expect(prisma.scope.delete).not.toHaveBeenCalled();
+    });
+  });
+});
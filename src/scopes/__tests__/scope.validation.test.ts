@@ -0,0 +1,44 @@
+import { createScopeSchema, updateScopeSchema } from '@/scopes/scope.validation';
+import { ZodError } from 'zod';
+
+describe('Scope Validation Schemas', () => {
+  describe('createScopeSchema', () => {
+    it('should validate a namespaced scope with parent', () => {
+      const validData = {
+        name: 'repo:read',
+        description: 'Read repositories',
+        parent: 'repo:write',
+      };
+
+      expect(createScopeSchema.parse(validData)).toEqual(validData);
+    });
+
+    it('should accept a scope without parent', () => {
+      const result = createScopeSchema.parse({ name: 'read', description: 'Read access' });
+      expect(result.parent).toBeUndefined();
+    });
+
+    it('should reject wildcard names', () => {
+      expect(() => createScopeSchema.parse({ name: 'repo:*', description: 'All' })).toThrow(ZodError);
+    });
+
+    it('should reject uppercase and empty segments', () => {
+      expect(() => createScopeSchema.parse({ name: 'Repo:Read', description: 'x' })).toThrow(ZodError);
+      expect(() => createScopeSchema.parse({ name: 'repo::read', description: 'x' })).toThrow(ZodError);
+    });
+
+    it('should reject empty descriptions', () => {
+      expect(() => createScopeSchema.parse({ name: 'read', description: '' })).toThrow(ZodError);
+    });
+  });
+
+  describe('updateScopeSchema', () => {
+    it('should accept detaching from the parent', () => {
+      expect(updateScopeSchema.parse({ parent: null })).toEqual({ parent: null });
+    });
+
+    it('should reject an empty update', () => {
+      expect(() => updateScopeSchema.parse({})).toThrow(ZodError);
+    });
+  });
+});
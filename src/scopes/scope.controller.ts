@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { ApiError } from '@/lib/errors';
+import { createScopeSchema, updateScopeSchema } from '@/scopes/scope.validation';
+import {
+  createScope,
+  deleteScope,
+  getScope,
+  listScopes,
+  serializeScope,
+  updateScope,
+} from '@/scopes/scope.service';
+import type { ErrorResponse } from '@/tokens/token.type';
+
+/**
+ * Maps errors thrown while handling a scope request to a response
+ */
+function handleScopeError(error: unknown, action: string) {
+  // Handle validation errors
+  if (error instanceof ZodError) {
+    return NextResponse.json<ErrorResponse>(
+      {
+        error: 'Validation failed',
+        details: error.issues,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Handle expected service errors
+  if (error instanceof ApiError) {
+    return NextResponse.json<ErrorResponse>(
+      { error: error.message, details: error.details },
+      { status: error.status }
+    );
+  }
+
+  // Handle other errors
+  console.error(`Error ${action}:`, error);
+  return NextResponse.json<ErrorResponse>(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+function unauthorized() {
+  return NextResponse.json<ErrorResponse>(
+    { error: 'Unauthorized. Valid X-API-Key header required.' },
+    { status: 401 }
+  );
+}
+
+function forbidden() {
+  return NextResponse.json<ErrorResponse>(
+    { error: 'Forbidden. Admin API key required.' },
+    { status: 403 }
+  );
+}
+
+function scopeNotFound() {
+  return NextResponse.json<ErrorResponse>(
+    { error: 'Scope not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Controller for listing the scope catalogue
+ */
+export async function listScopesController(request: NextRequest) {
+  try {
+    if (!(await authenticateRequest(request))) {
+      return unauthorized();
+    }
+
+    const scopes = await listScopes();
+
+    return NextResponse.json(scopes.map(serializeScope), { status: 200 });
+  } catch (error) {
+    return handleScopeError(error, 'listing scopes');
+  }
+}
+
+/**
+ * Controller for registering a scope
+ */
+export async function createScopeController(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return unauthorized();
+    }
+    if (auth.type !== 'admin') {
+      return forbidden();
+    }
+
+    const body = await request.json();
+    const validatedData = createScopeSchema.parse(body);
+
+    const scope = await createScope(validatedData);
+
+    return NextResponse.json(serializeScope(scope), { status: 201 });
+  } catch (error) {
+    return handleScopeError(error, 'creating scope');
+  }
+}
+
+/**
+ * Controller for retrieving a single scope
+ */
+export async function getScopeController(request: NextRequest, name: string) {
+  try {
+    if (!(await authenticateRequest(request))) {
+      return unauthorized();
+    }
+
+    const scope = await getScope(name);
+
+    if (!scope) {
+      return scopeNotFound();
+    }
+
+    return NextResponse.json(serializeScope(scope), { status: 200 });
+  } catch (error) {
+    return handleScopeError(error, 'fetching scope');
+  }
+}
+
+/**
+ * Controller for updating a scope's description or parent
+ */
+export async function updateScopeController(request: NextRequest, name: string) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return unauthorized();
+    }
+    if (auth.type !== 'admin') {
+      return forbidden();
+    }
+
+    const body = await request.json();
+    const validatedData = updateScopeSchema.parse(body);
+
+    const scope = await updateScope(name, validatedData);
+
+    if (!scope) {
+      return scopeNotFound();
+    }
+
+    return NextResponse.json(serializeScope(scope), { status: 200 });
+  } catch (error) {
+    return handleScopeError(error, 'updating scope');
+  }
+}
+
+/**
+ * Controller for removing a scope from the catalogue
+ */
+export async function deleteScopeController(request: NextRequest, name: string) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return unauthorized();
+    }
+    if (auth.type !== 'admin') {
+      return forbidden();
+    }
+
+    const scope = await deleteScope(name);
+
+    if (!scope) {
+      return scopeNotFound();
+    }
+
+    return NextResponse.json(serializeScope(scope), { status: 200 });
+  } catch (error) {
+    return handleScopeError(error, 'deleting scope');
+  }
+}
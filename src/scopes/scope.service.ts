@@ -0,0 +1,252 @@
+import { prisma, type DbClient } from '@/lib/db';
+import { ApiError } from '@/lib/errors';
+import type { CreateScopeInput, UpdateScopeInput } from '@/scopes/scope.validation';
+import type { Scope, ScopeDefinition, ScopeResponse } from '@/scopes/scope.type';
+
+/**
+ * Suffix marking a wildcard grant, e.g. `repo:*`
+ */
+const WILDCARD_SUFFIX = ':*';
+
+/**
+ * Checks if a scope string is a wildcard grant
+ */
+export function isWildcardScope(scope: string): boolean {
+  return scope.endsWith(WILDCARD_SUFFIX);
+}
+
+/**
+ * Checks if a concrete scope name is covered by a wildcard grant
+ * `repo:*` matches `repo:read` and `repo:issues:write`, but not `repo`
+ */
+export function matchesWildcard(wildcard: string, name: string): boolean {
+  const prefix = wildcard.slice(0, -1); // keep the trailing colon
+  return name.startsWith(prefix);
+}
+
+/**
+ * Returns the catalogue entries a granted scope refers to directly
+ * (the scope itself, or every scope matched by a wildcard)
+ */
+function resolveGrant(grant: string, catalogue: ScopeDefinition[]): string[] {
+  if (isWildcardScope(grant)) {
+    return catalogue.filter((scope) => matchesWildcard(grant, scope.name)).map((scope) => scope.name);
+  }
+
+  return catalogue.some((scope) => scope.name === grant) ? [grant] : [];
+}
+
+/**
+ * Finds requested scopes that are neither registered nor a wildcard
+ * matching at least one registered scope
+ */
+export function findUnknownScopes(scopes: string[], catalogue: ScopeDefinition[]): string[] {
+  return scopes.filter((scope) => resolveGrant(scope, catalogue).length === 0);
+}
+
+/**
+ * Replaces wildcards with the registered scopes they match at this moment,
+ * keeping the order of the other scopes and dropping duplicates
+ * Grants store the result, so `repo:*` does not pick up scopes registered later
+ */
+export function resolveWildcardScopes(scopes: string[], catalogue: ScopeDefinition[]): string[] {
+  const resolved = scopes.flatMap((scope) => (isWildcardScope(scope) ? resolveGrant(scope, catalogue).sort() : [scope]));
+  return [...new Set(resolved)];
+}
+
+/**
+ * Expands granted scopes into the full effective set:
+ * wildcards are resolved and every implied descendant is added
+ *
+ * @returns Sorted, de-duplicated scope names
+ */
+export function expandScopes(scopes: string[], catalogue: ScopeDefinition[]): string[] {
+  const children = new Map<string, string[]>();
+  for (const scope of catalogue) {
+    if (scope.parentName) {
+      children.set(scope.parentName, [...(children.get(scope.parentName) ?? []), scope.name]);
+    }
+  }
+
+  const effective = new Set<string>();
+  const pending = scopes.flatMap((scope) => resolveGrant(scope, catalogue));
+
+  while (pending.length > 0) {
+    const name = pending.pop() as string;
+    if (!effective.has(name)) {
+      effective.add(name);
+      pending.push(...(children.get(name) ?? []));
+    }
+  }
+
+  return [...effective].sort();
+}
+
+/**
+ * Checks that every requested scope is covered by the granted scopes,
+ * taking wildcards and the hierarchy into account
+ */
+export function isScopeSubset(
+  requested: string[],
+  granted: string[],
+  catalogue: ScopeDefinition[]
+): boolean {
+  const grantedEffective = new Set(expandScopes(granted, catalogue));
+  return expandScopes(requested, catalogue).every((scope) => grantedEffective.has(scope));
+}
+
+/**
+ * Converts a Scope with Date objects to ScopeResponse with ISO strings
+ */
+export function serializeScope(scope: Scope): ScopeResponse {
+  return {
+    name: scope.name,
+    description: scope.description,
+    parent: scope.parentName,
+    createdAt: scope.createdAt.toISOString(),
+    updatedAt: scope.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Loads the names and hierarchy of every registered scope
+ *
+ * @param db - Client to use, pass a transaction client to join a transaction
+ */
+export async function getScopeCatalogue(db: DbClient = prisma): Promise<ScopeDefinition[]> {
+  return db.scope.findMany({
+    select: {
+      name: true,
+      parentName: true,
+    },
+  });
+}
+
+/**
+ * Rejects scopes missing from the catalogue and resolves wildcards
+ * into the scopes they currently match
+ *
+ * @returns The scopes to store on the grant
+ * @throws ApiError (400) listing the unknown scopes
+ */
+export async function resolveKnownScopes(scopes: string[], db: DbClient = prisma): Promise<string[]> {
+  const catalogue = await getScopeCatalogue(db);
+  const unknownScopes = findUnknownScopes(scopes, catalogue);
+
+  if (unknownScopes.length > 0) {
+    throw new ApiError(400, 'Unknown scopes', { unknownScopes });
+  }
+
+  return resolveWildcardScopes(scopes, catalogue);
+}
+
+/**
+ * Lists every registered scope ordered by name
+ */
+export async function listScopes(): Promise<Scope[]> {
+  return prisma.scope.findMany({
+    orderBy: {
+      name: 'asc',
+    },
+  });
+}
+
+/**
+ * Retrieves a single scope
+ *
+ * @returns The scope, or null if it is not registered
+ */
+export async function getScope(name: string): Promise<Scope | null> {
+  return prisma.scope.findUnique({
+    where: {
+      name,
+    },
+  });
+}
+
+/**
+ * Registers a new scope
+ *
+ * @throws ApiError (409) if the name is taken, (400) if the parent is unknown
+ */
+export async function createScope(input: CreateScopeInput): Promise<Scope> {
+  if (await getScope(input.name)) {
+    throw new ApiError(409, `Scope "${input.name}" already exists`);
+  }
+
+  if (input.parent && !(await getScope(input.parent))) {
+    throw new ApiError(400, `Parent scope "${input.parent}" does not exist`);
+  }
+
+  return prisma.scope.create({
+    data: {
+      name: input.name,
+      description: input.description,
+      parentName: input.parent ?? null,
+    },
+  });
+}
+
+/**
+ * Updates a scope's description or parent
+ * A scope cannot become its own ancestor
+ *
+ * @returns The updated scope, or null if it is not registered
+ * @throws ApiError (400) for unknown parents or hierarchy cycles
+ */
+export async function updateScope(name: string, input: UpdateScopeInput): Promise<Scope | null> {
+  if (!(await getScope(name))) {
+    return null;
+  }
+
+  if (input.parent) {
+    const catalogue = await getScopeCatalogue();
+
+    if (!catalogue.some((scope) => scope.name === input.parent)) {
+      throw new ApiError(400, `Parent scope "${input.parent}" does not exist`);
+    }
+
+    if (expandScopes([name], catalogue).includes(input.parent)) {
+      throw new ApiError(400, `Scope "${input.parent}" is implied by "${name}" and cannot be its parent`);
+    }
+  }
+
+  return prisma.scope.update({
+    where: {
+      name,
+    },
+    data: {
+      description: input.description,
+      parentName: input.parent,
+    },
+  });
+}
+
+/**
+ * Removes a scope from the catalogue
+ * Tokens already carrying the scope keep it; new tokens can no longer request it
+ *
+ * @returns The deleted scope, or null if it is not registered
+ * @throws ApiError (409) if other scopes still name it as their parent
+ */
+export async function deleteScope(name: string): Promise<Scope | null> {
+  if (!(await getScope(name))) {
+    return null;
+  }
+
+  const childCount = await prisma.scope.count({
+    where: {
+      parentName: name,
+    },
+  });
+
+  if (childCount > 0) {
+    throw new ApiError(409, `Scope "${name}" still has child scopes`);
+  }
+
+  return prisma.scope.delete({
+    where: {
+      name,
+    },
+  });
+}
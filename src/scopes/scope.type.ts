@@ -0,0 +1,45 @@
+/**
+ * Scope catalogue entry matching the database schema
+ * A parent scope implies all of its descendants, e.g. granting
+ * `repo:write` (parent) also grants `repo:read` (child)
+ */
+export interface Scope {
+  name: string;
+  description: string;
+  parentName: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Minimal view of the catalogue needed to validate and expand scopes
+ */
+export type ScopeDefinition = Pick<Scope, 'name' | 'parentName'>;
+
+/**
+ * Request payload for registering a scope
+ */
+export interface CreateScopeRequest {
+  name: string;
+  description: string;
+  parent?: string | null;
+}
+
+/**
+ * Request payload for updating a scope
+ */
+export interface UpdateScopeRequest {
+  description?: string;
+  parent?: string | null;
+}
+
+/**
+ * Response format for scope operations
+ */
+export interface ScopeResponse {
+  name: string;
+  description: string;
+  parent: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
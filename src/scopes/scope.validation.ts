@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+/**
+ * Scope names are lowercase segments separated by colons, e.g. `repo:read`
+ * `*` is reserved for wildcard grants and cannot be registered
+ */
+const scopeNameSchema = z
+  .string()
+  .min(1, 'Scope name must not be empty')
+  .max(100, 'Scope name cannot exceed 100 characters')
+  .regex(
+    /^[a-z0-9_.-]+(:[a-z0-9_.-]+)*$/,
+    'Scope name must be lowercase segments separated by colons (e.g. repo:read)'
+  );
+
+/**
+ * Validation schema for registering a scope
+ * 
+ * Rules:
+ * - name: lowercase colon-separated segments
+ * - description: non-empty string
+ * - parent: optional existing scope that implies this one
+ */
+export const createScopeSchema = z.object({
+  name: scopeNameSchema,
+  description: z.string().min(1, 'description must not be empty').max(500, 'description cannot exceed 500 characters'),
+  parent: scopeNameSchema.nullable().optional(),
+});
+
+/**
+ * Validation schema for updating a scope
+ * Passing `parent: null` detaches the scope from its parent
+ */
+export const updateScopeSchema = z
+  .object({
+    description: z.string().min(1, 'description must not be empty').max(500, 'description cannot exceed 500 characters').optional(),
+    parent: scopeNameSchema.nullable().optional(),
+  })
+  .refine((data) => data.description !== undefined || data.parent !== undefined, {
+    message: 'At least one of description or parent is required',
+  });
+
+/**
+ * Type inference from schemas for TypeScript
+ */
+export type CreateScopeInput = z.infer<typeof createScopeSchema>;
+export type UpdateScopeInput = z.infer<typeof updateScopeSchema>;
@@ -0,0 +1,162 @@
+import {
+  assertTenantMayIssue,
+  createTenant,
+  requireTenant,
+  serializeTenant,
+  updateTenant,
+} from '../tenant.service';
+import { prisma } from '@/lib/db';
+import type { Tenant } from '@/tenants/tenant.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    tenant: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    scope: {
+      findMany: jest.fn().mockResolvedValue([
+        { name: 'repo:write', parentName: null },
+        { name: 'repo:read', parentName: 'repo:write' },
+        { name: 'billing:read', parentName: null },
+      ]),
+    },
+  },
+}));
+
+const findUnique = prisma.tenant.findUnique as jest.Mock;
+const create = prisma.tenant.create as jest.Mock;
+const update = prisma.tenant.update as jest.Mock;
+
+function storedTenant(overrides: Partial<Tenant> = {}): Tenant {
+  return {
+    id: 'acme',
+    name: 'Acme Corp',
+    allowedScopes: [],
+    maxTokenLifetimeMinutes: null,
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+    updatedAt: new Date('2025-01-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Tenant Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    create.mockImplementation(({ data }) => Promise.resolve(storedTenant(data)));
+    update.mockImplementation(({ data }) => Promise.resolve(storedTenant(data)));
+  });
+
+  describe('serializeTenant', () => {
+    it('should convert dates to ISO strings', () => {
+      expect(serializeTenant(storedTenant())).toEqual({
+        id: 'acme',
+        name: 'Acme Corp',
+        allowedScopes: [],
+        maxTokenLifetimeMinutes: null,
+        createdAt: '2025-01-01T10:00:00.000Z',
+        updatedAt: '2025-01-01T10:00:00.000Z',
+      });
+    });
+  });
+
+  describe('assertTenantMayIssue', () => {
+    it('should allow anything without restrictions', async () => {
+      await expect(assertTenantMayIssue(storedTenant(), ['billing:read'], [525600])).resolves.toBeUndefined();
+    });
+
+    it('should allow scopes implied by the allowlist', async () => {
+      const tenant = storedTenant({ allowedScopes: ['repo:write'] });
+
+      await expect(assertTenantMayIssue(tenant, ['repo:read'], [60])).resolves.toBeUndefined();
+    });
+
+    it('should refuse scopes beyond the allowlist', async () => {
+      const tenant = storedTenant({ allowedScopes: ['repo:read'] });
+
+      await expect(assertTenantMayIssue(tenant, ['repo:write'], [60])).rejects.toMatchObject({
+        status: 403,
+        details: { allowedScopes: ['repo:read'] },
+      });
+    });
+
+    it('should refuse any lifetime beyond the maximum', async () => {
+      const tenant = storedTenant({ maxTokenLifetimeMinutes: 60 });
+
+      await expect(assertTenantMayIssue(tenant, ['repo:read'], [60])).resolves.toBeUndefined();
+      await expect(assertTenantMayIssue(tenant, ['repo:read'], [15, 1440])).rejects.toMatchObject({
+        status: 403,
+        details: { maxTokenLifetimeMinutes: 60 },
+      });
+    });
+  });
+
+  describe('requireTenant', () => {
+    it('should return existing tenants and 404 otherwise', async () => {
+      findUnique.mockResolvedValueOnce(storedTenant());
+      await expect(requireTenant('acme')).resolves.toMatchObject({ id: 'acme' });
+
+      findUnique.mockResolvedValueOnce(null);
+      await expect(requireTenant('missing')).rejects.toMatchObject({ status: 404, message: 'Tenant not found' });
+    });
+  });
+
+  describe('createTenant', () => {
+    it('should create a tenant without restrictions by default', async () => {
+      findUnique.mockResolvedValue(null);
+
+      await createTenant({ id: 'acme', name: 'Acme Corp' });
+
+      expect(create).toHaveBeenCalledWith({
+        data: { id: 'acme', name: 'Acme Corp', allowedScopes: [], maxTokenLifetimeMinutes: null },
+      });
+    });
+
+    it('should refuse taken ids and unknown scopes', async () => {
+      findUnique.mockResolvedValueOnce(storedTenant());
+      await expect(createTenant({ id: 'acme', name: 'Acme Corp' })).rejects.toMatchObject({ status: 409 });
+
+      await expect(createTenant({ name: 'Globex', allowedScopes: ['repo:delete'] })).rejects.toMatchObject({
+        status: 400,
+      });
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTenant', () => {
+    it('should return null for unknown tenants', async () => {
+      findUnique.mockResolvedValue(null);
+
+      await expect(updateTenant('missing', { name: 'Globex' })).resolves.toBeNull();
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should update the policy', async () => {
+      findUnique.mockResolvedValue(storedTenant());
+
+      await updateTenant('acme', { allowedScopes: ['repo:read'], maxTokenLifetimeMinutes: 30 });
+
+      expect(update).toHaveBeenCalledWith({
+        where: { id: 'acme' },
+        data: { allowedScopes: ['repo:read'], maxTokenLifetimeMinutes: 30 },
+      });
+    });
+
+    it('should store wildcards as the scopes they match and not widen later', async () => {
+      findUnique.mockResolvedValue(storedTenant());
+
+      const tenant = await updateTenant('acme', { allowedScopes: ['repo:*'] });
+      (prisma.scope.findMany as jest.Mock).mockResolvedValueOnce([
+        { name: 'repo:write', parentName: null },
+        { name: 'repo:read', parentName: 'repo:write' },
+        { name: 'repo:admin', parentName: null },
+      ]);
+
+      expect(tenant?.allowedScopes).toEqual(['repo:read', 'repo:write']);
+      await expect(assertTenantMayIssue(tenant as Tenant, ['repo:admin'], [60])).rejects.toMatchObject({ status: 403 });
+    });
+  });
+});
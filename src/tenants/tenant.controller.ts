@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { ApiError } from '@/lib/errors';
+import { createTenantSchema, updateTenantSchema } from '@/tenants/tenant.validation';
+import { createTenant, getTenant, listTenants, serializeTenant, updateTenant } from '@/tenants/tenant.service';
+import type { ErrorResponse } from '@/tokens/token.type';
+
+/**
+ * Maps errors thrown while handling a tenant request to a response
+ */
+function handleTenantError(error: unknown, action: string) {
+  // Handle validation errors
+  if (error instanceof ZodError) {
+    return NextResponse.json<ErrorResponse>(
+      {
+        error: 'Validation failed',
+        details: error.issues,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Handle expected service errors
+  if (error instanceof ApiError) {
+    return NextResponse.json<ErrorResponse>(
+      { error: error.message, details: error.details },
+      { status: error.status }
+    );
+  }
+
+  // Handle other errors
+  console.error(`Error ${action}:`, error);
+  return NextResponse.json<ErrorResponse>(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+/**
+ * Returns an error response unless the request carries the admin API key
+ */
+async function requireAdmin(request: NextRequest) {
+  const auth = await authenticateRequest(request);
+
+  if (!auth) {
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Unauthorized. Valid X-API-Key header required.' },
+      { status: 401 }
+    );
+  }
+
+  if (auth.type !== 'admin') {
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Forbidden. Admin API key required.' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+function tenantNotFound() {
+  return NextResponse.json<ErrorResponse>(
+    { error: 'Tenant not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Controller for listing tenants
+ */
+export async function listTenantsController(request: NextRequest) {
+  try {
+    const denied = await requireAdmin(request);
+    if (denied) {
+      return denied;
+    }
+
+    const tenants = await listTenants();
+
+    return NextResponse.json(tenants.map(serializeTenant), { status: 200 });
+  } catch (error) {
+    return handleTenantError(error, 'listing tenants');
+  }
+}
+
+/**
+ * Controller for creating a tenant
+ */
+export async function createTenantController(request: NextRequest) {
+  try {
+    const denied = await requireAdmin(request);
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json();
+    const validatedData = createTenantSchema.parse(body);
+
+    const tenant = await createTenant(validatedData);
+
+    return NextResponse.json(serializeTenant(tenant), { status: 201 });
+  } catch (error) {
+    return handleTenantError(error, 'creating tenant');
+  }
+}
+
+/**
+ * Controller for retrieving a single tenant
+ */
+export async function getTenantController(request: NextRequest, id: string) {
+  try {
+    const denied = await requireAdmin(request);
+    if (denied) {
+      return denied;
+    }
+
+    const tenant = await getTenant(id);
+
+    if (!tenant) {
+      return tenantNotFound();
+    }
+
+    return NextResponse.json(serializeTenant(tenant), { status: 200 });
+  } catch (error) {
+    return handleTenantError(error, 'fetching tenant');
+  }
+}
+
+/**
+ * Controller for updating a tenant's name or policy
+ */
+export async function updateTenantController(request: NextRequest, id: string) {
+  try {
+    const denied = await requireAdmin(request);
+    if (denied) {
+      return denied;
+    }
+
+    const body = await request.json();
+    const validatedData = updateTenantSchema.parse(body);
+
+    const tenant = await updateTenant(id, validatedData);
+
+    if (!tenant) {
+      return tenantNotFound();
+    }
+
+    return NextResponse.json(serializeTenant(tenant), { status: 200 });
+  } catch (error) {
+    return handleTenantError(error, 'updating tenant');
+  }
+}
@@ -0,0 +1,140 @@
+import { prisma, type DbClient } from '@/lib/db';
+import { ApiError } from '@/lib/errors';
+import { getScopeCatalogue, isScopeSubset, resolveKnownScopes } from '@/scopes/scope.service';
+import type { Tenant, TenantResponse } from '@/tenants/tenant.type';
+import type { CreateTenantInput, UpdateTenantInput } from '@/tenants/tenant.validation';
+
+/**
+ * Tenant of rows created before tenants existed, and of admin requests
+ * without an X-Tenant-Id header
+ */
+export const DEFAULT_TENANT_ID = 'default';
+
+/**
+ * Converts a Tenant with Date objects to TenantResponse with ISO strings
+ */
+export function serializeTenant(tenant: Tenant): TenantResponse {
+  return {
+    id: tenant.id,
+    name: tenant.name,
+    allowedScopes: tenant.allowedScopes,
+    maxTokenLifetimeMinutes: tenant.maxTokenLifetimeMinutes,
+    createdAt: tenant.createdAt.toISOString(),
+    updatedAt: tenant.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Checks that tokens with the given scopes and lifetimes fit a tenant's policy
+ *
+ * @param tenant - The tenant the tokens belong to
+ * @param scopes - Requested scopes
+ * @param lifetimesInMinutes - Requested lifetimes (access and refresh)
+ * @param db - Client to use, pass a transaction client to join a transaction
+ * @throws ApiError (403) naming the violated restriction
+ */
+export async function assertTenantMayIssue(
+  tenant: Tenant,
+  scopes: string[],
+  lifetimesInMinutes: number[],
+  db: DbClient = prisma
+): Promise<void> {
+  if (tenant.allowedScopes.length > 0 && !isScopeSubset(scopes, tenant.allowedScopes, await getScopeCatalogue(db))) {
+    throw new ApiError(403, 'Requested scopes exceed the scopes allowed for this tenant', {
+      allowedScopes: tenant.allowedScopes,
+    });
+  }
+
+  const maxLifetime = tenant.maxTokenLifetimeMinutes;
+
+  if (maxLifetime !== null && lifetimesInMinutes.some((minutes) => minutes > maxLifetime)) {
+    throw new ApiError(403, `Token lifetime cannot exceed ${maxLifetime} minutes for this tenant`, {
+      maxTokenLifetimeMinutes: maxLifetime,
+    });
+  }
+}
+
+/**
+ * Lists every tenant ordered by creation
+ */
+export async function listTenants(): Promise<Tenant[]> {
+  return prisma.tenant.findMany({
+    orderBy: {
+      createdAt: 'asc',
+    },
+  });
+}
+
+/**
+ * Retrieves a single tenant
+ *
+ * @param db - Client to use, pass a transaction client to join a transaction
+ * @returns The tenant, or null if it does not exist
+ */
+export async function getTenant(id: string, db: DbClient = prisma): Promise<Tenant | null> {
+  return db.tenant.findUnique({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Retrieves the tenant of a request
+ *
+ * @throws ApiError (404) if the tenant does not exist
+ */
+export async function requireTenant(id: string, db: DbClient = prisma): Promise<Tenant> {
+  const tenant = await getTenant(id, db);
+
+  if (!tenant) {
+    throw new ApiError(404, 'Tenant not found');
+  }
+
+  return tenant;
+}
+
+/**
+ * Creates a tenant
+ *
+ * @throws ApiError (409) if the id is taken, (400) when an allowed scope is not in the catalogue
+ */
+export async function createTenant(input: CreateTenantInput): Promise<Tenant> {
+  if (input.id && (await getTenant(input.id))) {
+    throw new ApiError(409, `Tenant "${input.id}" already exists`);
+  }
+
+  // Wildcards are stored resolved, so the allowlist does not widen as scopes are registered
+  const allowedScopes = input.allowedScopes ? await resolveKnownScopes(input.allowedScopes) : [];
+
+  return prisma.tenant.create({
+    data: {
+      id: input.id,
+      name: input.name,
+      allowedScopes,
+      maxTokenLifetimeMinutes: input.maxTokenLifetimeMinutes ?? null,
+    },
+  });
+}
+
+/**
+ * Updates a tenant's name or policy
+ * Existing tokens keep their grants; the policy applies to new tokens.
+ *
+ * @returns The updated tenant, or null if it does not exist
+ * @throws ApiError (400) when an allowed scope is not in the catalogue
+ */
+export async function updateTenant(id: string, input: UpdateTenantInput): Promise<Tenant | null> {
+  if (!(await getTenant(id))) {
+    return null;
+  }
+
+  const allowedScopes = input.allowedScopes && (await resolveKnownScopes(input.allowedScopes));
+
+  return prisma.tenant.update({
+    where: {
+      id,
+    },
+    data: allowedScopes ? { ...input, allowedScopes } : input,
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * Tenant (customer organization) matching the database schema
+ * Every token, refresh token and client belongs to one tenant, and user ids
+ * are only unique within a tenant.
+ *
+ * Policy: `allowedScopes` limits the scopes tokens of the tenant may be
+ * granted (empty for no limit) and `maxTokenLifetimeMinutes` caps their
+ * lifetimes (null for no cap).
+ */
+export interface Tenant {
+  id: string;
+  name: string;
+  allowedScopes: string[];
+  maxTokenLifetimeMinutes: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Request payload for creating a tenant
+ */
+export interface CreateTenantRequest {
+  id?: string;
+  name: string;
+  allowedScopes?: string[];
+  maxTokenLifetimeMinutes?: number | null;
+}
+
+/**
+ * Request payload for updating a tenant's name or policy
+ */
+export interface UpdateTenantRequest {
+  name?: string;
+  allowedScopes?: string[];
+  maxTokenLifetimeMinutes?: number | null;
+}
+
+/**
+ * Response format for tenant operations
+ */
+export interface TenantResponse {
+  id: string;
+  name: string;
+  allowedScopes: string[];
+  maxTokenLifetimeMinutes: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
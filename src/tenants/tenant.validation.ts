@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+const tenantNameSchema = z
+  .string()
+  .min(1, 'name must not be empty')
+  .max(100, 'name cannot exceed 100 characters');
+
+const allowedScopesSchema = z.array(z.string().min(1, 'Each scope must be a non-empty string'));
+
+const maxTokenLifetimeSchema = z
+  .number()
+  .int('maxTokenLifetimeMinutes must be an integer')
+  .positive('maxTokenLifetimeMinutes must be positive')
+  .max(525600, 'maxTokenLifetimeMinutes cannot exceed 1 year (525600 minutes)')
+  .nullable();
+
+/**
+ * Validation schema for creating a tenant
+ *
+ * Rules:
+ * - id: optional slug used in X-Tenant-Id, e.g. "acme"; generated when omitted
+ * - name: non-empty string
+ * - allowedScopes: optional scopes (or wildcards) tokens may be granted, empty for no limit
+ * - maxTokenLifetimeMinutes: optional cap on token lifetimes, null for none
+ */
+export const createTenantSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9-]{0,62}$/, 'id must be lowercase letters, digits and dashes (max 63)')
+    .optional(),
+  name: tenantNameSchema,
+  allowedScopes: allowedScopesSchema.optional(),
+  maxTokenLifetimeMinutes: maxTokenLifetimeSchema.optional(),
+});
+
+/**
+ * Validation schema for updating a tenant
+ */
+export const updateTenantSchema = z
+  .object({
+    name: tenantNameSchema.optional(),
+    allowedScopes: allowedScopesSchema.optional(),
+    maxTokenLifetimeMinutes: maxTokenLifetimeSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field is required',
+  });
+
+/**
+ * Type inference from schemas for TypeScript
+ */
+export type CreateTenantInput = z.infer<typeof createTenantSchema>;
+export type UpdateTenantInput = z.infer<typeof updateTenantSchema>;
@@ -0,0 +1,325 @@
+import { generateKeyPairSync } from 'crypto';
+import {
+  createTokenPair,
+  generateRefreshTokenString,
+  getRefreshLifetimeMinutes,
+  refreshTokenPair,
+  serializeTokenPair,
+} from '../refresh-token.service';
+import { prisma } from '@/lib/db';
+import { ApiError } from '@/lib/errors';
+import { computeJwkThumbprint, signJwt } from '@/lib/jwt';
+import { computeAccessTokenHash } from '@/tokens/token-binding.service';
+import { getPolicies } from '@/policies/policy.service';
+import { hashToken } from '@/tokens/token.service';
+
+// Mock Prisma Client; interactive transactions run against the same mock
+jest.mock('@/lib/db', () => {
+  const client = {
+    token: {
+      count: jest.fn(),
+      create: jest.fn(),
+      findMany: jest.fn().mockResolvedValue([]),
+      updateMany: jest.fn(),
+    },
+    refreshToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    tenant: {
+      findUnique: jest.fn(),
+    },
+    scope: {
+      findMany: jest.fn().mockResolvedValue([{ name: 'read', parentName: null }]),
+    },
+    tokenEvent: {
+      createMany: jest.fn(),
+    },
+    webhookSubscription: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    webhookDelivery: {
+      createMany: jest.fn(),
+    },
+    possessionProof: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((callback) => callback(client));
+  return { prisma: client, inTransaction: jest.fn((db, callback) => callback(db)) };
+});
+
+jest.mock('@/keys/key.service', () => ({
+  signWithActiveKey: jest.fn(),
+}));
+
+// Run without a policy file
+jest.mock('@/policies/policy.service', () => ({
+  ...jest.requireActual('@/policies/policy.service'),
+  getPolicies: jest.fn().mockResolvedValue([]),
+}));
+
+const tokenCreate = prisma.token.create as jest.Mock;
+const tokenUpdateMany = prisma.token.updateMany as jest.Mock;
+const refreshCreate = prisma.refreshToken.create as jest.Mock;
+const refreshFindUnique = prisma.refreshToken.findUnique as jest.Mock;
+const refreshUpdate = prisma.refreshToken.update as jest.Mock;
+const refreshUpdateMany = prisma.refreshToken.updateMany as jest.Mock;
+const tenantFindUnique = prisma.tenant.findUnique as jest.Mock;
+
+function storedRefreshToken(plaintext: string, overrides: Record<string, unknown> = {}) {
+  const createdAt = new Date();
+  return {
+    id: 'refresh_id',
+    tokenHash: hashToken(plaintext),
+    tokenPrefix: 'refresh_abc',
+    familyId: 'family_1',
+    userId: 'user123',
+    scopes: ['read'],
+    accessExpiresInMinutes: 15,
+    accessFormat: 'opaque',
+    createdAt,
+    expiresAt: new Date(createdAt.getTime() + 1440 * 60 * 1000),
+    rotatedAt: null,
+    replacedById: null,
+    revokedAt: null,
+    clientId: null,
+    name: null,
+    description: null,
+    tenantId: 'default',
+    ...overrides,
+  };
+}
+
+describe('Refresh Token Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tokenCreate.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'access_id', revokedAt: null, revokedReason: null, ...data })
+    );
+    refreshCreate.mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'new_refresh_id', createdAt: new Date(), rotatedAt: null, revokedAt: null, ...data })
+    );
+    tenantFindUnique.mockImplementation(({ where }) =>
+      Promise.resolve({ id: where.id, allowedScopes: [], maxTokenLifetimeMinutes: null })
+    );
+  });
+
+  describe('generateRefreshTokenString', () => {
+    it('should generate a refresh token with the correct prefix', () => {
+      expect(generateRefreshTokenString()).toMatch(/^refresh_[0-9a-f-]{36}$/);
+    });
+  });
+
+  describe('getRefreshLifetimeMinutes', () => {
+    it('should derive the lifetime from creation and expiry', () => {
+      expect(
+        getRefreshLifetimeMinutes({
+          createdAt: new Date('2025-01-01T10:00:00.000Z'),
+          expiresAt: new Date('2025-01-02T10:00:00.000Z'),
+        })
+      ).toBe(1440);
+    });
+  });
+
+  describe('createTokenPair', () => {
+    it('should create both tokens in one new family', async () => {
+      const pair = await createTokenPair('user123', ['read'], 15, 1440);
+
+      const accessData = tokenCreate.mock.calls[0][0].data;
+      const refreshData = refreshCreate.mock.calls[0][0].data;
+
+      expect(accessData.familyId).toBeDefined();
+      expect(refreshData.familyId).toBe(accessData.familyId);
+      expect(refreshData.tokenHash).toBe(hashToken(pair.refreshPlaintext));
+      expect(refreshData).toMatchObject({ userId: 'user123', scopes: ['read'], accessExpiresInMinutes: 15 });
+      expect(pair.refreshPlaintext).toMatch(/^refresh_/);
+    });
+
+    it('should serialize the refresh token alongside the access token', async () => {
+      const pair = await createTokenPair('user123', ['read'], 15, 1440);
+      const response = serializeTokenPair(pair);
+
+      expect(response.token).toBe(pair.plaintext);
+      expect(response.refreshToken).toBe(pair.refreshPlaintext);
+      expect(response.refreshTokenExpiresAt).toBe(pair.refreshToken.expiresAt.toISOString());
+    });
+
+    it('should store the tenant on both tokens', async () => {
+      await createTokenPair('user123', ['read'], 15, 1440, { tenantId: 'acme' });
+
+      expect(tokenCreate.mock.calls[0][0].data.tenantId).toBe('acme');
+      expect(refreshCreate.mock.calls[0][0].data.tenantId).toBe('acme');
+    });
+
+    it('should reject refresh lifetimes beyond the tenant maximum', async () => {
+      tenantFindUnique.mockResolvedValue({ id: 'acme', allowedScopes: [], maxTokenLifetimeMinutes: 60 });
+
+      await expect(createTokenPair('user123', ['read'], 15, 1440, { tenantId: 'acme' })).rejects.toMatchObject({
+        status: 403,
+      });
+      expect(tokenCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshTokenPair', () => {
+    it('should carry the issuing client over to the rotated pair', async () => {
+      refreshFindUnique.mockResolvedValue(storedRefreshToken('refresh_valid', { clientId: 'client_1' }));
+      refreshUpdateMany.mockResolvedValue({ count: 1 });
+
+      await refreshTokenPair('refresh_valid', 'default');
+
+      expect(tokenCreate.mock.calls[0][0].data.clientId).toBe('client_1');
+      expect(refreshCreate.mock.calls[0][0].data.clientId).toBe('client_1');
+    });
+
+    it('should carry the token labels over to the rotated pair', async () => {
+      refreshFindUnique.mockResolvedValue(storedRefreshToken('refresh_valid', { name: 'CI deploy key' }));
+      refreshUpdateMany.mockResolvedValue({ count: 1 });
+
+      await refreshTokenPair('refresh_valid', 'default');
+
+      expect(tokenCreate.mock.calls[0][0].data.name).toBe('CI deploy key');
+      expect(refreshCreate.mock.calls[0][0].data.name).toBe('CI deploy key');
+    });
+
+    it('should rotate a valid refresh token into a new pair in the same family', async () => {
+      refreshFindUnique.mockResolvedValue(storedRefreshToken('refresh_valid'));
+      refreshUpdateMany.mockResolvedValue({ count: 1 });
+
+      const pair = await refreshTokenPair('refresh_valid', 'default');
+
+      expect(refreshUpdateMany).toHaveBeenCalledWith({
+        where: { id: 'refresh_id', rotatedAt: null },
+        data: { rotatedAt: expect.any(Date) },
+      });
+      expect(tokenCreate.mock.calls[0][0].data).toMatchObject({ familyId: 'family_1', userId: 'user123' });
+      expect(refreshCreate.mock.calls[0][0].data.familyId).toBe('family_1');
+      expect(refreshUpdate).toHaveBeenCalledWith({
+        where: { id: 'refresh_id' },
+        data: { replacedById: 'new_refresh_id' },
+      });
+      expect(pair.refreshPlaintext).not.toBe('refresh_valid');
+    });
+
+    it('should rotate a user at the active token cap, replacing the family access token', async () => {
+      const count = prisma.token.count as jest.Mock;
+      // The user's only active token is the family's current access token
+      count.mockImplementation(({ where }) => Promise.resolve(where.OR ? 0 : 1));
+      (getPolicies as jest.Mock).mockResolvedValueOnce([{ name: 'single-session', type: 'max_active_tokens', maxActiveTokens: 1 }]);
+      refreshFindUnique.mockResolvedValue(storedRefreshToken('refresh_valid'));
+      refreshUpdateMany.mockResolvedValue({ count: 1 });
+
+      await expect(refreshTokenPair('refresh_valid', 'default')).resolves.toMatchObject({ token: { familyId: 'family_1' } });
+      expect(count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          userId: 'user123',
+          OR: [{ familyId: null }, { familyId: { not: 'family_1' } }],
+        }),
+      });
+    });
+
+    describe('with a bound refresh token', () => {
+      const keys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const jwk = keys.publicKey.export({ format: 'jwk' });
+      const htu = 'https://tokens.example.com/api/tokens/refresh';
+
+      const proofFor = (privateKey = keys.privateKey, publicJwk = jwk) => ({
+        jwt: signJwt(
+          { alg: 'ES256', typ: 'dpop+jwt', jwk: publicJwk },
+          {
+            jti: `proof-${Math.random()}`,
+            htm: 'POST',
+            htu,
+            iat: Math.floor(Date.now() / 1000),
+            ath: computeAccessTokenHash('refresh_bound'),
+          },
+          privateKey
+        ),
+        htm: 'POST',
+        htu,
+      });
+
+      beforeEach(() => {
+        refreshFindUnique.mockResolvedValue(
+          storedRefreshToken('refresh_bound', { cnfJkt: computeJwkThumbprint(jwk), cnfX5tS256: null })
+        );
+        refreshUpdateMany.mockResolvedValue({ count: 1 });
+      });
+
+      it('should rotate with a proof from the key holder and keep the binding', async () => {
+        await refreshTokenPair('refresh_bound', 'default', undefined, proofFor());
+
+        expect(tokenCreate.mock.calls[0][0].data.cnfJkt).toBe(computeJwkThumbprint(jwk));
+        expect(refreshCreate.mock.calls[0][0].data.cnfJkt).toBe(computeJwkThumbprint(jwk));
+      });
+
+      it('should refuse a missing or foreign proof before claiming the token', async () => {
+        const other = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+        await expect(refreshTokenPair('refresh_bound', 'default')).rejects.toMatchObject({ status: 401 });
+        await expect(
+          refreshTokenPair('refresh_bound', 'default', undefined, proofFor(other.privateKey, other.publicKey.export({ format: 'jwk' })))
+        ).rejects.toMatchObject({ status: 401, message: 'Invalid proof of possession: Proof key does not match the token binding' });
+
+        // A rotated token presented by a thief does not revoke the family either
+        refreshUpdateMany.mockResolvedValue({ count: 0 });
+        await expect(refreshTokenPair('refresh_bound', 'default')).rejects.toMatchObject({ status: 401 });
+
+        expect(refreshUpdateMany).not.toHaveBeenCalled();
+        expect(tokenUpdateMany).not.toHaveBeenCalled();
+        expect(tokenCreate).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      refreshFindUnique.mockResolvedValue(storedRefreshToken('refresh_reused', { rotatedAt: new Date() }));
+      refreshUpdateMany.mockResolvedValue({ count: 0 });
+      (prisma.token.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'access_1', userId: 'user123' }]);
+
+      await expect(refreshTokenPair('refresh_reused', 'default')).rejects.toMatchObject({ status: 401 });
+
+      expect(tokenUpdateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['access_1'] }, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'Refresh token reuse detected' },
+      });
+      expect(refreshUpdateMany).toHaveBeenLastCalledWith({
+        where: { familyId: 'family_1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(tokenCreate).not.toHaveBeenCalled();
+    });
+
+    it('should treat refresh tokens of another tenant as unknown', async () => {
+      refreshFindUnique.mockResolvedValue(storedRefreshToken('refresh_valid'));
+
+      await expect(refreshTokenPair('refresh_valid', 'acme')).rejects.toThrow('Invalid or expired refresh token');
+      expect(refreshUpdateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown refresh tokens', async () => {
+      refreshFindUnique.mockResolvedValue(null);
+
+      await expect(refreshTokenPair('refresh_unknown', 'default')).rejects.toThrow(ApiError);
+      expect(refreshUpdateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired refresh tokens', async () => {
+      refreshFindUnique.mockResolvedValue(
+        storedRefreshToken('refresh_expired', { expiresAt: new Date(Date.now() - 1000) })
+      );
+
+      await expect(refreshTokenPair('refresh_expired', 'default')).rejects.toThrow('Invalid or expired refresh token');
+    });
+
+    it('should reject revoked refresh tokens without rotating them', async () => {
+      refreshFindUnique.mockResolvedValue(storedRefreshToken('refresh_revoked', { revokedAt: new Date() }));
+
+      await expect(refreshTokenPair('refresh_revoked', 'default')).rejects.toThrow(ApiError);
+      expect(refreshUpdateMany).not.toHaveBeenCalled();
+    });
+  });
+});
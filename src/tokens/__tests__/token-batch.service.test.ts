@@ -0,0 +1,230 @@
+import { createTokenBatch, revokeTokenBatch } from '../token-batch.service';
+import { inSavepoint, prisma, type DbClient } from '@/lib/db';
+import { ApiError } from '@/lib/errors';
+import { assertClientMayIssue } from '@/clients/client.service';
+import { checkRateLimit } from '@/rate-limit/rate-limit.service';
+import { createToken, revokeToken } from '@/tokens/token.service';
+import { createTokenPair } from '@/tokens/refresh-token.service';
+import type { AuditContext } from '@/audit/audit.type';
+import type { AuthContext } from '@/lib/auth';
+import type { Client } from '@/clients/client.type';
+
+// Mock Prisma Client; the transaction client is a distinct object so tests can
+// tell which items ran in a transaction
+jest.mock('@/lib/db', () => {
+  const tx = { name: 'tx' };
+  return {
+    prisma: {
+      tx,
+      $transaction: jest.fn((callback) => callback(tx)),
+    },
+    inSavepoint: jest.fn((db, callback, options) => ('$transaction' in db ? db.$transaction(callback, options) : callback(db))),
+  };
+});
+
+jest.mock('@/tokens/token.service', () => ({
+  createToken: jest.fn(),
+  revokeToken: jest.fn(),
+  serializeToken: jest.fn((token, plaintext) => ({ id: token.id, token: plaintext })),
+}));
+
+jest.mock('@/tokens/refresh-token.service', () => ({
+  createTokenPair: jest.fn(),
+  serializeTokenPair: jest.fn((pair) => ({ id: pair.token.id, token: pair.plaintext, refreshToken: pair.refreshPlaintext })),
+}));
+
+jest.mock('@/rate-limit/rate-limit.service', () => ({
+  checkRateLimit: jest.fn(),
+}));
+
+jest.mock('@/clients/client.service', () => ({
+  assertClientMayIssue: jest.fn(),
+}));
+
+const tx = (prisma as unknown as { tx: object }).tx;
+const transaction = prisma.$transaction as jest.Mock;
+const mockCreateToken = createToken as jest.Mock;
+const mockCreateTokenPair = createTokenPair as jest.Mock;
+const mockRevokeToken = revokeToken as jest.Mock;
+const mockCheckRateLimit = checkRateLimit as jest.Mock;
+
+const admin: AuthContext = { type: 'admin', tenantId: 'acme' };
+const audit: AuditContext = { actor: 'admin', clientId: null, ip: '203.0.113.7', userAgent: 'provisioner/1.0', requestId: null };
+
+function item(userId: string) {
+  return { userId, scopes: ['read'], expiresInMinutes: 60 };
+}
+
+describe('Token Batch Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCheckRateLimit.mockResolvedValue({ allowed: true });
+    mockCreateToken.mockImplementation((userId) =>
+      Promise.resolve({ token: { id: `token_${userId}` }, plaintext: `secret_${userId}` })
+    );
+    mockRevokeToken.mockImplementation((id) => Promise.resolve({ id }));
+  });
+
+  describe('createTokenBatch', () => {
+    it('should create every item in one transaction in atomic mode', async () => {
+      const batch = await createTokenBatch([item('user1'), item('user2')], 'atomic', admin, audit);
+
+      expect(batch).toEqual({
+        mode: 'atomic',
+        succeeded: 2,
+        failed: 0,
+        items: [
+          { index: 0, status: 201, result: { id: 'token_user1', token: 'secret_user1' } },
+          { index: 1, status: 201, result: { id: 'token_user2', token: 'secret_user2' } },
+        ],
+      });
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(transaction).toHaveBeenCalledWith(expect.any(Function), { timeout: 30000 });
+      expect(mockCreateToken).toHaveBeenCalledWith(
+        'user1',
+        ['read'],
+        60,
+        expect.objectContaining({ tenantId: 'acme', clientId: null, audit }),
+        tx
+      );
+    });
+
+    it('should not start an atomic batch with an invalid item', async () => {
+      const batch = await createTokenBatch([item('user1'), { userId: 'user2', scopes: [] }], 'atomic', admin, audit);
+
+      expect(batch.succeeded).toBe(0);
+      expect(batch.items).toEqual([
+        { index: 0, status: 424, error: 'Not applied because item 1 failed' },
+        { index: 1, status: 400, error: 'Validation failed', details: expect.any(Array) },
+      ]);
+      expect(transaction).not.toHaveBeenCalled();
+      expect(mockCheckRateLimit).not.toHaveBeenCalled();
+    });
+
+    it('should roll back an atomic batch when an item fails', async () => {
+      mockCreateToken
+        .mockResolvedValueOnce({ token: { id: 'token_user1' }, plaintext: 'secret_user1' })
+        .mockRejectedValueOnce(new ApiError(403, 'Scope not allowed for tenant', { scopes: ['admin'] }));
+
+      const batch = await createTokenBatch([item('user1'), item('user2'), item('user3')], 'atomic', admin, audit);
+
+      expect(batch).toEqual({
+        mode: 'atomic',
+        succeeded: 0,
+        failed: 3,
+        items: [
+          { index: 0, status: 424, error: 'Not applied because item 1 failed' },
+          { index: 1, status: 403, error: 'Scope not allowed for tenant', details: { scopes: ['admin'] } },
+          { index: 2, status: 424, error: 'Not applied because item 1 failed' },
+        ],
+      });
+      expect(mockCreateToken).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail the whole atomic batch on unexpected errors', async () => {
+      const failure = new Error('Database unavailable');
+      mockCreateToken.mockRejectedValueOnce(failure);
+
+      await expect(createTokenBatch([item('user1')], 'atomic', admin, audit)).rejects.toBe(failure);
+    });
+
+    it('should run in savepoints of the caller transaction when given one', async () => {
+      await createTokenBatch([item('user1')], 'atomic', admin, audit, tx as DbClient);
+      await createTokenBatch([item('user2'), item('user3')], 'partial', admin, audit, tx as DbClient);
+
+      expect(transaction).not.toHaveBeenCalled();
+      // One savepoint around the atomic items, one per partial item
+      expect(inSavepoint).toHaveBeenCalledTimes(3);
+      expect(inSavepoint).toHaveBeenCalledWith(tx, expect.any(Function), { timeout: 30000 });
+      expect(mockCreateToken).toHaveBeenCalledWith('user1', ['read'], 60, expect.any(Object), tx);
+      expect(mockCreateToken).toHaveBeenCalledWith('user2', ['read'], 60, expect.any(Object), tx);
+    });
+
+    it('should report each item on its own in partial mode', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockCheckRateLimit.mockResolvedValueOnce({ allowed: true }).mockResolvedValueOnce({ allowed: false, retryAfterSeconds: 6 });
+      mockCreateToken
+        .mockResolvedValueOnce({ token: { id: 'token_user1' }, plaintext: 'secret_user1' })
+        .mockRejectedValueOnce(new Error('Database unavailable'));
+
+      const batch = await createTokenBatch(
+        [item('user1'), item('user2'), { userId: '' }, item('user3')],
+        'partial',
+        admin,
+        audit
+      );
+
+      expect(batch).toEqual({
+        mode: 'partial',
+        succeeded: 1,
+        failed: 3,
+        items: [
+          { index: 0, status: 201, result: { id: 'token_user1', token: 'secret_user1' } },
+          { index: 1, status: 429, error: 'Too many requests', details: { retryAfterSeconds: 6 } },
+          { index: 2, status: 400, error: 'Validation failed', details: expect.any(Array) },
+          { index: 3, status: 500, error: 'Internal server error' },
+        ],
+      });
+      // One transaction per valid item
+      expect(transaction).toHaveBeenCalledTimes(3);
+      expect(mockCreateToken).toHaveBeenCalledWith('user1', ['read'], 60, expect.any(Object), tx);
+      expect(consoleError).toHaveBeenCalled();
+
+      consoleError.mockRestore();
+    });
+
+    it('should issue refresh pairs and enforce client limits per item', async () => {
+      const client = { id: 'client_1', tenantId: 'acme' } as Client;
+      mockCreateTokenPair.mockResolvedValue({ token: { id: 'token_user1' }, plaintext: 'secret', refreshPlaintext: 'refresh' });
+
+      const batch = await createTokenBatch(
+        [{ ...item('user1'), refreshExpiresInMinutes: 1440 }],
+        'partial',
+        { type: 'client', client },
+        audit
+      );
+
+      expect(batch.items[0]).toEqual({
+        index: 0,
+        status: 201,
+        result: { id: 'token_user1', token: 'secret', refreshToken: 'refresh' },
+      });
+      expect(assertClientMayIssue).toHaveBeenCalledWith(client, ['read'], [60, 1440]);
+      expect(mockCreateTokenPair).toHaveBeenCalledWith(
+        'user1',
+        ['read'],
+        60,
+        1440,
+        expect.objectContaining({ clientId: 'client_1', tenantId: 'acme' }),
+        tx
+      );
+    });
+  });
+
+  describe('revokeTokenBatch', () => {
+    it('should revoke every item in one transaction in atomic mode', async () => {
+      const batch = await revokeTokenBatch([{ id: 'token_1', reason: 'Offboarding' }, { id: 'token_2' }], 'atomic', 'acme', audit);
+
+      expect(batch.succeeded).toBe(2);
+      expect(mockRevokeToken).toHaveBeenCalledWith('token_1', 'acme', 'Offboarding', audit, tx);
+      expect(mockRevokeToken).toHaveBeenCalledWith('token_2', 'acme', undefined, audit, tx);
+    });
+
+    it('should report unknown tokens without hiding the others in partial mode', async () => {
+      mockRevokeToken.mockResolvedValueOnce(null);
+
+      const batch = await revokeTokenBatch([{ id: 'missing' }, { id: 'token_2' }, { reason: 'No id' }], 'partial', 'acme', audit);
+
+      expect(batch).toEqual({
+        mode: 'partial',
+        succeeded: 1,
+        failed: 2,
+        items: [
+          { index: 0, status: 404, error: 'Token not found' },
+          { index: 1, status: 200, result: { id: 'token_2' } },
+          { index: 2, status: 400, error: 'Validation failed', details: expect.any(Array) },
+        ],
+      });
+    });
+  });
+});
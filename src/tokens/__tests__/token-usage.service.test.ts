@@ -0,0 +1,79 @@
+import { mergeTokenUsage, TokenUsageBuffer } from '../token-usage.service';
+import { prisma } from '@/lib/db';
+
+// Mock Prisma Client to avoid database dependency in unit tests;
+// raw statements resolve to their bound values so updates can be inspected
+jest.mock('@/lib/db', () => ({
+  prisma: {
+    $executeRaw: jest.fn((strings: TemplateStringsArray, ...values: unknown[]) => ({ sql: strings.join('?'), values })),
+    $transaction: jest.fn(),
+  },
+}));
+
+const transaction = prisma.$transaction as jest.Mock;
+const start = new Date('2025-01-01T10:00:00Z');
+
+function secondsLater(seconds: number): Date {
+  return new Date(start.getTime() + seconds * 1000);
+}
+
+describe('Token Usage Service', () => {
+  beforeEach(() => {
+    transaction.mockReset();
+    transaction.mockResolvedValue([]);
+  });
+
+  describe('mergeTokenUsage', () => {
+    it('should add counts and keep the latest use', () => {
+      const earlier = { useCount: 2, lastUsedAt: start, lastUsedIp: '203.0.113.1' };
+      const later = { useCount: 1, lastUsedAt: secondsLater(5), lastUsedIp: '203.0.113.2' };
+
+      expect(mergeTokenUsage(earlier, later)).toEqual({ useCount: 3, lastUsedAt: later.lastUsedAt, lastUsedIp: '203.0.113.2' });
+      expect(mergeTokenUsage(later, earlier)).toEqual({ useCount: 3, lastUsedAt: later.lastUsedAt, lastUsedIp: '203.0.113.2' });
+    });
+  });
+
+  describe('TokenUsageBuffer', () => {
+    it('should coalesce uses into one update per token', async () => {
+      const buffer = new TokenUsageBuffer();
+      buffer.record('token_a', '203.0.113.1', start);
+      buffer.record('token_a', '203.0.113.2', secondsLater(1));
+      buffer.record('token_b', null, secondsLater(2));
+
+      await expect(buffer.flush()).resolves.toBe(2);
+
+      const updates = transaction.mock.calls[0][0];
+      expect(updates).toHaveLength(2);
+      expect(updates[0].values).toEqual([2, secondsLater(1), '203.0.113.2', secondsLater(1), 'token_a']);
+      expect(updates[1].values).toEqual([1, secondsLater(2), null, secondsLater(2), 'token_b']);
+      expect(buffer.size).toBe(0);
+    });
+
+    it('should not write when nothing was used', async () => {
+      await expect(new TokenUsageBuffer().flush()).resolves.toBe(0);
+      expect(transaction).not.toHaveBeenCalled();
+    });
+
+    it('should keep uses for the next flush when writing fails', async () => {
+      const buffer = new TokenUsageBuffer();
+      buffer.record('token_a', '203.0.113.1', start);
+      transaction.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(buffer.flush()).rejects.toThrow('connection lost');
+      buffer.record('token_a', '203.0.113.2', secondsLater(1));
+      await buffer.flush();
+
+      expect(transaction.mock.calls[1][0][0].values).toEqual([2, secondsLater(1), '203.0.113.2', secondsLater(1), 'token_a']);
+    });
+
+    it('should flush early once too many tokens are pending', () => {
+      const buffer = new TokenUsageBuffer(2);
+      buffer.record('token_a', null, start);
+      expect(transaction).not.toHaveBeenCalled();
+
+      buffer.record('token_b', null, start);
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(buffer.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { NextRequest } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { createTokenBatchController, getTokenController, revokeTokenController } from '../token.controller';
+import { createTokenBatch } from '../token-batch.service';
+import { createToken } from '../token.service';
+import { prisma } from '@/lib/db';
+import { ApiError } from '@/lib/errors';
+
+// Mock Prisma Client; like Postgres, an interactive transaction rolls back when
+// its callback throws, and refuses further statements after a failed one until
+// a savepoint is rolled back to. `rows` stands in for the tokens it wrote.
+jest.mock('@/lib/db', () => {
+  const idempotencyKey = {
+    create: jest.fn(),
+    update: jest.fn(),
+    findUnique: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+  const token = {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  };
+  const tx = {
+    rows: [] as string[],
+    aborted: false,
+    savepoints: [] as number[],
+    idempotencyKey,
+    token,
+    $executeRaw: jest.fn((sql: TemplateStringsArray) => {
+      const statement = sql.join('');
+      if (statement.startsWith('SAVEPOINT')) {
+        tx.savepoints.push(tx.rows.length);
+      } else if (statement.startsWith('RELEASE')) {
+        tx.savepoints.pop();
+      } else {
+        tx.rows.length = tx.savepoints.pop() ?? 0;
+        tx.aborted = false;
+      }
+      return Promise.resolve(0);
+    }),
+  };
+  return {
+    prisma: {
+      tx,
+      idempotencyKey,
+      token,
+      $transaction: jest.fn(async (callback) => {
+        try {
+          return await callback(tx);
+        } catch (error) {
+          tx.rows = [];
+          throw error;
+        }
+      }),
+    },
+    inTransaction: jest.requireActual('@/lib/db').inTransaction,
+    inSavepoint: jest.requireActual('@/lib/db').inSavepoint,
+  };
+});
+
+jest.mock('@/lib/config', () => ({
+  getConfig: () => ({
+    apiKey: 'admin-key-for-tests',
+    authDisabled: false,
+    idempotency: { retentionHours: 24 },
+  }),
+}));
+
+jest.mock('@/tokens/token-batch.service', () => {
+  const actual = jest.requireActual('@/tokens/token-batch.service');
+  return { ...actual, createTokenBatch: jest.fn(actual.createTokenBatch) };
+});
+
+jest.mock('@/tokens/token.service', () => ({
+  ...jest.requireActual('@/tokens/token.service'),
+  createToken: jest.fn(),
+  serializeToken: jest.fn((token, plaintext) => ({ id: token.id, token: plaintext })),
+}));
+
+jest.mock('@/rate-limit/rate-limit.service', () => ({
+  checkRateLimit: jest.fn(() => Promise.resolve({ allowed: true })),
+}));
+
+type FakeTransaction = { rows: string[]; aborted: boolean; savepoints: number[] };
+
+const tx = (prisma as unknown as { tx: FakeTransaction }).tx;
+const create = prisma.idempotencyKey.create as jest.Mock;
+const update = prisma.idempotencyKey.update as jest.Mock;
+const findUnique = prisma.idempotencyKey.findUnique as jest.Mock;
+const mockCreateTokenBatch = createTokenBatch as jest.Mock;
+const mockCreateToken = createToken as jest.Mock;
+const findToken = prisma.token.findUnique as jest.Mock;
+
+// Stored token of the default tenant; lookups with another tenant find nothing
+const storedToken = { id: 'token_1', tenantId: 'default', userId: 'user123', revokedAt: null };
+
+const batch = {
+  mode: 'atomic',
+  succeeded: 1,
+  failed: 0,
+  items: [{ index: 0, status: 201, result: { id: 'token_1', token: 'token_secret' } }],
+};
+
+function tokenRequest(method: string, tenantId: string): NextRequest {
+  return new NextRequest('http://localhost:3000/api/tokens/token_1', {
+    method,
+    headers: { 'X-API-Key': 'admin-key-for-tests', 'X-Tenant-Id': tenantId },
+  });
+}
+
+function batchRequest(mode: 'atomic' | 'partial', userIds: string[] = ['user123']): NextRequest {
+  return new NextRequest('http://localhost:3000/api/tokens/batch', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-API-Key': 'admin-key-for-tests',
+      'Idempotency-Key': '7c0f6a52-3d1e-4b8a-9f0e-2a6d5c4b3a21',
+    },
+    body: JSON.stringify({
+      mode,
+      items: userIds.map((userId) => ({ userId, scopes: ['read'], expiresInMinutes: 60 })),
+    }),
+  });
+}
+
+describe('Token Controller', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(tx, { rows: [], aborted: false, savepoints: [] });
+    mockCreateTokenBatch.mockImplementation(jest.requireActual('@/tokens/token-batch.service').createTokenBatch);
+    (prisma.idempotencyKey.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+    create.mockImplementation(({ data }) => Promise.resolve({ id: 'idem_1', ...data }));
+    update.mockImplementation(() =>
+      tx.aborted ? Promise.reject(new Error('current transaction is aborted')) : Promise.resolve({})
+    );
+    mockCreateToken.mockImplementation((userId: string, _scopes, _expiresInMinutes, _options, db: FakeTransaction) => {
+      if (db.aborted) {
+        return Promise.reject(new Error('current transaction is aborted'));
+      }
+
+      db.rows.push(userId);
+      return Promise.resolve({ token: { id: `token_${userId}` }, plaintext: `secret_${userId}` });
+    });
+    findToken.mockImplementation(({ where }) =>
+      Promise.resolve(where.id === storedToken.id && where.tenantId === storedToken.tenantId ? storedToken : null)
+    );
+  });
+
+  describe('getTokenController', () => {
+    it('should return the token to its own tenant', async () => {
+      const response = await getTokenController(tokenRequest('GET', 'default'), 'token_1');
+
+      expect(response.status).toBe(200);
+    });
+
+    it('should report a token of another tenant as not found', async () => {
+      const response = await getTokenController(tokenRequest('GET', 'acme'), 'token_1');
+
+      expect(response.status).toBe(404);
+      await expect(response.json()).resolves.toEqual({ error: 'Token not found' });
+    });
+  });
+
+  describe('revokeTokenController', () => {
+    it('should report a token of another tenant as not found without revoking it', async () => {
+      const response = await revokeTokenController(tokenRequest('DELETE', 'acme'), 'token_1');
+
+      expect(response.status).toBe(404);
+      expect(prisma.token.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createTokenBatchController', () => {
+    it('should create the batch once per Idempotency-Key and replay the response', async () => {
+      mockCreateTokenBatch.mockResolvedValue(batch);
+      create
+        .mockImplementationOnce(({ data }) => Promise.resolve({ id: 'idem_1', ...data }))
+        .mockRejectedValueOnce(
+          new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '7.0.1' })
+        );
+      findUnique.mockImplementation(() => Promise.resolve({ ...create.mock.calls[0][0].data, ...update.mock.calls[0][0].data }));
+
+      const first = await createTokenBatchController(batchRequest('atomic'));
+      const retry = await createTokenBatchController(batchRequest('atomic'));
+
+      expect(first.status).toBe(201);
+      expect(first.headers.get('Idempotent-Replayed')).toBeNull();
+      await expect(first.json()).resolves.toEqual(batch);
+
+      expect(retry.status).toBe(201);
+      expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+      await expect(retry.json()).resolves.toEqual(batch);
+
+      // The batch joins the transaction that claims the key
+      expect(mockCreateTokenBatch).toHaveBeenCalledTimes(1);
+      expect(mockCreateTokenBatch).toHaveBeenCalledWith(
+        [{ userId: 'user123', scopes: ['read'], expiresInMinutes: 60 }],
+        'atomic',
+        { type: 'admin', tenantId: 'default' },
+        expect.any(Object),
+        tx
+      );
+    });
+
+    it('should persist nothing of a failed atomic batch while storing its response', async () => {
+      mockCreateToken.mockImplementationOnce((userId: string, _scopes, _expiresInMinutes, _options, db: FakeTransaction) => {
+        db.rows.push(userId);
+        return Promise.resolve({ token: { id: `token_${userId}` }, plaintext: `secret_${userId}` });
+      });
+      mockCreateToken.mockRejectedValueOnce(new ApiError(403, 'Scope not allowed for tenant'));
+
+      const response = await createTokenBatchController(batchRequest('atomic', ['user1', 'user2', 'user3']));
+
+      expect(response.status).toBe(207);
+      await expect(response.json()).resolves.toMatchObject({
+        succeeded: 0,
+        items: [{ status: 424 }, { status: 403 }, { status: 424 }],
+      });
+      // The token created before the failing item is rolled back with it
+      expect(mockCreateToken).toHaveBeenCalledTimes(2);
+      expect(tx.rows).toEqual([]);
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ statusCode: 207 }) }));
+    });
+
+    it('should keep applying partial items after one fails with a database error', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockCreateToken
+        .mockImplementationOnce((userId: string, _scopes, _expiresInMinutes, _options, db: FakeTransaction) => {
+          db.rows.push(userId);
+          return Promise.resolve({ token: { id: `token_${userId}` }, plaintext: `secret_${userId}` });
+        })
+        .mockImplementationOnce((userId: string, _scopes, _expiresInMinutes, _options, db: FakeTransaction) => {
+          db.rows.push(userId);
+          db.aborted = true;
+          return Promise.reject(
+            new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '7.0.1' })
+          );
+        });
+
+      const response = await createTokenBatchController(batchRequest('partial', ['user1', 'user2', 'user3']));
+
+      expect(response.status).toBe(207);
+      await expect(response.json()).resolves.toMatchObject({
+        succeeded: 2,
+        items: [{ status: 201 }, { status: 500 }, { status: 201 }],
+      });
+      expect(tx.rows).toEqual(['user1', 'user3']);
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ statusCode: 207 }) }));
+
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -3,19 +3,106 @@ import {
   calculateExpiryDate,
   isTokenExpired,
   serializeToken,
+  createToken,
+  hashToken,
+  getTokenPrefix,
+  maskToken,
+  tokenHashesMatch,
+  introspectToken,
+  listTokensForUser,
+  getTokenStateFilter,
+  serializeTokenList,
+  toEpochSeconds,
+  isTokenRevoked,
+  revokeToken,
+  revokeTokensForUser,
+  revokeTokenFamily,
+  updateToken,
+  extendToken,
+  exchangeToken,
+  calculateSlidingExpiry,
+  getUnusedTokenFilter,
+  getToken,
 } from '../token.service';
+import { getTokenUsageBuffer } from '../token-usage.service';
+import { computeAccessTokenHash } from '../token-binding.service';
+import { generateKeyPairSync } from 'crypto';
+import { inTransaction, prisma } from '@/lib/db';
+import { ApiError } from '@/lib/errors';
+import { computeJwkThumbprint, decodeJwt, signJwt } from '@/lib/jwt';
+import { signWithActiveKey } from '@/keys/key.service';
+import { getPolicies } from '@/policies/policy.service';
+import type { AuditContext } from '@/audit/audit.type';
 import type { Token } from '@/tokens/token.type';
 
-// Mock Prisma Client to avoid database dependency in unit tests
-jest.mock('@/lib/db', () => ({
-  prisma: {
+// Mock Prisma Client to avoid database dependency in unit tests;
+// interactive transactions run against the same mock
+jest.mock('@/lib/db', () => {
+  const client = {
     token: {
+      count: jest.fn(),
       create: jest.fn(),
       findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
     },
-  },
+    refreshToken: {
+      updateMany: jest.fn(),
+    },
+    tenant: {
+      findUnique: jest.fn(({ where }) => Promise.resolve({ id: where.id, allowedScopes: [], maxTokenLifetimeMinutes: null })),
+    },
+    scope: {
+      findMany: jest.fn().mockResolvedValue([
+        { name: 'read', parentName: 'write' },
+        { name: 'write', parentName: null },
+        { name: 'repo:read', parentName: null },
+      ]),
+    },
+    tokenEvent: {
+      createMany: jest.fn(),
+    },
+    tokenExpiryReminder: {
+      deleteMany: jest.fn(),
+    },
+    webhookSubscription: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    webhookDelivery: {
+      createMany: jest.fn(),
+    },
+    possessionProof: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  client.$transaction.mockImplementation((callback) => callback(client));
+  return {
+    prisma: client,
+    inTransaction: jest.fn((db, callback) => callback(db)),
+  };
+});
+
+// Sign with a locally generated key instead of the database-backed key store
+jest.mock('@/keys/key.service', () => ({
+  signWithActiveKey: jest.fn(),
 }));
 
+// Run without a policy file
+jest.mock('@/policies/policy.service', () => ({
+  ...jest.requireActual('@/policies/policy.service'),
+  getPolicies: jest.fn().mockResolvedValue([]),
+}));
+
+const audit: AuditContext = {
+  actor: 'client:client_1',
+  clientId: 'client_1',
+  ip: '203.0.113.7',
+  userAgent: 'curl/8.0',
+  requestId: 'req_1',
+};
+
 describe('Token Service', () => {
   describe('generateTokenString', () => {
     it('should generate a token with the correct prefix', () => {
@@ -30,6 +117,387 @@ describe('Token Service', () => {
     });
   });
 
+  describe('hashToken', () => {
+    it('should produce a SHA-256 hex digest', () => {
+      expect(hashToken('token_abc')).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should be deterministic and not contain the secret', () => {
+      const token = generateTokenString();
+      expect(hashToken(token)).toBe(hashToken(token));
+      expect(hashToken(token)).not.toContain(token);
+    });
+  });
+
+  describe('getTokenPrefix and maskToken', () => {
+    it('should keep only the identifiable prefix', () => {
+      const prefix = getTokenPrefix('token_1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d');
+      expect(prefix).toBe('token_1a2b3c4d');
+      expect(maskToken(prefix)).toBe('token_1a2b3c4d...');
+    });
+
+    it('should keep the type tag of other token kinds', () => {
+      expect(getTokenPrefix('refresh_1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d')).toBe('refresh_1a2b3c4d');
+    });
+  });
+
+  describe('tokenHashesMatch', () => {
+    it('should match identical digests', () => {
+      expect(tokenHashesMatch(hashToken('a'), hashToken('a'))).toBe(true);
+    });
+
+    it('should reject different digests', () => {
+      expect(tokenHashesMatch(hashToken('a'), hashToken('b'))).toBe(false);
+    });
+
+    it('should reject digests of different lengths', () => {
+      expect(tokenHashesMatch(hashToken('a'), 'abcd')).toBe(false);
+    });
+  });
+
+  describe('createToken', () => {
+    it('should persist only the digest and prefix and return the plaintext once', async () => {
+      const create = prisma.token.create as jest.Mock;
+      create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'test_id', revokedAt: null, revokedReason: null, ...data })
+      );
+
+      const { token, plaintext } = await createToken('user123', ['read'], 60);
+      const { data } = create.mock.calls[0][0];
+
+      expect(plaintext).toMatch(/^token_/);
+      expect(data).not.toHaveProperty('token');
+      expect(data.tokenHash).toBe(hashToken(plaintext));
+      expect(data.tokenPrefix).toBe(getTokenPrefix(plaintext));
+      expect(serializeToken(token, plaintext).token).toBe(plaintext);
+      expect(serializeToken(token).token).toBe(maskToken(token.tokenPrefix));
+    });
+
+    it('should record the issuing client', async () => {
+      const create = prisma.token.create as jest.Mock;
+      create.mockReset();
+      create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'test_id', revokedAt: null, revokedReason: null, ...data })
+      );
+
+      const { token } = await createToken('user123', ['read'], 60, { clientId: 'client_1' });
+
+      expect(create.mock.calls[0][0].data.clientId).toBe('client_1');
+      expect(serializeToken(token).clientId).toBe('client_1');
+    });
+
+    it('should start sliding tokens with the idle timeout and cap them at the full lifetime', async () => {
+      const create = prisma.token.create as jest.Mock;
+      create.mockReset();
+      create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'test_id', revokedAt: null, revokedReason: null, ...data })
+      );
+
+      await createToken('user123', ['read'], 24 * 60, { idleTimeoutMinutes: 30 });
+      const { data } = create.mock.calls[0][0];
+
+      expect(data.idleTimeoutMinutes).toBe(30);
+      expect(data.expiresAt.getTime() - data.createdAt.getTime()).toBeCloseTo(30 * 60 * 1000, -3);
+      expect(data.maxExpiresAt.getTime() - data.createdAt.getTime()).toBeCloseTo(24 * 60 * 60 * 1000, -3);
+    });
+
+    it('should store the key a token is bound to', async () => {
+      const create = prisma.token.create as jest.Mock;
+      create.mockReset();
+      create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'test_id', revokedAt: null, revokedReason: null, ...data })
+      );
+
+      const { token } = await createToken('user123', ['read'], 60, { cnf: { jkt: 'key-thumbprint' } });
+
+      expect(create.mock.calls[0][0].data).toMatchObject({ cnfJkt: 'key-thumbprint', cnfX5tS256: null });
+      expect(serializeToken(token).cnf).toEqual({ jkt: 'key-thumbprint' });
+    });
+
+    it('should record a create event in the same transaction', async () => {
+      const create = prisma.token.create as jest.Mock;
+      const createMany = prisma.tokenEvent.createMany as jest.Mock;
+      create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'test_id', revokedAt: null, revokedReason: null, ...data })
+      );
+      createMany.mockClear();
+
+      await createToken('user123', ['read'], 60, { audit });
+
+      expect(inTransaction).toHaveBeenCalledWith(prisma, expect.any(Function));
+      expect(createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            type: 'create',
+            tokenId: 'test_id',
+            userId: 'user123',
+            actor: 'client:client_1',
+            ip: '203.0.113.7',
+            userAgent: 'curl/8.0',
+            details: { scopes: ['read'], expiresAt: expect.any(String), format: 'opaque' },
+          }),
+        ],
+      });
+    });
+
+    it('should queue a token.created webhook in the same transaction', async () => {
+      const create = prisma.token.create as jest.Mock;
+      const findSubscriptions = prisma.webhookSubscription.findMany as jest.Mock;
+      const createDeliveries = prisma.webhookDelivery.createMany as jest.Mock;
+      create.mockImplementation(({ data }) =>
+        Promise.resolve({ id: 'test_id', revokedAt: null, revokedReason: null, ...data })
+      );
+      findSubscriptions.mockResolvedValueOnce([{ id: 'hook_1', tenantId: 'default' }]);
+      createDeliveries.mockClear();
+
+      await createToken('user123', ['read'], 60, { name: 'CI deploy key' });
+
+      expect(findSubscriptions).toHaveBeenLastCalledWith({
+        where: { enabled: true, eventTypes: { has: 'token.created' }, tenantId: { in: ['default'] } },
+        select: { id: true, tenantId: true },
+      });
+      expect(createDeliveries.mock.calls[0][0].data[0]).toMatchObject({
+        subscriptionId: 'hook_1',
+        eventType: 'token.created',
+        payload: {
+          type: 'token.created',
+          data: { tokenId: 'test_id', userId: 'user123', name: 'CI deploy key', scopes: ['read'] },
+        },
+      });
+    });
+
+    describe('with jwt format', () => {
+      const create = prisma.token.create as jest.Mock;
+
+      beforeEach(() => {
+        create.mockReset();
+        create.mockImplementation(({ data }) =>
+          Promise.resolve({ id: 'test_id', revokedAt: null, revokedReason: null, ...data })
+        );
+      });
+
+      it('should issue a JWT mirroring the stored token and record its jti', async () => {
+        const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+        (signWithActiveKey as jest.Mock).mockImplementation((payload) =>
+          Promise.resolve(signJwt({ alg: 'ES256', typ: 'JWT', kid: 'test-kid' }, payload, privateKey))
+        );
+
+        const { token, plaintext } = await createToken('user123', ['read', 'write'], 60, { format: 'jwt' });
+        const { header, payload } = decodeJwt(plaintext);
+
+        expect(header).toEqual({ alg: 'ES256', typ: 'JWT', kid: 'test-kid' });
+        expect(payload).toEqual({
+          sub: 'user123',
+          scope: 'read write',
+          iat: toEpochSeconds(token.createdAt),
+          exp: toEpochSeconds(token.expiresAt),
+          jti: token.jti,
+        });
+        expect(token.format).toBe('jwt');
+        expect(token.tokenHash).toBe(hashToken(plaintext));
+        expect(token.tokenPrefix).toBe(`jwt_${token.jti?.slice(0, 8)}`);
+      });
+
+      it('should refuse JWTs when no signing key is configured', async () => {
+        (signWithActiveKey as jest.Mock).mockRejectedValue(
+          new ApiError(503, 'JWT token format is not enabled on this server')
+        );
+
+        await expect(createToken('user123', ['read'], 60, { format: 'jwt' })).rejects.toMatchObject({ status: 503 });
+        expect(create).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('createToken scope validation', () => {
+    it('should reject scopes missing from the catalogue', async () => {
+      const create = prisma.token.create as jest.Mock;
+      create.mockClear();
+
+      await expect(createToken('user123', ['read', 'raed'], 60)).rejects.toMatchObject({
+        status: 400,
+        details: { unknownScopes: ['raed'] },
+      });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should store wildcards as the registered scopes they match', async () => {
+      const create = prisma.token.create as jest.Mock;
+      create.mockImplementation(({ data }) => Promise.resolve({ id: 'test_id', ...data }));
+
+      const { token } = await createToken('user123', ['repo:*', 'read'], 60);
+
+      expect(token.scopes).toEqual(['repo:read', 'read']);
+    });
+
+    it('should not grant scopes registered after issuance to wildcard tokens', async () => {
+      const create = prisma.token.create as jest.Mock;
+      create.mockImplementation(({ data }) => Promise.resolve({ id: 'test_id', ...data }));
+      const { token } = await createToken('user123', ['repo:*'], 60);
+
+      (prisma.token.findUnique as jest.Mock).mockResolvedValueOnce({ ...token, tokenHash: hashToken('token_parent'), revokedAt: null });
+      (prisma.scope.findMany as jest.Mock).mockResolvedValueOnce([
+        { name: 'repo:read', parentName: null },
+        { name: 'repo:admin', parentName: null },
+      ]);
+
+      await expect(exchangeToken('token_parent', 'default', ['repo:admin'], 10)).rejects.toMatchObject({ status: 403 });
+    });
+  });
+
+  describe('createToken tenant policy', () => {
+    const create = prisma.token.create as jest.Mock;
+    const findTenant = prisma.tenant.findUnique as jest.Mock;
+    const tenant = { id: 'acme', allowedScopes: ['write'], maxTokenLifetimeMinutes: 120 };
+
+    beforeEach(() => {
+      create.mockReset();
+      create.mockImplementation(({ data }) => Promise.resolve({ id: 'test_id', ...data }));
+    });
+
+    it('should store tokens in the default tenant unless another is given', async () => {
+      await createToken('user123', ['read'], 60);
+      expect(create.mock.calls[0][0].data.tenantId).toBe('default');
+
+      findTenant.mockResolvedValueOnce(tenant);
+      await createToken('user123', ['read'], 60, { tenantId: 'acme' });
+      expect(create.mock.calls[1][0].data.tenantId).toBe('acme');
+      expect(prisma.tokenEvent.createMany).toHaveBeenLastCalledWith({
+        data: [expect.objectContaining({ type: 'create', tenantId: 'acme' })],
+      });
+    });
+
+    it('should refuse scopes outside the tenant allowlist', async () => {
+      findTenant.mockResolvedValueOnce(tenant);
+
+      await expect(createToken('user123', ['repo:read'], 60, { tenantId: 'acme' })).rejects.toMatchObject({
+        status: 403,
+        details: { allowedScopes: ['write'] },
+      });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse lifetimes beyond the tenant maximum', async () => {
+      findTenant.mockResolvedValueOnce(tenant);
+
+      await expect(createToken('user123', ['read'], 121, { tenantId: 'acme' })).rejects.toMatchObject({
+        status: 403,
+        message: 'Token lifetime cannot exceed 120 minutes for this tenant',
+      });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse unknown tenants', async () => {
+      findTenant.mockResolvedValueOnce(null);
+
+      await expect(createToken('user123', ['read'], 60, { tenantId: 'missing' })).rejects.toMatchObject({
+        status: 404,
+        message: 'Tenant not found',
+      });
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createToken policies', () => {
+    const create = prisma.token.create as jest.Mock;
+    const count = prisma.token.count as jest.Mock;
+
+    beforeEach(() => {
+      create.mockReset();
+      count.mockReset();
+      create.mockImplementation(({ data }) => Promise.resolve({ id: 'test_id', ...data }));
+    });
+
+    it('should refuse tokens breaking a policy with an error naming it', async () => {
+      (getPolicies as jest.Mock).mockResolvedValueOnce([
+        { name: 'write-requires-repo-read', type: 'scope_requires', scope: 'write', requiredScopes: ['repo:read'] },
+      ]);
+
+      await expect(createToken('user123', ['write'], 60)).rejects.toMatchObject({
+        status: 422,
+        message: 'Token violates policy "write-requires-repo-read": scope "write" requires "repo:read"',
+        details: { policy: 'write-requires-repo-read' },
+      });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should count the user active tokens in the tenant for active token caps', async () => {
+      (getPolicies as jest.Mock).mockResolvedValue([{ name: 'token-cap', type: 'max_active_tokens', maxActiveTokens: 2 }]);
+      count.mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+      await expect(createToken('user123', ['read'], 60)).resolves.toBeDefined();
+      await expect(createToken('user123', ['read'], 60)).rejects.toMatchObject({ status: 403 });
+
+      expect(count).toHaveBeenCalledWith({
+        where: { tenantId: 'default', userId: 'user123', revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+      });
+      (getPolicies as jest.Mock).mockResolvedValue([]);
+    });
+  });
+
+  describe('tenant isolation', () => {
+    const findUnique = prisma.token.findUnique as jest.Mock;
+    const update = prisma.token.update as jest.Mock;
+    const stored = {
+      id: 'acme_token',
+      userId: 'user123',
+      format: 'opaque',
+      scopes: ['write'],
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      idleTimeoutMinutes: null,
+      maxExpiresAt: null,
+      revokedAt: null,
+      tenantId: 'acme',
+    };
+
+    beforeEach(() => {
+      findUnique.mockReset();
+      update.mockReset();
+      // Behave like the database: the tenant is part of the lookup
+      findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(where.id === stored.id && where.tenantId === stored.tenantId ? stored : null)
+      );
+      update.mockImplementation(({ data }) => Promise.resolve({ ...stored, ...data }));
+    });
+
+    it('should find tokens of the caller tenant', async () => {
+      await expect(getToken('acme_token', 'acme')).resolves.toBe(stored);
+      expect(findUnique).toHaveBeenCalledWith({ where: { id: 'acme_token', tenantId: 'acme' } });
+    });
+
+    it('should report tokens of another tenant as missing, which the API answers with 404', async () => {
+      await expect(getToken('acme_token', 'globex')).resolves.toBeNull();
+      await expect(updateToken('acme_token', 'globex', { name: 'hijacked' })).resolves.toBeNull();
+      await expect(extendToken('acme_token', 'globex', 120)).resolves.toBeNull();
+      await expect(revokeToken('acme_token', 'globex', 'hijacked')).resolves.toBeNull();
+
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should only list and revoke the user tokens of the caller tenant', async () => {
+      const findMany = prisma.token.findMany as jest.Mock;
+      findMany.mockReset();
+      findMany.mockResolvedValue([]);
+      (prisma.token.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await listTokensForUser({ userId: 'user123' }, 'globex');
+      await revokeTokensForUser('user123', 'globex');
+
+      expect(findMany.mock.calls[0][0].where.tenantId).toBe('globex');
+      expect(findMany.mock.calls[1][0].where).toEqual({ tenantId: 'globex', userId: 'user123', revokedAt: null });
+    });
+
+    it('should treat subject tokens of another tenant as invalid', async () => {
+      findUnique.mockResolvedValue({ ...stored, tokenHash: hashToken('token_acme') });
+
+      await expect(exchangeToken('token_acme', 'globex', null, null)).rejects.toMatchObject({
+        status: 400,
+        message: 'Invalid or expired subject token',
+      });
+    });
+  });
+
   describe('calculateExpiryDate', () => {
     it('should calculate expiry date correctly for 60 minutes', () => {
       const now = new Date();
@@ -53,6 +521,32 @@ describe('Token Service', () => {
     });
   });
 
+  describe('calculateSlidingExpiry', () => {
+    const now = new Date('2025-01-01T10:00:00.000Z');
+    const sliding = {
+      expiresAt: new Date('2025-01-01T10:10:00.000Z'),
+      idleTimeoutMinutes: 30,
+      maxExpiresAt: new Date('2025-01-01T12:00:00.000Z'),
+    };
+
+    it('should restart the idle timeout from now', () => {
+      expect(calculateSlidingExpiry(sliding, now)).toEqual(new Date('2025-01-01T10:30:00.000Z'));
+    });
+
+    it('should never pass the maximum expiry', () => {
+      expect(
+        calculateSlidingExpiry(sliding, new Date('2025-01-01T11:50:00.000Z'))
+      ).toEqual(sliding.maxExpiresAt);
+      expect(
+        calculateSlidingExpiry({ ...sliding, expiresAt: sliding.maxExpiresAt }, new Date('2025-01-01T11:50:00.000Z'))
+      ).toBeNull();
+    });
+
+    it('should not slide tokens without an idle timeout', () => {
+      expect(calculateSlidingExpiry({ ...sliding, idleTimeoutMinutes: null, maxExpiresAt: null }, now)).toBeNull();
+    });
+  });
+
   describe('isTokenExpired', () => {
     it('should return false for future dates', () => {
       const futureDate = new Date();
@@ -82,33 +576,86 @@ describe('Token Service', () => {
     it('should convert Token to TokenResponse with ISO strings', () => {
       const mockToken: Token = {
         id: 'test_id',
-        token: 'token_abc123',
+        tokenHash: 'hash_abc123',
+        tokenPrefix: 'token_abc123',
+        format: 'opaque',
+        jti: null,
         userId: 'user123',
         scopes: ['read', 'write'],
         createdAt: new Date('2025-01-01T10:00:00.000Z'),
         expiresAt: new Date('2025-01-01T11:00:00.000Z'),
+        revokedAt: null,
+        revokedReason: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: null,
+        maxExpiresAt: null,
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+        cnfJkt: null,
+        cnfX5tS256: null,
       };
 
       const serialized = serializeToken(mockToken);
 
       expect(serialized).toEqual({
         id: 'test_id',
-        token: 'token_abc123',
+        token: 'token_abc123...',
+        format: 'opaque',
         userId: 'user123',
+        name: null,
+        description: null,
         scopes: ['read', 'write'],
         createdAt: '2025-01-01T10:00:00.000Z',
         expiresAt: '2025-01-01T11:00:00.000Z',
+
+        idleTimeoutMinutes: null,
+
+        maxExpiresAt: null,
+
+        revokedAt: null,
+        revokedReason: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+        cnf: null,
       });
     });
 
     it('should handle empty scopes array', () => {
       const mockToken: Token = {
         id: 'test_id',
-        token: 'token_xyz',
+        tokenHash: 'hash_xyz',
+        tokenPrefix: 'token_xyz',
+        format: 'opaque',
+        jti: null,
         userId: 'user456',
         scopes: [],
         createdAt: new Date('2025-01-01T10:00:00.000Z'),
         expiresAt: new Date('2025-01-01T11:00:00.000Z'),
+        revokedAt: null,
+        revokedReason: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: null,
+        maxExpiresAt: null,
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+        cnfJkt: null,
+        cnfX5tS256: null,
       };
 
       const serialized = serializeToken(mockToken);
@@ -119,21 +666,1005 @@ describe('Token Service', () => {
     it('should preserve all fields during serialization', () => {
       const mockToken: Token = {
         id: 'complex_id_123',
-        token: 'token_complex_abc',
+        tokenHash: 'hash_complex_abc',
+        tokenPrefix: 'token_complex_abc',
+        format: 'opaque',
+        jti: null,
         userId: 'user_complex',
         scopes: ['admin', 'read', 'write', 'delete'],
         createdAt: new Date('2025-06-15T14:30:00.000Z'),
         expiresAt: new Date('2025-06-15T15:30:00.000Z'),
+        revokedAt: null,
+        revokedReason: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: null,
+        maxExpiresAt: null,
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+        cnfJkt: null,
+        cnfX5tS256: null,
       };
 
       const serialized = serializeToken(mockToken);
 
       expect(serialized.id).toBe(mockToken.id);
-      expect(serialized.token).toBe(mockToken.token);
+      expect(serialized.token).toBe(`${mockToken.tokenPrefix}...`);
       expect(serialized.userId).toBe(mockToken.userId);
       expect(serialized.scopes).toEqual(mockToken.scopes);
       expect(typeof serialized.createdAt).toBe('string');
       expect(typeof serialized.expiresAt).toBe('string');
     });
   });
+
+  describe('serializeToken revocation metadata', () => {
+    it('should serialize revocation timestamp and reason', () => {
+      const mockToken: Token = {
+        id: 'test_id',
+        tokenHash: 'hash_abc123',
+        tokenPrefix: 'token_abc123',
+        format: 'opaque',
+        jti: null,
+        userId: 'user123',
+        scopes: ['read'],
+        createdAt: new Date('2025-01-01T10:00:00.000Z'),
+        expiresAt: new Date('2025-01-01T11:00:00.000Z'),
+        revokedAt: new Date('2025-01-01T10:30:00.000Z'),
+        revokedReason: 'leaked',
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: null,
+        maxExpiresAt: null,
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+        cnfJkt: null,
+        cnfX5tS256: null,
+      };
+
+      const serialized = serializeToken(mockToken);
+
+      expect(serialized.revokedAt).toBe('2025-01-01T10:30:00.000Z');
+      expect(serialized.revokedReason).toBe('leaked');
+    });
+  });
+
+  describe('isTokenRevoked', () => {
+    it('should return false when no revocation is recorded', () => {
+      expect(isTokenRevoked({ revokedAt: null })).toBe(false);
+    });
+
+    it('should return true when a revocation is recorded', () => {
+      expect(isTokenRevoked({ revokedAt: new Date() })).toBe(true);
+    });
+  });
+
+  describe('toEpochSeconds', () => {
+    it('should convert dates to whole seconds', () => {
+      expect(toEpochSeconds(new Date('2025-01-01T10:00:00.999Z'))).toBe(1735725600);
+    });
+  });
+
+  describe('introspectToken', () => {
+    const findUnique = prisma.token.findUnique as jest.Mock;
+
+    beforeEach(() => {
+      findUnique.mockReset();
+    });
+
+    it('should report unknown tokens as inactive', async () => {
+      findUnique.mockResolvedValue(null);
+
+      await expect(introspectToken('token_unknown', 'default')).resolves.toEqual({ active: false });
+      expect(findUnique).toHaveBeenCalledWith({ where: { tokenHash: hashToken('token_unknown') } });
+    });
+
+    it('should record an introspect event', async () => {
+      const createMany = prisma.tokenEvent.createMany as jest.Mock;
+      createMany.mockClear();
+      findUnique.mockResolvedValue(null);
+
+      await introspectToken('token_unknown', 'default', false, audit);
+
+      expect(createMany.mock.calls[0][0].data[0]).toMatchObject({
+        type: 'introspect',
+        tokenId: null,
+        actor: 'client:client_1',
+        details: { active: false },
+      });
+    });
+
+    it('should report expired tokens as inactive', async () => {
+      findUnique.mockResolvedValue({
+        id: 'test_id',
+        tokenHash: hashToken('token_expired'),
+        tokenPrefix: 'token_expired',
+        format: 'opaque',
+        jti: null,
+        userId: 'user123',
+        scopes: ['read'],
+        createdAt: new Date('2025-01-01T10:00:00.000Z'),
+        expiresAt: new Date('2025-01-01T11:00:00.000Z'),
+        revokedAt: null,
+        revokedReason: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: null,
+        maxExpiresAt: null,
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+      });
+
+      await expect(introspectToken('token_expired', 'default')).resolves.toEqual({ active: false });
+    });
+
+    it('should report revoked tokens as inactive', async () => {
+      findUnique.mockResolvedValue({
+        id: 'test_id',
+        tokenHash: hashToken('token_revoked'),
+        tokenPrefix: 'token_revoked',
+        format: 'opaque',
+        jti: null,
+        userId: 'user123',
+        scopes: ['read'],
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        revokedAt: new Date(),
+        revokedReason: 'leaked',
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: null,
+        maxExpiresAt: null,
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+      });
+
+      await expect(introspectToken('token_revoked', 'default')).resolves.toEqual({ active: false });
+    });
+
+    it('should report effective scopes when expansion is requested', async () => {
+      findUnique.mockResolvedValue({
+        id: 'test_id',
+        tokenHash: hashToken('token_active'),
+        tokenPrefix: 'token_active',
+        format: 'opaque',
+        jti: null,
+        userId: 'user123',
+        scopes: ['write'],
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        revokedAt: null,
+        revokedReason: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: null,
+        maxExpiresAt: null,
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+      });
+
+      const result = await introspectToken('token_active', 'default', true);
+
+      expect(result.scope).toBe('write');
+      expect(result.effective_scope).toBe('read write');
+    });
+
+    it('should describe active tokens', async () => {
+      const createdAt = new Date('2025-01-01T10:00:00.000Z');
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      findUnique.mockResolvedValue({
+        id: 'test_id',
+        tokenHash: hashToken('token_active'),
+        tokenPrefix: 'token_active',
+        format: 'opaque',
+        jti: null,
+        userId: 'user123',
+        scopes: ['read', 'write'],
+        createdAt,
+        expiresAt,
+        revokedAt: null,
+        revokedReason: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: null,
+        maxExpiresAt: null,
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+      });
+
+      await expect(introspectToken('token_active', 'default')).resolves.toEqual({
+        active: true,
+        scope: 'read write',
+        sub: 'user123',
+        exp: toEpochSeconds(expiresAt),
+        iat: toEpochSeconds(createdAt),
+      });
+    });
+
+    it('should only report bound tokens as active with a proof from the key holder', async () => {
+      const createMany = prisma.tokenEvent.createMany as jest.Mock;
+      const keys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const jwk = keys.publicKey.export({ format: 'jwk' });
+      const jkt = computeJwkThumbprint(jwk);
+      const createdAt = new Date();
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      findUnique.mockResolvedValue({
+        id: 'test_id',
+        tokenHash: hashToken('token_bound'),
+        tokenPrefix: 'token_bound',
+        format: 'opaque',
+        jti: null,
+        userId: 'user123',
+        scopes: ['read'],
+        createdAt,
+        expiresAt,
+        revokedAt: null,
+        revokedReason: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: null,
+        maxExpiresAt: null,
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+        cnfJkt: jkt,
+        cnfX5tS256: null,
+      });
+      createMany.mockClear();
+
+      await expect(introspectToken('token_bound', 'default', false, audit)).resolves.toEqual({ active: false });
+      expect(createMany.mock.calls[0][0].data[0].details).toEqual({
+        active: false,
+        proofError: 'Token is bound to a key and requires a proof of possession',
+      });
+
+      const jwt = signJwt(
+        { alg: 'ES256', typ: 'dpop+jwt', jwk },
+        {
+          jti: 'proof-1',
+          htm: 'GET',
+          htu: 'https://api.example.com/orders',
+          iat: toEpochSeconds(new Date()),
+          ath: computeAccessTokenHash('token_bound'),
+        },
+        keys.privateKey
+      );
+      const proof = { jwt, htm: 'GET', htu: 'https://api.example.com/orders' };
+
+      await expect(introspectToken('token_bound', 'default', false, audit, proof)).resolves.toEqual({
+        active: true,
+        scope: 'read',
+        sub: 'user123',
+        exp: toEpochSeconds(expiresAt),
+        iat: toEpochSeconds(createdAt),
+        cnf: { jkt },
+      });
+    });
+
+    it('should record a use of active tokens only', async () => {
+      const record = jest.spyOn(getTokenUsageBuffer(), 'record').mockImplementation(() => undefined);
+      const token = {
+        id: 'test_id',
+        tokenHash: hashToken('token_active'),
+        tokenPrefix: 'token_active',
+        format: 'opaque',
+        jti: null,
+        userId: 'user123',
+        scopes: ['read'],
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        revokedAt: null,
+        revokedReason: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: null,
+        maxExpiresAt: null,
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+      };
+
+      findUnique.mockResolvedValue(token);
+      await introspectToken('token_active', 'default', false, audit);
+      expect(record).toHaveBeenCalledWith('test_id', '203.0.113.7', expect.any(Date));
+
+      record.mockClear();
+      findUnique.mockResolvedValue({ ...token, revokedAt: new Date() });
+      await introspectToken('token_active', 'default', false, audit);
+      expect(record).not.toHaveBeenCalled();
+
+      // Tokens of another tenant are unknown to the caller
+      findUnique.mockResolvedValue(token);
+      await expect(introspectToken('token_active', 'acme', false, audit)).resolves.toEqual({ active: false });
+      expect(record).not.toHaveBeenCalled();
+
+      record.mockRestore();
+    });
+
+    it('should push the expiry of sliding tokens forward', async () => {
+      const updateMany = prisma.token.updateMany as jest.Mock;
+      const createMany = prisma.tokenEvent.createMany as jest.Mock;
+      updateMany.mockReset();
+      updateMany.mockResolvedValue({ count: 1 });
+      createMany.mockClear();
+      findUnique.mockResolvedValue({
+        id: 'test_id',
+        tokenHash: hashToken('token_sliding'),
+        tokenPrefix: 'token_sliding',
+        format: 'opaque',
+        jti: null,
+        userId: 'user123',
+        scopes: ['read'],
+        createdAt: new Date(),
+        expiresAt: new Date(Date.now() + 5 * 60 * 1000),
+        revokedAt: null,
+        revokedReason: null,
+        lastUsedAt: null,
+        lastUsedIp: null,
+        useCount: 0,
+        familyId: null,
+        idleTimeoutMinutes: 30,
+        maxExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        name: null,
+        description: null,
+        clientId: null,
+        parentId: null,
+        tenantId: 'default',
+      });
+
+      const result = await introspectToken('token_sliding', 'default');
+      const { where, data } = updateMany.mock.calls[0][0];
+
+      expect(where).toMatchObject({ id: 'test_id', revokedAt: null });
+      expect(result.exp).toBe(toEpochSeconds(data.expiresAt));
+      expect(data.expiresAt.getTime() - Date.now()).toBeCloseTo(30 * 60 * 1000, -3);
+      expect(createMany.mock.calls[0][0].data[0].details).toEqual({
+        active: true,
+        expiresAt: data.expiresAt.toISOString(),
+      });
+    });
+  });
+
+  describe('listTokensForUser', () => {
+    const findMany = prisma.token.findMany as jest.Mock;
+    const stored = (id: string) => ({ id, userId: 'user123' });
+
+    beforeEach(() => {
+      findMany.mockReset();
+    });
+
+    it('should default to the first page of active tokens, newest first', async () => {
+      findMany.mockResolvedValue([stored('a')]);
+
+      const page = await listTokensForUser({ userId: 'user123' }, 'default');
+
+      expect(findMany).toHaveBeenCalledWith({
+        where: {
+          tenantId: 'default',
+          userId: 'user123',
+          scopes: undefined,
+          AND: [
+            { revokedAt: null, expiresAt: { gt: expect.any(Date) } },
+            { createdAt: { gte: undefined, lte: undefined } },
+            { expiresAt: { gte: undefined, lte: undefined } },
+          ],
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 51,
+      });
+      expect(page).toEqual({ tokens: [stored('a')], nextCursor: null });
+    });
+
+    it('should apply filters, sorting and the cursor', async () => {
+      findMany.mockResolvedValue([stored('b'), stored('c'), stored('d')]);
+      const expiresBefore = new Date('2025-06-01T00:00:00.000Z');
+
+      const page = await listTokensForUser(
+        {
+          userId: 'user123',
+          scope: 'read',
+          state: 'revoked',
+          expiresBefore,
+          sort: 'expiresAt',
+          order: 'asc',
+          limit: 2,
+          cursor: 'a',
+        },
+        'default'
+      );
+
+      expect(findMany).toHaveBeenCalledWith({
+        where: {
+          tenantId: 'default',
+          userId: 'user123',
+          scopes: { has: 'read' },
+          AND: [
+            { revokedAt: { not: null } },
+            { createdAt: { gte: undefined, lte: undefined } },
+            { expiresAt: { gte: undefined, lte: expiresBefore } },
+          ],
+        },
+        orderBy: [{ expiresAt: 'asc' }, { id: 'asc' }],
+        take: 3,
+        cursor: { id: 'a' },
+        skip: 1,
+      });
+      expect(page.tokens.map((token) => token.id)).toEqual(['b', 'c']);
+      expect(page.nextCursor).toBe('c');
+    });
+
+    it('should treat expired but unrevoked tokens as expired', () => {
+      const now = new Date();
+
+      expect(getTokenStateFilter('expired', now)).toEqual({ revokedAt: null, expiresAt: { lte: now } });
+    });
+
+    it('should find tokens unused for a number of days, counting never used ones from creation', async () => {
+      findMany.mockResolvedValue([]);
+
+      await listTokensForUser({ userId: 'user123', unusedForDays: 30 }, 'default');
+
+      const filters = findMany.mock.calls[0][0].where.AND;
+      const unusedSince: Date = filters[3].OR[0].lastUsedAt.lt;
+      expect(Date.now() - unusedSince.getTime()).toBeCloseTo(30 * 24 * 60 * 60 * 1000, -4);
+      expect(filters[3]).toEqual(getUnusedTokenFilter(unusedSince));
+      expect(getUnusedTokenFilter(unusedSince)).toEqual({
+        OR: [{ lastUsedAt: { lt: unusedSince } }, { lastUsedAt: null, createdAt: { lt: unusedSince } }],
+      });
+    });
+  });
+
+  describe('updateToken', () => {
+    const findUnique = prisma.token.findUnique as jest.Mock;
+    const update = prisma.token.update as jest.Mock;
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+    const stored = (overrides: Partial<Token> = {}) => ({
+      id: 'test_id',
+      userId: 'user123',
+      format: 'opaque',
+      scopes: ['write'],
+      createdAt: new Date(),
+      expiresAt,
+      revokedAt: null,
+      clientId: null,
+      tenantId: 'default',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      findUnique.mockReset();
+      update.mockReset();
+      update.mockImplementation(({ data }) => Promise.resolve({ ...stored(), ...data }));
+    });
+
+    it('should return null for unknown tokens', async () => {
+      findUnique.mockResolvedValue(null);
+
+      await expect(updateToken('missing', 'default', { name: 'CI deploy key' })).resolves.toBeNull();
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should update labels and record an update event', async () => {
+      findUnique.mockResolvedValue(stored());
+      const createMany = prisma.tokenEvent.createMany as jest.Mock;
+      createMany.mockClear();
+
+      const token = await updateToken('test_id', 'default', { name: 'CI deploy key', description: null }, audit);
+
+      expect(update).toHaveBeenCalledWith({
+        where: { id: 'test_id' },
+        data: { name: 'CI deploy key', description: null },
+      });
+      expect(token?.name).toBe('CI deploy key');
+      expect(createMany.mock.calls[0][0].data[0]).toMatchObject({
+        type: 'update',
+        tokenId: 'test_id',
+        details: { fields: ['name', 'description'] },
+      });
+    });
+
+    it('should narrow scopes covered by the current grant', async () => {
+      findUnique.mockResolvedValue(stored());
+
+      const token = await updateToken('test_id', 'default', { scopes: ['read'] });
+
+      expect(token?.scopes).toEqual(['read']);
+    });
+
+    it('should refuse to widen scopes', async () => {
+      findUnique.mockResolvedValue(stored({ scopes: ['read'] }));
+
+      await expect(updateToken('test_id', 'default', { scopes: ['write'] })).rejects.toMatchObject({
+        status: 400,
+        message: 'Scopes can only be narrowed',
+      });
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should shorten but never extend expiry', async () => {
+      findUnique.mockResolvedValue(stored());
+      const earlier = new Date(expiresAt.getTime() - 30 * 60 * 1000);
+
+      await expect(updateToken('test_id', 'default', { expiresAt: earlier })).resolves.toMatchObject({ expiresAt: earlier });
+      await expect(
+        updateToken('test_id', 'default', { expiresAt: new Date(expiresAt.getTime() + 1000) })
+      ).rejects.toMatchObject({ status: 400, message: 'Expiry can only be shortened' });
+      await expect(
+        updateToken('test_id', 'default', { expiresAt: new Date(Date.now() - 1000) })
+      ).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('should refuse new grants breaking a policy', async () => {
+      findUnique.mockResolvedValue(stored({ scopes: ['repo:read', 'read'] }));
+      (getPolicies as jest.Mock).mockResolvedValueOnce([
+        { name: 'repo-needs-read', type: 'scope_requires', scope: 'repo:read', requiredScopes: ['read'] },
+      ]);
+
+      await expect(updateToken('test_id', 'default', { scopes: ['repo:read'] })).rejects.toMatchObject({
+        status: 422,
+        details: { policy: 'repo-needs-read' },
+      });
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should refuse grant changes on revoked tokens and JWTs but allow labels', async () => {
+      findUnique.mockResolvedValue(stored({ revokedAt: new Date() }));
+      await expect(updateToken('test_id', 'default', { scopes: ['read'] })).rejects.toMatchObject({ status: 409 });
+
+      findUnique.mockResolvedValue(stored({ format: 'jwt' }));
+      await expect(updateToken('test_id', 'default', { scopes: ['read'] })).rejects.toMatchObject({ status: 409 });
+      await expect(updateToken('test_id', 'default', { name: 'Signed key' })).resolves.toMatchObject({ name: 'Signed key' });
+    });
+  });
+
+  describe('extendToken', () => {
+    const findUnique = prisma.token.findUnique as jest.Mock;
+    const update = prisma.token.update as jest.Mock;
+    const createdAt = new Date(Date.now() - 60 * 60 * 1000);
+    const stored = (overrides: Partial<Token> = {}) => ({
+      id: 'test_id',
+      userId: 'user123',
+      format: 'opaque',
+      createdAt,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      idleTimeoutMinutes: null,
+      maxExpiresAt: null,
+      revokedAt: null,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      findUnique.mockReset();
+      update.mockReset();
+      update.mockImplementation(({ data }) => Promise.resolve({ ...stored(), ...data }));
+    });
+
+    it('should return null for unknown tokens', async () => {
+      findUnique.mockResolvedValue(null);
+
+      await expect(extendToken('missing', 'default', 120)).resolves.toBeNull();
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should extend the expiry from now and record an extend event', async () => {
+      const createMany = prisma.tokenEvent.createMany as jest.Mock;
+      createMany.mockClear();
+      findUnique.mockResolvedValue(stored());
+
+      const token = await extendToken('test_id', 'default', 24 * 60, undefined, audit);
+
+      expect(token!.expiresAt.getTime() - Date.now()).toBeCloseTo(24 * 60 * 60 * 1000, -3);
+      expect(update.mock.calls[0][0].data.maxExpiresAt).toBeUndefined();
+      expect(createMany.mock.calls[0][0].data[0]).toMatchObject({
+        type: 'extend',
+        tokenId: 'test_id',
+        details: { expiresAt: token!.expiresAt.toISOString() },
+      });
+      expect(prisma.tokenExpiryReminder.deleteMany).toHaveBeenCalledWith({ where: { tokenId: 'test_id' } });
+    });
+
+    it('should raise the maximum expiry of sliding tokens', async () => {
+      findUnique.mockResolvedValue(
+        stored({ idleTimeoutMinutes: 30, maxExpiresAt: new Date(Date.now() + 2 * 60 * 60 * 1000) })
+      );
+
+      const token = await extendToken('test_id', 'default', 24 * 60);
+
+      expect(token!.maxExpiresAt).toEqual(token!.expiresAt);
+    });
+
+    it('should refuse to exceed the maximum lifetime since creation', async () => {
+      findUnique.mockResolvedValue(stored());
+
+      await expect(extendToken('test_id', 'default', 120, 150)).rejects.toMatchObject({ status: 400 });
+      await expect(extendToken('test_id', 'default', 60, 150)).resolves.not.toBeNull();
+    });
+
+    it('should refuse to exceed the tenant maximum lifetime', async () => {
+      findUnique.mockResolvedValue(stored());
+      (prisma.tenant.findUnique as jest.Mock).mockResolvedValueOnce({
+        id: 'default',
+        allowedScopes: [],
+        maxTokenLifetimeMinutes: 90,
+      });
+
+      await expect(extendToken('test_id', 'default', 60)).rejects.toMatchObject({
+        status: 400,
+        message: 'Token lifetime cannot exceed 90 minutes since creation',
+      });
+    });
+
+    it('should refuse to shorten the expiry', async () => {
+      findUnique.mockResolvedValue(stored());
+
+      await expect(extendToken('test_id', 'default', 30)).rejects.toMatchObject({
+        status: 400,
+        message: 'Extension cannot shorten the expiry; update the token instead',
+      });
+    });
+
+    it('should refuse to exceed a lifetime policy', async () => {
+      findUnique.mockResolvedValue(stored({ scopes: ['write'], tenantId: 'default', clientId: null }));
+      const policies = [{ name: 'write-short-lived', type: 'max_lifetime', maxLifetimeMinutes: 180 }];
+      (getPolicies as jest.Mock).mockResolvedValueOnce(policies).mockResolvedValueOnce(policies);
+
+      await expect(extendToken('test_id', 'default', 180)).rejects.toMatchObject({
+        status: 403,
+        details: { policy: 'write-short-lived' },
+      });
+      await expect(extendToken('test_id', 'default', 120)).resolves.not.toBeNull();
+    });
+
+    it('should not count the extended token towards active token caps', async () => {
+      const count = prisma.token.count as jest.Mock;
+      findUnique.mockResolvedValue(stored({ scopes: ['write'], tenantId: 'default', clientId: null }));
+      (getPolicies as jest.Mock).mockResolvedValueOnce([{ name: 'token-cap', type: 'max_active_tokens', maxActiveTokens: 2 }]);
+      count.mockResolvedValueOnce(1);
+
+      await expect(extendToken('test_id', 'default', 120)).resolves.not.toBeNull();
+      expect(count).toHaveBeenLastCalledWith({
+        where: expect.objectContaining({ userId: 'user123', id: { not: 'test_id' } }),
+      });
+    });
+
+    it('should refuse to extend a child token past its parent', async () => {
+      const parent = stored({ id: 'parent_id', expiresAt: new Date(Date.now() + 2 * 60 * 60 * 1000) });
+      findUnique.mockImplementation(({ where }) =>
+        Promise.resolve(where.id === 'parent_id' ? parent : stored({ parentId: 'parent_id' }))
+      );
+
+      await expect(extendToken('test_id', 'default', 180)).rejects.toMatchObject({
+        status: 403,
+        message: 'Token cannot outlive its parent token',
+        details: { parentExpiresAt: parent.expiresAt.toISOString() },
+      });
+      await expect(extendToken('test_id', 'default', 90)).resolves.not.toBeNull();
+
+      parent.revokedAt = new Date();
+      await expect(extendToken('test_id', 'default', 90)).rejects.toMatchObject({ status: 403 });
+      expect(update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse inactive tokens and JWTs', async () => {
+      findUnique.mockResolvedValue(stored({ revokedAt: new Date() }));
+      await expect(extendToken('test_id', 'default', 120)).rejects.toMatchObject({ status: 409 });
+
+      findUnique.mockResolvedValue(stored({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(extendToken('test_id', 'default', 120)).rejects.toMatchObject({ status: 409 });
+
+      findUnique.mockResolvedValue(stored({ format: 'jwt' }));
+      await expect(extendToken('test_id', 'default', 120)).rejects.toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('exchangeToken', () => {
+    const findUnique = prisma.token.findUnique as jest.Mock;
+    const create = prisma.token.create as jest.Mock;
+    const parent = (overrides: Partial<Token> = {}) => ({
+      id: 'parent_id',
+      tokenHash: hashToken('token_parent'),
+      userId: 'user123',
+      scopes: ['write'],
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      clientId: null,
+      tenantId: 'default',
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      findUnique.mockReset();
+      create.mockReset();
+      create.mockImplementation(({ data }) => Promise.resolve({ id: 'child_id', ...data }));
+    });
+
+    it('should issue a child token with narrower scopes linked to the parent', async () => {
+      const record = jest.spyOn(getTokenUsageBuffer(), 'record').mockImplementation(() => undefined);
+      findUnique.mockResolvedValue(parent());
+
+      const { token, plaintext } = await exchangeToken('token_parent', 'default', ['read'], 10, { clientId: 'client_1', audit });
+
+      // Exchanging counts as a use of the subject token
+      expect(record).toHaveBeenCalledWith('parent_id', audit.ip);
+      record.mockRestore();
+
+      expect(plaintext).toMatch(/^token_/);
+      expect(create.mock.calls[0][0].data).toMatchObject({
+        userId: 'user123',
+        scopes: ['read'],
+        parentId: 'parent_id',
+        clientId: 'client_1',
+        format: 'opaque',
+      });
+      expect(token.expiresAt.getTime() - Date.now()).toBeCloseTo(10 * 60 * 1000, -3);
+    });
+
+    it('should bind the child token to the key of the parent', async () => {
+      findUnique.mockResolvedValue(parent({ cnfJkt: null, cnfX5tS256: 'certificate-thumbprint' }));
+
+      await exchangeToken('token_parent', 'default', ['read'], 10);
+
+      expect(create.mock.calls[0][0].data).toMatchObject({ cnfJkt: null, cnfX5tS256: 'certificate-thumbprint' });
+    });
+
+    it('should never let the child outlive the parent', async () => {
+      const expiresAt = new Date(Date.now() + 90 * 1000);
+      findUnique.mockResolvedValue(parent({ expiresAt }));
+
+      const { token } = await exchangeToken('token_parent', 'default', null, 60);
+
+      expect(token.expiresAt).toEqual(expiresAt);
+      expect(token.scopes).toEqual(['write']);
+    });
+
+    it('should refuse scopes beyond the parent grant', async () => {
+      findUnique.mockResolvedValue(parent({ scopes: ['read'] }));
+
+      await expect(exchangeToken('token_parent', 'default', ['write'], null)).rejects.toMatchObject({ status: 403 });
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse unknown, expired and revoked subject tokens', async () => {
+      findUnique.mockResolvedValueOnce(null);
+      await expect(exchangeToken('token_unknown', 'default', null, null)).rejects.toMatchObject({ status: 400 });
+
+      findUnique.mockResolvedValueOnce(parent({ expiresAt: new Date(Date.now() - 1000) }));
+      await expect(exchangeToken('token_parent', 'default', null, null)).rejects.toMatchObject({ status: 400 });
+
+      findUnique.mockResolvedValueOnce(parent({ revokedAt: new Date() }));
+      await expect(exchangeToken('token_parent', 'default', null, null)).rejects.toMatchObject({ status: 400 });
+    });
+  });
+
+  describe('revokeToken', () => {
+    const findUnique = prisma.token.findUnique as jest.Mock;
+    const findMany = prisma.token.findMany as jest.Mock;
+    const update = prisma.token.update as jest.Mock;
+    const updateMany = prisma.token.updateMany as jest.Mock;
+
+    beforeEach(() => {
+      findUnique.mockReset();
+      findMany.mockReset();
+      findMany.mockResolvedValue([]);
+      update.mockReset();
+      updateMany.mockReset();
+    });
+
+    it('should return null for unknown tokens', async () => {
+      findUnique.mockResolvedValue(null);
+
+      await expect(revokeToken('missing', 'default')).resolves.toBeNull();
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should record revocation instead of deleting', async () => {
+      findUnique.mockResolvedValue({ id: 'test_id', revokedAt: null });
+      update.mockImplementation(({ data }) => Promise.resolve({ id: 'test_id', ...data }));
+
+      const token = await revokeToken('test_id', 'default', 'leaked');
+
+      expect(update).toHaveBeenCalledWith({
+        where: { id: 'test_id' },
+        data: { revokedAt: expect.any(Date), revokedReason: 'leaked' },
+      });
+      expect(token?.revokedReason).toBe('leaked');
+    });
+
+    it('should cascade to child tokens level by level', async () => {
+      findUnique.mockResolvedValue({ id: 'parent', userId: 'user123', revokedAt: null });
+      update.mockImplementation(({ data }) => Promise.resolve({ id: 'parent', ...data }));
+      findMany
+        .mockResolvedValueOnce([{ id: 'child', userId: 'user123', parentId: 'parent' }])
+        .mockResolvedValueOnce([{ id: 'grandchild', userId: 'user123', parentId: 'child' }]);
+
+      await revokeToken('parent', 'default', 'leaked');
+
+      expect(findMany).toHaveBeenNthCalledWith(1, {
+        where: { parentId: { in: ['parent'] }, revokedAt: null },
+        select: { id: true, userId: true, parentId: true, tenantId: true },
+      });
+      expect(findMany.mock.calls[1][0].where.parentId).toEqual({ in: ['child'] });
+      expect(findMany).toHaveBeenCalledTimes(3);
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['grandchild'] }, revokedAt: null },
+        data: { revokedAt: update.mock.calls[0][0].data.revokedAt, revokedReason: 'Parent token revoked' },
+      });
+    });
+
+    it('should keep the original revocation of already revoked tokens', async () => {
+      const revokedAt = new Date('2025-01-01T10:30:00.000Z');
+      findUnique.mockResolvedValue({ id: 'test_id', revokedAt, revokedReason: 'first' });
+
+      const token = await revokeToken('test_id', 'default', 'second');
+
+      expect(update).not.toHaveBeenCalled();
+      expect(token?.revokedAt).toBe(revokedAt);
+      expect(token?.revokedReason).toBe('first');
+    });
+  });
+
+  describe('revokeTokensForUser', () => {
+    it('should revoke only tokens that are not already revoked', async () => {
+      const findMany = prisma.token.findMany as jest.Mock;
+      const updateMany = prisma.token.updateMany as jest.Mock;
+      findMany.mockResolvedValue([{ id: 'a' }, { id: 'b' }, { id: 'c' }]);
+      updateMany.mockResolvedValue({ count: 3 });
+
+      await expect(revokeTokensForUser('user123', 'default')).resolves.toBe(3);
+      expect(findMany).toHaveBeenCalledWith({
+        where: { tenantId: 'default', userId: 'user123', revokedAt: null },
+        select: { id: true },
+      });
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['a', 'b', 'c'] }, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: null },
+      });
+    });
+
+    it('should record a revoke event per token', async () => {
+      (prisma.token.findMany as jest.Mock).mockResolvedValue([{ id: 'a' }, { id: 'b' }]);
+      (prisma.token.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+      const createMany = prisma.tokenEvent.createMany as jest.Mock;
+      createMany.mockClear();
+
+      await revokeTokensForUser('user123', 'default', 'Account compromised', audit);
+
+      const { data } = createMany.mock.calls[0][0];
+      expect(data).toHaveLength(2);
+      expect(data[0]).toMatchObject({
+        type: 'revoke',
+        tokenId: 'a',
+        userId: 'user123',
+        actor: 'client:client_1',
+        requestId: 'req_1',
+        details: { reason: 'Account compromised' },
+      });
+    });
+
+    it('should queue a token.revoked webhook per token', async () => {
+      (prisma.token.findMany as jest.Mock).mockResolvedValue([{ id: 'a' }, { id: 'b' }]);
+      (prisma.token.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+      (prisma.webhookSubscription.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'hook_1', tenantId: 'default' }]);
+      const createDeliveries = prisma.webhookDelivery.createMany as jest.Mock;
+      createDeliveries.mockClear();
+
+      await revokeTokensForUser('user123', 'default', 'Account compromised');
+
+      const { data } = createDeliveries.mock.calls[0][0];
+      expect(data.map((delivery: { payload: { data: unknown } }) => delivery.payload.data)).toEqual([
+        { tokenId: 'a', userId: 'user123', reason: 'Account compromised', revokedAt: expect.any(String) },
+        { tokenId: 'b', userId: 'user123', reason: 'Account compromised', revokedAt: expect.any(String) },
+      ]);
+    });
+
+    it('should also revoke the user\'s refresh tokens', async () => {
+      (prisma.token.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      const refreshUpdateMany = prisma.refreshToken.updateMany as jest.Mock;
+      refreshUpdateMany.mockResolvedValue({ count: 1 });
+
+      await revokeTokensForUser('user123', 'default', 'Account compromised');
+
+      expect(refreshUpdateMany).toHaveBeenCalledWith({
+        where: { tenantId: 'default', userId: 'user123', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('revokeTokenFamily', () => {
+    it('should revoke access and refresh tokens of the family', async () => {
+      const updateMany = prisma.token.updateMany as jest.Mock;
+      const refreshUpdateMany = prisma.refreshToken.updateMany as jest.Mock;
+      updateMany.mockClear();
+      refreshUpdateMany.mockClear();
+      (prisma.token.findMany as jest.Mock).mockResolvedValue([]).mockResolvedValueOnce([{ id: 'a', userId: 'user123' }]);
+
+      await revokeTokenFamily('family_1', 'Refresh token reuse detected');
+
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['a'] }, revokedAt: null },
+        data: { revokedAt: expect.any(Date), revokedReason: 'Refresh token reuse detected' },
+      });
+      expect(refreshUpdateMany).toHaveBeenCalledWith({
+        where: { familyId: 'family_1', revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('serializeTokenList', () => {
+    const token: Token = {
+      id: 'test_id',
+      tokenHash: 'hash_abc123',
+      tokenPrefix: 'token_abc123',
+      format: 'opaque',
+      jti: null,
+      userId: 'user123',
+      scopes: ['write'],
+      createdAt: new Date('2025-01-01T10:00:00.000Z'),
+      expiresAt: new Date('2025-01-01T11:00:00.000Z'),
+      revokedAt: null,
+      revokedReason: null,
+      lastUsedAt: null,
+      lastUsedIp: null,
+      useCount: 0,
+      familyId: null,
+      idleTimeoutMinutes: null,
+      maxExpiresAt: null,
+      name: null,
+      description: null,
+      clientId: null,
+      parentId: null,
+      tenantId: 'default',
+      cnfJkt: null,
+      cnfX5tS256: null,
+    };
+
+    it('should leave out effective scopes by default', async () => {
+      const [serialized] = await serializeTokenList([token]);
+      expect(serialized).not.toHaveProperty('effectiveScopes');
+    });
+
+    it('should add effective scopes when expansion is requested', async () => {
+      const [serialized] = await serializeTokenList([token], true);
+      expect(serialized.effectiveScopes).toEqual(['read', 'write']);
+    });
+  });
 });
@@ -1,4 +1,15 @@
-import { createTokenSchema, getTokensSchema } from '@/tokens/token.validation';
+import {
+  batchSchema,
+  createTokenSchema,
+  extendTokenSchema,
+  getTokensSchema,
+  introspectTokenSchema,
+  revokeTokenSchema,
+  revokeUserTokensSchema,
+  refreshTokenSchema,
+  revokeTokenBatchItemSchema,
+  updateTokenSchema,
+} from '@/tokens/token.validation';
 import { ZodError } from 'zod';
 
 describe('Validation Schemas', () => {
@@ -95,6 +106,52 @@ describe('Validation Schemas', () => {
       expect(result.expiresInMinutes).toBe(525600);
     });
 
+    it('should accept a token format', () => {
+      const validData = {
+        userId: 'user123',
+        scopes: ['read'],
+        expiresInMinutes: 60,
+        format: 'jwt',
+      };
+
+      const result = createTokenSchema.parse(validData);
+      expect(result.format).toBe('jwt');
+    });
+
+    it('should reject unknown token formats', () => {
+      const invalidData = {
+        userId: 'user123',
+        scopes: ['read'],
+        expiresInMinutes: 60,
+        format: 'saml',
+      };
+
+      expect(() => createTokenSchema.parse(invalidData)).toThrow(ZodError);
+    });
+
+    it('should accept a refresh token lifetime longer than the access token', () => {
+      const validData = {
+        userId: 'user123',
+        scopes: ['read'],
+        expiresInMinutes: 15,
+        refreshExpiresInMinutes: 43200,
+      };
+
+      const result = createTokenSchema.parse(validData);
+      expect(result.refreshExpiresInMinutes).toBe(43200);
+    });
+
+    it('should reject a refresh token lifetime not exceeding the access token', () => {
+      const invalidData = {
+        userId: 'user123',
+        scopes: ['read'],
+        expiresInMinutes: 60,
+        refreshExpiresInMinutes: 60,
+      };
+
+      expect(() => createTokenSchema.parse(invalidData)).toThrow(ZodError);
+    });
+
     it('should accept multiple scopes', () => {
       const validData = {
         userId: 'user123',
@@ -105,6 +162,38 @@ describe('Validation Schemas', () => {
       const result = createTokenSchema.parse(validData);
       expect(result.scopes).toHaveLength(4);
     });
+
+    it('should accept an idle timeout within the token lifetime', () => {
+      const result = createTokenSchema.parse({
+        userId: 'user123',
+        scopes: ['read'],
+        expiresInMinutes: 1440,
+        idleTimeoutMinutes: 30,
+      });
+
+      expect(result.idleTimeoutMinutes).toBe(30);
+    });
+
+    it('should reject idle timeouts longer than the lifetime or combined with JWTs and refresh tokens', () => {
+      const base = { userId: 'user123', scopes: ['read'], expiresInMinutes: 60 };
+
+      expect(() => createTokenSchema.parse({ ...base, idleTimeoutMinutes: 120 })).toThrow(ZodError);
+      expect(() => createTokenSchema.parse({ ...base, idleTimeoutMinutes: 30, format: 'jwt' })).toThrow(ZodError);
+      expect(() =>
+        createTokenSchema.parse({ ...base, idleTimeoutMinutes: 30, refreshExpiresInMinutes: 120 })
+      ).toThrow(ZodError);
+    });
+
+    it('should accept exactly one key or certificate thumbprint as binding', () => {
+      const base = { userId: 'user123', scopes: ['read'], expiresInMinutes: 60 };
+      const thumbprint = 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs';
+
+      expect(createTokenSchema.parse({ ...base, cnf: { jkt: thumbprint } }).cnf).toEqual({ jkt: thumbprint });
+      expect(createTokenSchema.parse({ ...base, cnf: { 'x5t#S256': thumbprint } }).cnf).toEqual({ 'x5t#S256': thumbprint });
+      expect(() => createTokenSchema.parse({ ...base, cnf: {} })).toThrow(ZodError);
+      expect(() => createTokenSchema.parse({ ...base, cnf: { jkt: thumbprint, 'x5t#S256': thumbprint } })).toThrow(ZodError);
+      expect(() => createTokenSchema.parse({ ...base, cnf: { jkt: 'not-a-thumbprint' } })).toThrow(ZodError);
+    });
   });
 
   describe('getTokensSchema', () => {
@@ -131,6 +220,15 @@ describe('Validation Schemas', () => {
       expect(() => getTokensSchema.parse(invalidData)).toThrow(ZodError);
     });
 
+    it('should parse the expand flag from the query string', () => {
+      expect(getTokensSchema.parse({ userId: 'user123', expand: 'true' }).expand).toBe(true);
+      expect(getTokensSchema.parse({ userId: 'user123', expand: 'false' }).expand).toBe(false);
+    });
+
+    it('should reject invalid expand values', () => {
+      expect(() => getTokensSchema.parse({ userId: 'user123', expand: 'yes' })).toThrow(ZodError);
+    });
+
     it('should accept userId with special characters', () => {
       const validData = {
         userId: 'user_123-abc@example.com',
@@ -139,5 +237,174 @@ describe('Validation Schemas', () => {
       const result = getTokensSchema.parse(validData);
       expect(result.userId).toBe(validData.userId);
     });
+
+    it('should parse pagination, filters and sorting from the query string', () => {
+      const result = getTokensSchema.parse({
+        userId: 'user123',
+        scope: 'read',
+        createdAfter: '2025-01-01T00:00:00Z',
+        state: 'expired',
+        sort: 'expiresAt',
+        order: 'asc',
+        limit: '25',
+        cursor: 'token_id',
+      });
+
+      expect(result).toMatchObject({ scope: 'read', state: 'expired', sort: 'expiresAt', order: 'asc', limit: 25 });
+      expect(result.createdAfter).toEqual(new Date('2025-01-01T00:00:00Z'));
+    });
+
+    it('should parse the unused filter from the query string', () => {
+      expect(getTokensSchema.parse({ userId: 'user123', unusedForDays: '90' }).unusedForDays).toBe(90);
+      expect(() => getTokensSchema.parse({ userId: 'user123', unusedForDays: '0' })).toThrow(ZodError);
+    });
+
+    it('should reject invalid pagination and filter values', () => {
+      expect(() => getTokensSchema.parse({ userId: 'user123', limit: '0' })).toThrow(ZodError);
+      expect(() => getTokensSchema.parse({ userId: 'user123', limit: '101' })).toThrow(ZodError);
+      expect(() => getTokensSchema.parse({ userId: 'user123', state: 'deleted' })).toThrow(ZodError);
+      expect(() => getTokensSchema.parse({ userId: 'user123', sort: 'userId' })).toThrow(ZodError);
+      expect(() => getTokensSchema.parse({ userId: 'user123', expiresBefore: 'tomorrow' })).toThrow(ZodError);
+    });
+  });
+
+  describe('updateTokenSchema', () => {
+    it('should accept labels, scopes and an ISO expiry', () => {
+      const result = updateTokenSchema.parse({
+        name: 'CI deploy key',
+        description: null,
+        scopes: ['read'],
+        expiresAt: '2025-06-01T00:00:00Z',
+      });
+
+      expect(result).toEqual({
+        name: 'CI deploy key',
+        description: null,
+        scopes: ['read'],
+        expiresAt: new Date('2025-06-01T00:00:00Z'),
+      });
+    });
+
+    it('should require at least one field', () => {
+      expect(() => updateTokenSchema.parse({})).toThrow(ZodError);
+    });
+
+    it('should reject empty names, empty scope lists and invalid dates', () => {
+      expect(() => updateTokenSchema.parse({ name: '' })).toThrow(ZodError);
+      expect(() => updateTokenSchema.parse({ scopes: [] })).toThrow(ZodError);
+      expect(() => updateTokenSchema.parse({ expiresAt: 'next week' })).toThrow(ZodError);
+    });
+  });
+
+  describe('extendTokenSchema', () => {
+    it('should accept a lifetime in minutes', () => {
+      expect(extendTokenSchema.parse({ expiresInMinutes: 1440 })).toEqual({ expiresInMinutes: 1440 });
+    });
+
+    it('should reject missing, non-positive and overly long lifetimes', () => {
+      expect(() => extendTokenSchema.parse({})).toThrow(ZodError);
+      expect(() => extendTokenSchema.parse({ expiresInMinutes: 0 })).toThrow(ZodError);
+      expect(() => extendTokenSchema.parse({ expiresInMinutes: 525601 })).toThrow(ZodError);
+    });
+  });
+
+  describe('introspectTokenSchema', () => {
+    it('should validate a token string', () => {
+      const validData = {
+        token: 'token_abc123',
+      };
+
+      const result = introspectTokenSchema.parse(validData);
+      expect(result).toEqual(validData);
+    });
+
+    it('should reject empty token', () => {
+      expect(() => introspectTokenSchema.parse({ token: '' })).toThrow(ZodError);
+    });
+
+    it('should reject missing token', () => {
+      expect(() => introspectTokenSchema.parse({})).toThrow(ZodError);
+    });
+
+    it('should accept a proof with the method and absolute URL of the request', () => {
+      const proof = { jwt: 'eyJ0eXAiOiJkcG9wK2p3dCJ9.e30.c2ln', htm: 'GET', htu: 'https://api.example.com/orders' };
+
+      expect(introspectTokenSchema.parse({ token: 'token_abc123', proof }).proof).toEqual(proof);
+      expect(() => introspectTokenSchema.parse({ token: 'token_abc123', proof: { ...proof, htu: '/orders' } })).toThrow(
+        ZodError
+      );
+      expect(() => introspectTokenSchema.parse({ token: 'token_abc123', proof: { htm: 'GET', htu: proof.htu } })).toThrow(
+        ZodError
+      );
+    });
+  });
+
+  describe('revokeTokenSchema', () => {
+    it('should accept an empty body', () => {
+      expect(revokeTokenSchema.parse({})).toEqual({});
+    });
+
+    it('should accept a reason', () => {
+      const result = revokeTokenSchema.parse({ reason: 'Leaked in CI logs' });
+      expect(result.reason).toBe('Leaked in CI logs');
+    });
+
+    it('should reject overly long reasons', () => {
+      expect(() => revokeTokenSchema.parse({ reason: 'x'.repeat(256) })).toThrow(ZodError);
+    });
+  });
+
+  describe('revokeUserTokensSchema', () => {
+    it('should validate userId with optional reason', () => {
+      const validData = {
+        userId: 'user123',
+        reason: 'Account compromised',
+      };
+
+      expect(revokeUserTokensSchema.parse(validData)).toEqual(validData);
+    });
+
+    it('should reject missing userId', () => {
+      expect(() => revokeUserTokensSchema.parse({ reason: 'Account compromised' })).toThrow(ZodError);
+    });
+  });
+
+  describe('refreshTokenSchema', () => {
+    it('should validate a refresh token string', () => {
+      expect(refreshTokenSchema.parse({ refreshToken: 'refresh_abc' })).toEqual({ refreshToken: 'refresh_abc' });
+    });
+
+    it('should reject missing refresh token', () => {
+      expect(() => refreshTokenSchema.parse({})).toThrow(ZodError);
+    });
+
+    it('should accept a proof for bound refresh tokens', () => {
+      const proof = { jwt: 'eyJ0eXAiOiJkcG9wK2p3dCJ9.e30.c2ln', htm: 'POST', htu: 'https://tokens.example.com/api/tokens/refresh' };
+
+      expect(refreshTokenSchema.parse({ refreshToken: 'refresh_abc', proof }).proof).toEqual(proof);
+      expect(() => refreshTokenSchema.parse({ refreshToken: 'refresh_abc', proof: { jwt: '' } })).toThrow(ZodError);
+    });
+  });
+
+  describe('batchSchema', () => {
+    it('should default to atomic mode and leave items to per-item validation', () => {
+      expect(batchSchema.parse({ items: [{ userId: '' }] })).toEqual({ mode: 'atomic', items: [{ userId: '' }] });
+    });
+
+    it('should reject empty and oversized batches and unknown modes', () => {
+      expect(() => batchSchema.parse({ items: [] })).toThrow(ZodError);
+      expect(() => batchSchema.parse({ items: Array.from({ length: 101 }, () => ({})) })).toThrow(ZodError);
+      expect(() => batchSchema.parse({ mode: 'best-effort', items: [{}] })).toThrow(ZodError);
+    });
+  });
+
+  describe('revokeTokenBatchItemSchema', () => {
+    it('should require a token id', () => {
+      expect(revokeTokenBatchItemSchema.parse({ id: 'clx123', reason: 'Offboarding' })).toEqual({
+        id: 'clx123',
+        reason: 'Offboarding',
+      });
+      expect(() => revokeTokenBatchItemSchema.parse({ reason: 'Offboarding' })).toThrow(ZodError);
+    });
   });
 });
@@ -0,0 +1,316 @@
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { inTransaction, prisma, type DbClient } from '@/lib/db';
+import { ApiError } from '@/lib/errors';
+import { recordTokenEvents, SYSTEM_AUDIT_CONTEXT } from '@/audit/audit.service';
+import { assertTenantMayIssue, DEFAULT_TENANT_ID, requireTenant } from '@/tenants/tenant.service';
+import { JwtError } from '@/lib/jwt';
+import { getConfirmationColumns, getTokenConfirmation, verifyPossessionProof } from '@/tokens/token-binding.service';
+import {
+  calculateExpiryDate,
+  createToken,
+  DEFAULT_PURGE_BATCH_SIZE,
+  getTokenPrefix,
+  hashToken,
+  isTokenExpired,
+  revokeTokenFamily,
+  serializeToken,
+  tokenHashesMatch,
+} from '@/tokens/token.service';
+import type { AuditContext } from '@/audit/audit.type';
+import type {
+  CreateTokenOptions,
+  IssuedTokenPair,
+  PossessionProof,
+  RefreshToken,
+  TokenPairResponse,
+} from '@/tokens/token.type';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Generates a unique refresh token string
+ * Format: refresh_<uuid>
+ */
+export function generateRefreshTokenString(): string {
+  return `refresh_${randomUUID()}`;
+}
+
+/**
+ * Lifetime of a refresh token in minutes, preserved across rotations
+ */
+export function getRefreshLifetimeMinutes(refreshToken: Pick<RefreshToken, 'createdAt' | 'expiresAt'>): number {
+  return Math.round((refreshToken.expiresAt.getTime() - refreshToken.createdAt.getTime()) / MINUTE_MS);
+}
+
+/**
+ * Serializes an access token together with its refresh token plaintext
+ */
+export function serializeTokenPair(pair: IssuedTokenPair): TokenPairResponse {
+  return {
+    ...serializeToken(pair.token, pair.plaintext),
+    refreshToken: pair.refreshPlaintext,
+    refreshTokenExpiresAt: pair.refreshToken.expiresAt.toISOString(),
+  };
+}
+
+/**
+ * Options for creating a token pair; the family is always a new one
+ */
+export type CreateTokenPairOptions = Omit<CreateTokenOptions, 'familyId'>;
+
+/**
+ * Creates an access token and its paired refresh token in one family
+ * The refresh token remembers the format, issuing client, labels and key
+ * binding so every rotation issues an equivalent access token
+ *
+ * @param db - Transaction client; both tokens must be created atomically
+ */
+async function createPairInFamily(
+  db: DbClient,
+  familyId: string,
+  userId: string,
+  scopes: string[],
+  expiresInMinutes: number,
+  refreshExpiresInMinutes: number,
+  options: CreateTokenPairOptions
+): Promise<IssuedTokenPair> {
+  const {
+    format = 'opaque',
+    clientId = null,
+    name = null,
+    description = null,
+    tenantId = DEFAULT_TENANT_ID,
+    cnf = null,
+  } = options;
+  const issued = await createToken(userId, scopes, expiresInMinutes, { ...options, familyId }, db);
+
+  const refreshPlaintext = generateRefreshTokenString();
+  const refreshToken = await db.refreshToken.create({
+    data: {
+      tokenHash: hashToken(refreshPlaintext),
+      tokenPrefix: getTokenPrefix(refreshPlaintext),
+      familyId,
+      userId,
+      scopes,
+      accessExpiresInMinutes: expiresInMinutes,
+      accessFormat: format,
+      expiresAt: calculateExpiryDate(refreshExpiresInMinutes),
+      clientId,
+      name,
+      description,
+      tenantId,
+      ...getConfirmationColumns(cnf),
+    },
+  });
+
+  return { ...issued, refreshToken, refreshPlaintext };
+}
+
+/**
+ * Creates an access token with a paired refresh token, starting a new family
+ *
+ * @param userId - The user identifier
+ * @param scopes - Array of permission scopes
+ * @param expiresInMinutes - Access token lifetime in minutes
+ * @param refreshExpiresInMinutes - Refresh token lifetime in minutes
+ * @param options - Tenant, access token format, issuing client, labels and audit context
+ * @param db - Client to use, pass a transaction client to join a transaction
+ * @returns The created tokens and their plaintext secrets
+ * @throws ApiError (403) when either token does not fit the tenant's policy
+ * @throws ApiError (404) when the tenant does not exist
+ */
+export async function createTokenPair(
+  userId: string,
+  scopes: string[],
+  expiresInMinutes: number,
+  refreshExpiresInMinutes: number,
+  options: CreateTokenPairOptions = {},
+  db: DbClient = prisma
+): Promise<IssuedTokenPair> {
+  const familyId = randomUUID();
+
+  return inTransaction(db, async (tx) => {
+    const tenant = await requireTenant(options.tenantId ?? DEFAULT_TENANT_ID, tx);
+    await assertTenantMayIssue(tenant, scopes, [expiresInMinutes, refreshExpiresInMinutes], tx);
+
+    return createPairInFamily(tx, familyId, userId, scopes, expiresInMinutes, refreshExpiresInMinutes, options);
+  });
+}
+
+/**
+ * Exchanges a refresh token for a new access/refresh pair
+ *
+ * The presented refresh token is invalidated. Presenting a refresh token that
+ * was already rotated indicates it was stolen (either the thief or the
+ * legitimate client is replaying it), so the whole family is revoked.
+ * A bound refresh token is only rotated, or checked for reuse, with a proof
+ * signed by its key, so a thief can neither use it nor revoke the family.
+ *
+ * @param refreshTokenString - The refresh token presented by the caller
+ * @param tenantId - The caller's tenant; refresh tokens of other tenants are treated as unknown
+ * @param audit - Who is exchanging the refresh token
+ * @param proof - Proof of possession, required for bound refresh tokens
+ * @returns The new token pair
+ * @throws ApiError (401) for unknown, expired, revoked or reused refresh tokens, and bound ones without a valid proof
+ */
+export async function refreshTokenPair(
+  refreshTokenString: string,
+  tenantId: string,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  proof: PossessionProof | null = null
+): Promise<IssuedTokenPair> {
+  const tokenHash = hashToken(refreshTokenString);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const refreshToken = await tx.refreshToken.findUnique({
+      where: {
+        tokenHash,
+      },
+    });
+
+    if (
+      !refreshToken ||
+      refreshToken.tenantId !== tenantId ||
+      !tokenHashesMatch(refreshToken.tokenHash, tokenHash) ||
+      refreshToken.revokedAt !== null ||
+      isTokenExpired(refreshToken.expiresAt)
+    ) {
+      return { reused: false as const, pair: null };
+    }
+
+    const cnf = getTokenConfirmation(refreshToken);
+
+    // Checked before the claim, so presenting a stolen bound token cannot set off reuse detection
+    if (cnf) {
+      try {
+        await verifyPossessionProof(proof, cnf, refreshTokenString);
+      } catch (error) {
+        if (error instanceof JwtError) {
+          throw new ApiError(401, `Invalid proof of possession: ${error.message}`);
+        }
+        throw error;
+      }
+    }
+
+    // Claim the refresh token; a concurrent exchange makes this match nothing
+    const claimed = await tx.refreshToken.updateMany({
+      where: {
+        id: refreshToken.id,
+        rotatedAt: null,
+      },
+      data: {
+        rotatedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      await revokeTokenFamily(refreshToken.familyId, 'Refresh token reuse detected', tx, audit);
+      return { reused: true as const, pair: null };
+    }
+
+    const pair = await createPairInFamily(
+      tx,
+      refreshToken.familyId,
+      refreshToken.userId,
+      refreshToken.scopes,
+      refreshToken.accessExpiresInMinutes,
+      getRefreshLifetimeMinutes(refreshToken),
+      {
+        format: refreshToken.accessFormat,
+        clientId: refreshToken.clientId,
+        name: refreshToken.name,
+        description: refreshToken.description,
+        tenantId: refreshToken.tenantId,
+        cnf,
+        audit,
+      }
+    );
+
+    await tx.refreshToken.update({
+      where: {
+        id: refreshToken.id,
+      },
+      data: {
+        replacedById: pair.refreshToken.id,
+      },
+    });
+
+    await recordTokenEvents(tx, 'refresh', audit, [
+      {
+        tenantId,
+        tokenId: pair.token.id,
+        userId: refreshToken.userId,
+        details: { familyId: refreshToken.familyId, refreshTokenId: refreshToken.id },
+      },
+    ]);
+
+    return { reused: false as const, pair };
+  });
+
+  // Thrown after the transaction so the family revocation is committed
+  if (result.reused) {
+    throw new ApiError(401, 'Refresh token reuse detected. All tokens in this family have been revoked.');
+  }
+
+  if (!result.pair) {
+    throw new ApiError(401, 'Invalid or expired refresh token');
+  }
+
+  return result.pair;
+}
+
+/**
+ * Builds the filter for refresh tokens that expired before a cutoff
+ * Revoked and rotated refresh tokens are kept until then so reuse can still
+ * be detected while they would otherwise be valid. A null tenant matches
+ * refresh tokens of every tenant.
+ */
+export function getExpiredRefreshTokenFilter(
+  expiredBefore: Date,
+  tenantId: string | null = null
+): Prisma.RefreshTokenWhereInput {
+  return { ...(tenantId !== null && { tenantId }), expiresAt: { lte: expiredBefore } };
+}
+
+/**
+ * Deletes refresh tokens that expired before a cutoff, one batch per transaction
+ *
+ * @param expiredBefore - Keep refresh tokens that expired after this time
+ * @param batchSize - Refresh tokens deleted per transaction
+ * @param tenantId - Only delete refresh tokens of this tenant, null for every tenant
+ * @returns Number of refresh tokens deleted
+ */
+export async function deleteExpiredRefreshTokens(
+  expiredBefore: Date,
+  batchSize: number = DEFAULT_PURGE_BATCH_SIZE,
+  tenantId: string | null = null
+): Promise<number> {
+  let deleted = 0;
+  let batchLength: number;
+
+  do {
+    batchLength = await prisma.$transaction(async (tx) => {
+      const refreshTokens = await tx.refreshToken.findMany({
+        where: getExpiredRefreshTokenFilter(expiredBefore, tenantId),
+        select: {
+          id: true,
+        },
+        take: batchSize,
+      });
+
+      const result = await tx.refreshToken.deleteMany({
+        where: {
+          id: {
+            in: refreshTokens.map((refreshToken) => refreshToken.id),
+          },
+        },
+      });
+
+      deleted += result.count;
+      return refreshTokens.length;
+    });
+  } while (batchLength === batchSize);
+
+  return deleted;
+}
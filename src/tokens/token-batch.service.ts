@@ -0,0 +1,265 @@
+import type { z } from 'zod';
+import { inSavepoint, prisma, type DbClient } from '@/lib/db';
+import { getAuthClientId, getAuthTenantId, type AuthContext } from '@/lib/auth';
+import { ApiError } from '@/lib/errors';
+import { assertClientMayIssue } from '@/clients/client.service';
+import { checkRateLimit } from '@/rate-limit/rate-limit.service';
+import { createToken, revokeToken, serializeToken } from '@/tokens/token.service';
+import { createTokenPair, serializeTokenPair } from '@/tokens/refresh-token.service';
+import { createTokenSchema, revokeTokenBatchItemSchema } from '@/tokens/token.validation';
+import type { AuditContext } from '@/audit/audit.type';
+import type { CreateTokenInput } from '@/tokens/token.validation';
+import type {
+  BatchItemResult,
+  BatchMode,
+  BatchResponse,
+  CreateTokenOptions,
+  TokenPairResponse,
+  TokenResponse,
+} from '@/tokens/token.type';
+
+/**
+ * Longest an atomic batch transaction may run; a full batch does far more
+ * work than the default interactive transaction timeout allows for
+ */
+const BATCH_TRANSACTION_TIMEOUT_MS = 30_000;
+
+/**
+ * Carries the failure of one item out of an atomic batch transaction, rolling it back
+ */
+class BatchItemFailure extends Error {
+  constructor(
+    public readonly index: number,
+    public readonly error: ApiError
+  ) {
+    super(error.message);
+    this.name = 'BatchItemFailure';
+  }
+}
+
+/**
+ * Creates the token a create request asks for, paired with a refresh token when
+ * one was requested; shared by single and batch creation
+ *
+ * @param input - The validated create request
+ * @param auth - The caller; clients may only grant scopes and lifetimes within their own limits
+ * @param audit - Who is creating the token
+ * @param db - Client to use, pass a transaction client to join a transaction
+ * @returns The serialized token, including its plaintext secret
+ * @throws ApiError (403) when the token exceeds the client's, tenant's or policies' limits
+ */
+export async function issueTokenForRequest(
+  input: CreateTokenInput,
+  auth: AuthContext,
+  audit: AuditContext,
+  db: DbClient = prisma
+): Promise<TokenResponse | TokenPairResponse> {
+  if (auth.type === 'client') {
+    await assertClientMayIssue(auth.client, input.scopes, [
+      input.expiresInMinutes,
+      ...(input.refreshExpiresInMinutes !== undefined ? [input.refreshExpiresInMinutes] : []),
+    ]);
+  }
+
+  const options: CreateTokenOptions = {
+    format: input.format,
+    clientId: getAuthClientId(auth),
+    name: input.name,
+    description: input.description,
+    idleTimeoutMinutes: input.idleTimeoutMinutes,
+    tenantId: getAuthTenantId(auth),
+    cnf: input.cnf,
+    audit,
+  };
+
+  if (input.refreshExpiresInMinutes !== undefined) {
+    const pair = await createTokenPair(
+      input.userId,
+      input.scopes,
+      input.expiresInMinutes,
+      input.refreshExpiresInMinutes,
+      options,
+      db
+    );
+
+    return serializeTokenPair(pair);
+  }
+
+  const { token, plaintext } = await createToken(input.userId, input.scopes, input.expiresInMinutes, options, db);
+
+  // The plaintext is only ever shown in this response
+  return serializeToken(token, plaintext);
+}
+
+/**
+ * Reports a failed item; unexpected errors are logged and hidden from the caller
+ */
+function toFailedItem(index: number, error: unknown): BatchItemResult<never> {
+  if (error instanceof ApiError) {
+    return { index, status: error.status, error: error.message, details: error.details };
+  }
+
+  console.error(`Error processing batch item ${index}:`, error);
+  return { index, status: 500, error: 'Internal server error' };
+}
+
+function toInvalidItem(index: number, error: z.ZodError): BatchItemResult<never> {
+  return { index, status: 400, error: 'Validation failed', details: error.issues };
+}
+
+function toSkippedItem(index: number, failedIndex: number): BatchItemResult<never> {
+  return { index, status: 424, error: `Not applied because item ${failedIndex} failed` };
+}
+
+function summarize<T>(mode: BatchMode, items: BatchItemResult<T>[]): BatchResponse<T> {
+  const succeeded = items.filter((item) => item.status < 300).length;
+  return { mode, succeeded, failed: items.length - succeeded, items };
+}
+
+/**
+ * Applies an operation to every valid item of a batch
+ *
+ * Atomic batches are only started when every item is valid and run in one
+ * transaction; the first item failing with an ApiError rolls back all of them.
+ * Partial batches apply each item in its own transaction. Passing a
+ * transaction client runs the whole batch within it, with a savepoint per
+ * partial item or around the atomic items, so failed items leave nothing
+ * behind and the caller's transaction can still commit.
+ *
+ * @param mode - Atomic or partial
+ * @param parsed - Validation result of each item, in request order
+ * @param successStatus - Status reported for applied items
+ * @param operation - Applies one item; throws ApiError for expected failures
+ * @param db - Client to use, pass a transaction client to join a transaction
+ * @returns Per-item outcomes in request order
+ */
+async function runBatch<I, T>(
+  mode: BatchMode,
+  parsed: z.ZodSafeParseResult<I>[],
+  successStatus: number,
+  operation: (input: I, db: DbClient) => Promise<T>,
+  db: DbClient = prisma
+): Promise<BatchResponse<T>> {
+  if (mode === 'partial') {
+    const items: BatchItemResult<T>[] = [];
+
+    for (const [index, item] of parsed.entries()) {
+      if (!item.success) {
+        items.push(toInvalidItem(index, item.error));
+        continue;
+      }
+
+      try {
+        const result = await inSavepoint(db, (tx) => operation(item.data, tx));
+        items.push({ index, status: successStatus, result });
+      } catch (error) {
+        items.push(toFailedItem(index, error));
+      }
+    }
+
+    return summarize(mode, items);
+  }
+
+  const invalidIndex = parsed.findIndex((item) => !item.success);
+
+  if (invalidIndex !== -1) {
+    return summarize(
+      mode,
+      parsed.map((item, index) => (item.success ? toSkippedItem(index, invalidIndex) : toInvalidItem(index, item.error)))
+    );
+  }
+
+  try {
+    const results = await inSavepoint(
+      db,
+      async (tx) => {
+        const applied: T[] = [];
+
+        for (const [index, item] of parsed.entries()) {
+          try {
+            applied.push(await operation(item.data as I, tx));
+          } catch (error) {
+            throw error instanceof ApiError ? new BatchItemFailure(index, error) : error;
+          }
+        }
+
+        return applied;
+      },
+      { timeout: BATCH_TRANSACTION_TIMEOUT_MS }
+    );
+
+    return summarize(
+      mode,
+      results.map((result, index) => ({ index, status: successStatus, result }))
+    );
+  } catch (error) {
+    if (!(error instanceof BatchItemFailure)) {
+      throw error;
+    }
+
+    return summarize(
+      mode,
+      parsed.map((_, index) => (index === error.index ? toFailedItem(index, error.error) : toSkippedItem(index, error.index)))
+    );
+  }
+}
+
+/**
+ * Creates tokens for a batch of create requests
+ * Each item counts against the rate limits like a single request would.
+ *
+ * @param items - Unvalidated create requests
+ * @param mode - Atomic or partial
+ * @param auth - The caller
+ * @param audit - Who is creating the tokens
+ * @param db - Client to use, pass a transaction client to join a transaction
+ * @returns Per-item status, with the created token (including its plaintext) for applied items
+ */
+export async function createTokenBatch(
+  items: unknown[],
+  mode: BatchMode,
+  auth: AuthContext,
+  audit: AuditContext,
+  db: DbClient = prisma
+): Promise<BatchResponse<TokenResponse | TokenPairResponse>> {
+  return runBatch(
+    mode,
+    items.map((item) => createTokenSchema.safeParse(item)),
+    201,
+    async (input, itemDb) => {
+      const rateLimit = await checkRateLimit(auth, input.userId);
+      if (!rateLimit.allowed) {
+        throw new ApiError(429, 'Too many requests', { retryAfterSeconds: rateLimit.retryAfterSeconds });
+      }
+
+      return issueTokenForRequest(input, auth, audit, itemDb);
+    },
+    db
+  );
+}
+
+/**
+ * Revokes a batch of tokens, each with its child tokens
+ * Revoking an already revoked token succeeds and keeps the original revocation.
+ *
+ * @param items - Unvalidated `{ id, reason }` entries
+ * @param mode - Atomic or partial
+ * @param tenantId - The caller's tenant; tokens of other tenants are reported as not found
+ * @param audit - Who is revoking the tokens
+ * @returns Per-item status, with the revoked token for applied items
+ */
+export async function revokeTokenBatch(
+  items: unknown[],
+  mode: BatchMode,
+  tenantId: string,
+  audit: AuditContext
+): Promise<BatchResponse<TokenResponse>> {
+  return runBatch(mode, items.map((item) => revokeTokenBatchItemSchema.safeParse(item)), 200, async (input, db) => {
+    const token = await revokeToken(input.id, tenantId, input.reason, audit, db);
+    if (!token) {
+      throw new ApiError(404, 'Token not found');
+    }
+
+    return serializeToken(token);
+  });
+}
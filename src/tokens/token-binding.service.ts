@@ -0,0 +1,222 @@
+import { createHash, createPublicKey, JsonWebKey, KeyObject, X509Certificate } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { computeJwkThumbprint, decodeJwt, JwtError, verifyJwt, type JwtHeader } from '@/lib/jwt';
+import type { PossessionProof, Token, TokenConfirmation } from '@/tokens/token.type';
+
+/**
+ * `typ` header every proof must carry (RFC 9449)
+ */
+export const PROOF_JWT_TYPE = 'dpop+jwt';
+
+/**
+ * Oldest proof accepted, by its `iat`; proofs are remembered this long to refuse replays
+ */
+export const PROOF_MAX_AGE_SECONDS = 300;
+
+/**
+ * How far in the future a proof's `iat` may be, to tolerate clock skew
+ */
+export const PROOF_MAX_CLOCK_SKEW_SECONDS = 60;
+
+const MAX_PROOF_JTI_LENGTH = 255;
+
+/**
+ * JWK members only present in private keys
+ */
+const PRIVATE_JWK_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k'];
+
+/**
+ * Reads the binding of a stored token, or null for bearer tokens
+ */
+export function getTokenConfirmation(token: Pick<Token, 'cnfJkt' | 'cnfX5tS256'>): TokenConfirmation | null {
+  if (token.cnfJkt) {
+    return { jkt: token.cnfJkt };
+  }
+
+  if (token.cnfX5tS256) {
+    return { 'x5t#S256': token.cnfX5tS256 };
+  }
+
+  return null;
+}
+
+/**
+ * Maps a binding to the columns storing it
+ */
+export function getConfirmationColumns(cnf: TokenConfirmation | null): Pick<Token, 'cnfJkt' | 'cnfX5tS256'> {
+  return {
+    cnfJkt: cnf && 'jkt' in cnf ? cnf.jkt : null,
+    cnfX5tS256: cnf && 'x5t#S256' in cnf ? cnf['x5t#S256'] : null,
+  };
+}
+
+/**
+ * Computes the RFC 8705 `x5t#S256` thumbprint of a certificate (base64url SHA-256 of its DER encoding)
+ *
+ * @param certificate - DER bytes or a PEM string
+ */
+export function computeCertificateThumbprint(certificate: Buffer | string): string {
+  const der = typeof certificate === 'string' ? new X509Certificate(certificate).raw : certificate;
+  return createHash('sha256').update(der).digest('base64url');
+}
+
+/**
+ * Computes the `ath` claim binding a proof to an access token (base64url SHA-256)
+ */
+export function computeAccessTokenHash(accessToken: string): string {
+  return createHash('sha256').update(accessToken).digest('base64url');
+}
+
+/**
+ * Compares request URLs as RFC 9449 does, ignoring query and fragment
+ */
+function isSameTargetUri(claimed: string, actual: string): boolean {
+  try {
+    const [claimedUrl, actualUrl] = [new URL(claimed), new URL(actual)];
+    return claimedUrl.origin === actualUrl.origin && claimedUrl.pathname === actualUrl.pathname;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds the key that must have signed a proof and checks it is the bound key
+ * JWK bindings take the key from the `jwk` header, certificate bindings from
+ * the first `x5c` certificate.
+ */
+function getProofKey(header: JwtHeader, cnf: TokenConfirmation, now: Date): KeyObject {
+  if ('jkt' in cnf) {
+    const jwk = header.jwk;
+
+    if (typeof jwk !== 'object' || jwk === null || Array.isArray(jwk)) {
+      throw new JwtError('Proof must carry the public key in its "jwk" header');
+    }
+    if (PRIVATE_JWK_MEMBERS.some((member) => member in jwk)) {
+      throw new JwtError('Proof "jwk" header must not contain private key material');
+    }
+    if (computeJwkThumbprint(jwk as JsonWebKey) !== cnf.jkt) {
+      throw new JwtError('Proof key does not match the token binding');
+    }
+
+    try {
+      return createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' });
+    } catch {
+      throw new JwtError('Proof "jwk" header is not a valid public key');
+    }
+  }
+
+  const [encoded] = Array.isArray(header.x5c) ? header.x5c : [];
+
+  if (typeof encoded !== 'string') {
+    throw new JwtError('Proof must carry the certificate in its "x5c" header');
+  }
+
+  const der = Buffer.from(encoded, 'base64');
+
+  if (computeCertificateThumbprint(der) !== cnf['x5t#S256']) {
+    throw new JwtError('Proof certificate does not match the token binding');
+  }
+
+  let certificate: X509Certificate;
+  try {
+    certificate = new X509Certificate(der);
+  } catch {
+    throw new JwtError('Proof "x5c" header is not a valid certificate');
+  }
+
+  if (now < new Date(certificate.validFrom) || now > new Date(certificate.validTo)) {
+    throw new JwtError('Proof certificate is not valid at this time');
+  }
+
+  return certificate.publicKey;
+}
+
+/**
+ * Remembers a proof until it falls out of the accepted window
+ * The unique constraint refuses a second use, also across replicas.
+ */
+async function recordProof(thumbprint: string, jti: string, expiresAt: Date): Promise<void> {
+  try {
+    await prisma.possessionProof.create({ data: { thumbprint, jti, expiresAt } });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new JwtError('Proof has already been used');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Verifies that the presenter of a bound token holds its key
+ *
+ * The proof is a JWT with `typ: dpop+jwt`, signed (ES256 or RS256) with the
+ * bound key and carrying it in the `jwk` or `x5c` header. Its claims must
+ * name the request the token was presented with (`htm`, `htu`), be recent
+ * (`iat`), hash the token (`ath`) and be unique (`jti`); each proof is
+ * accepted once.
+ *
+ * @param proof - The proof forwarded by the resource server, or null when none was presented
+ * @param cnf - The token's binding
+ * @param accessToken - The presented token value, access or refresh token
+ * @param now - Current time
+ * @throws JwtError describing why the proof was refused
+ */
+export async function verifyPossessionProof(
+  proof: PossessionProof | null,
+  cnf: TokenConfirmation,
+  accessToken: string,
+  now: Date = new Date()
+): Promise<void> {
+  if (!proof) {
+    throw new JwtError('Token is bound to a key and requires a proof of possession');
+  }
+
+  const { header, payload } = decodeJwt(proof.jwt);
+
+  if (header.typ !== PROOF_JWT_TYPE) {
+    throw new JwtError(`Proof must have "typ" ${PROOF_JWT_TYPE}`);
+  }
+
+  verifyJwt(proof.jwt, getProofKey(header, cnf, now));
+
+  if (typeof payload.jti !== 'string' || payload.jti.length === 0 || payload.jti.length > MAX_PROOF_JTI_LENGTH) {
+    throw new JwtError(`Proof must have a "jti" of 1 to ${MAX_PROOF_JTI_LENGTH} characters`);
+  }
+  if (typeof payload.htm !== 'string' || payload.htm.toUpperCase() !== proof.htm.toUpperCase()) {
+    throw new JwtError('Proof "htm" does not match the request method');
+  }
+  if (typeof payload.htu !== 'string' || !isSameTargetUri(payload.htu, proof.htu)) {
+    throw new JwtError('Proof "htu" does not match the request URL');
+  }
+
+  const iat = typeof payload.iat === 'number' ? payload.iat : NaN;
+  const ageSeconds = now.getTime() / 1000 - iat;
+
+  if (!(ageSeconds <= PROOF_MAX_AGE_SECONDS && ageSeconds >= -PROOF_MAX_CLOCK_SKEW_SECONDS)) {
+    throw new JwtError('Proof "iat" is outside the accepted window');
+  }
+  if (payload.ath !== computeAccessTokenHash(accessToken)) {
+    throw new JwtError('Proof "ath" does not match the presented token');
+  }
+
+  const thumbprint = 'jkt' in cnf ? cnf.jkt : cnf['x5t#S256'];
+  await recordProof(thumbprint, payload.jti, new Date((iat + PROOF_MAX_AGE_SECONDS) * 1000));
+}
+
+/**
+ * Removes remembered proofs that are too old to be accepted anyway
+ *
+ * @returns Number of proofs removed
+ */
+export async function deleteExpiredPossessionProofs(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.possessionProof.deleteMany({
+    where: {
+      expiresAt: {
+        lte: now,
+      },
+    },
+  });
+
+  return count;
+}
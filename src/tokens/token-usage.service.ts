@@ -0,0 +1,115 @@
+import { prisma } from '@/lib/db';
+import type { TokenUsage } from '@/tokens/token.type';
+
+/**
+ * Number of tokens with pending uses after which the buffer is flushed
+ * without waiting for the next scheduled flush
+ */
+const MAX_PENDING_TOKENS = 1000;
+
+/**
+ * Combines two sets of uses of the same token; the latest use wins
+ */
+export function mergeTokenUsage(a: TokenUsage | undefined, b: TokenUsage): TokenUsage {
+  if (!a) {
+    return b;
+  }
+
+  const latest = b.lastUsedAt >= a.lastUsedAt ? b : a;
+
+  return {
+    useCount: a.useCount + b.useCount,
+    lastUsedAt: latest.lastUsedAt,
+    lastUsedIp: latest.lastUsedIp,
+  };
+}
+
+/**
+ * Collects token uses in process memory and writes them with one update per
+ * token, so frequently validated tokens do not cause a write per request
+ *
+ * Uses still buffered when the process exits are lost; counts are approximate.
+ */
+export class TokenUsageBuffer {
+  private pending = new Map<string, TokenUsage>();
+  private flushing = false;
+
+  constructor(private readonly maxPendingTokens: number = MAX_PENDING_TOKENS) {}
+
+  /**
+   * Number of tokens with uses waiting to be written
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Records one use of a token
+   *
+   * @param tokenId - The token identifier
+   * @param ip - Address of the request that presented the token
+   * @param usedAt - When the token was used
+   */
+  record(tokenId: string, ip: string | null, usedAt: Date = new Date()): void {
+    this.pending.set(
+      tokenId,
+      mergeTokenUsage(this.pending.get(tokenId), { useCount: 1, lastUsedAt: usedAt, lastUsedIp: ip })
+    );
+
+    if (this.pending.size >= this.maxPendingTokens && !this.flushing) {
+      this.flush().catch((error) => console.error('Error flushing token usage:', error));
+    }
+  }
+
+  /**
+   * Writes buffered uses in one transaction
+   * Counters are incremented, and the last use only moves forward so
+   * replicas flushing out of order do not overwrite a later use. Uses that
+   * fail to be written are kept for the next flush.
+   *
+   * @returns Number of tokens updated
+   */
+  async flush(): Promise<number> {
+    if (this.pending.size === 0) {
+      return 0;
+    }
+
+    const batch = this.pending;
+    this.pending = new Map();
+    this.flushing = true;
+
+    try {
+      await prisma.$transaction(
+        [...batch].map(([tokenId, usage]) => prisma.$executeRaw`
+          UPDATE "tokens"
+          SET "useCount" = "useCount" + ${usage.useCount},
+              "lastUsedIp" = CASE
+                WHEN "lastUsedAt" IS NULL OR "lastUsedAt" <= ${usage.lastUsedAt} THEN ${usage.lastUsedIp}
+                ELSE "lastUsedIp"
+              END,
+              "lastUsedAt" = GREATEST("lastUsedAt", ${usage.lastUsedAt})
+          WHERE "id" = ${tokenId}
+        `)
+      );
+    } catch (error) {
+      for (const [tokenId, usage] of batch) {
+        this.pending.set(tokenId, mergeTokenUsage(this.pending.get(tokenId), usage));
+      }
+      throw error;
+    } finally {
+      this.flushing = false;
+    }
+
+    return batch.size;
+  }
+}
+
+let buffer: TokenUsageBuffer | undefined;
+
+/**
+ * Returns the process-wide token usage buffer
+ */
+export function getTokenUsageBuffer(): TokenUsageBuffer {
+  buffer ??= new TokenUsageBuffer();
+  return buffer;
+}
@@ -1,18 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ZodError } from 'zod';
-import { validateApiKey } from '@/lib/auth';
-import { createTokenSchema, getTokensSchema } from '@/tokens/token.validation';
-import { createToken, getActiveTokensForUser, serializeToken } from '@/tokens/token.service';
-import type { ErrorResponse } from '@/tokens/token.type';
+import { authenticateRequest, getAuthTenantId } from '@/lib/auth';
+import { getAuditContext } from '@/audit/audit.service';
+import { checkRateLimit, rateLimitHeaders } from '@/rate-limit/rate-limit.service';
+import { ApiError } from '@/lib/errors';
+import {
+  fingerprintRequest,
+  getIdempotencyPrincipal,
+  IDEMPOTENCY_KEY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+  parseIdempotencyKey,
+  runIdempotent,
+} from '@/idempotency/idempotency.service';
+import {
+  batchSchema,
+  createTokenSchema,
+  extendTokenSchema,
+  getTokensSchema,
+  MAX_TOKEN_LIFETIME_MINUTES,
+  introspectTokenSchema,
+  refreshTokenSchema,
+  revokeTokenSchema,
+  revokeUserTokensSchema,
+  updateTokenSchema,
+} from '@/tokens/token.validation';
+import {
+  extendToken,
+  getToken,
+  introspectToken,
+  listTokensForUser,
+  revokeToken,
+  revokeTokensForUser,
+  serializeToken,
+  serializeTokenList,
+  updateToken,
+} from '@/tokens/token.service';
+import { refreshTokenPair, serializeTokenPair } from '@/tokens/refresh-token.service';
+import { createTokenBatch, issueTokenForRequest, revokeTokenBatch } from '@/tokens/token-batch.service';
+import type {
+  BatchResponse,
+  ErrorResponse,
+  IntrospectionResponse,
+  RevokeTokensResponse,
+  TokenListResponse,
+  TokenResponse,
+} from '@/tokens/token.type';
+import type { DbClient } from '@/lib/db';
+import type { StoredResponse } from '@/idempotency/idempotency.type';
 
 /**
  * Controller for creating a new access token
- * Handles authentication, validation, and token creation
+ * Handles authentication, validation, and token creation; requests with an
+ * Idempotency-Key header are only executed once
  */
 export async function createTokenController(request: NextRequest) {
   try {
     // Authenticate request
-    if (!validateApiKey(request)) {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
       return NextResponse.json<ErrorResponse>(
         { error: 'Unauthorized. Valid X-API-Key header required.' },
         { status: 401 }
@@ -22,16 +67,39 @@ export async function createTokenController(request: NextRequest) {
     // Parse and validate request body
     const body = await request.json();
     const validatedData = createTokenSchema.parse(body);
+    const idempotencyKey = parseIdempotencyKey(request.headers.get(IDEMPOTENCY_KEY_HEADER));
 
-    // Create token
-    const token = await createToken(
-      validatedData.userId,
-      validatedData.scopes,
-      validatedData.expiresInMinutes
-    );
+    // Enforce per API key and per user request limits
+    const rateLimit = await checkRateLimit(auth, validatedData.userId);
+    if (!rateLimit.allowed) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Too many requests', details: { retryAfterSeconds: rateLimit.retryAfterSeconds } },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
 
-    // Return serialized response
-    return NextResponse.json(serializeToken(token), { status: 201 });
+    // Create token, paired with a refresh token when one was requested
+    const audit = getAuditContext(request, auth);
+    const issueToken = async (db?: DbClient): Promise<StoredResponse> => ({
+      status: 201,
+      body: await issueTokenForRequest(validatedData, auth, audit, db),
+    });
+
+    // A retry with the same Idempotency-Key replays the first response instead of issuing another token
+    const result = idempotencyKey
+      ? await runIdempotent(
+          { principal: getIdempotencyPrincipal(auth), key: idempotencyKey, fingerprint: fingerprintRequest(body) },
+          issueToken
+        )
+      : { ...(await issueToken()), replayed: false };
+
+    return NextResponse.json(result.body, {
+      status: result.status,
+      headers: {
+        ...rateLimitHeaders(rateLimit),
+        ...(result.replayed ? { [IDEMPOTENT_REPLAYED_HEADER]: 'true' } : {}),
+      },
+    });
 
   } catch (error) {
     // Handle validation errors
@@ -45,6 +113,14 @@ export async function createTokenController(request: NextRequest) {
       );
     }
 
+    // Handle expected service errors
+    if (error instanceof ApiError) {
+      return NextResponse.json<ErrorResponse>(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
     // Handle other errors
     console.error('Error creating token:', error);
     return NextResponse.json<ErrorResponse>(
@@ -55,13 +131,86 @@ export async function createTokenController(request: NextRequest) {
 }
 
 /**
- * Controller for retrieving active tokens for a user
+ * Controller for creating tokens in a batch
+ * Handles authentication, envelope validation, and batch creation; items are
+ * validated one by one and reported with their own status, and requests with
+ * an Idempotency-Key header are only executed once
+ */
+export async function createTokenBatchController(request: NextRequest) {
+  try {
+    // Authenticate request
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate the batch envelope
+    const body = await request.json();
+    const validatedData = batchSchema.parse(body);
+    const idempotencyKey = parseIdempotencyKey(request.headers.get(IDEMPOTENCY_KEY_HEADER));
+
+    const audit = getAuditContext(request, auth);
+    const issueBatch = async (db?: DbClient): Promise<StoredResponse> => {
+      const batch = await createTokenBatch(validatedData.items, validatedData.mode, auth, audit, db);
+
+      // 207 Multi-Status tells callers to check each item
+      return { status: batch.failed === 0 ? 201 : 207, body: batch };
+    };
+
+    // A retry with the same Idempotency-Key replays the first response instead of issuing the tokens again
+    const result = idempotencyKey
+      ? await runIdempotent(
+          { principal: getIdempotencyPrincipal(auth), key: idempotencyKey, fingerprint: fingerprintRequest(body) },
+          issueBatch
+        )
+      : { ...(await issueBatch()), replayed: false };
+
+    return NextResponse.json(result.body, {
+      status: result.status,
+      headers: result.replayed ? { [IDEMPOTENT_REPLAYED_HEADER]: 'true' } : {},
+    });
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          error: 'Validation failed',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Idempotency-Key conflicts
+    if (error instanceof ApiError) {
+      return NextResponse.json<ErrorResponse>(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error creating token batch:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Controller for listing a user's tokens, one page at a time
  * Handles authentication, validation, and token retrieval
  */
 export async function getTokensController(request: NextRequest) {
   try {
     // Authenticate request
-    if (!validateApiKey(request)) {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
       return NextResponse.json<ErrorResponse>(
         { error: 'Unauthorized. Valid X-API-Key header required.' },
         { status: 401 }
@@ -69,16 +218,27 @@ export async function getTokensController(request: NextRequest) {
     }
 
     // Extract and validate query parameters
-    const searchParams = request.nextUrl.searchParams;
-    const userId = searchParams.get('userId');
+    const query = Object.fromEntries(request.nextUrl.searchParams.entries());
+
+    const validatedData = getTokensSchema.parse(query);
 
-    const validatedData = getTokensSchema.parse({ userId });
+    // Enforce per API key and per user request limits
+    const rateLimit = await checkRateLimit(auth, validatedData.userId);
+    if (!rateLimit.allowed) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Too many requests', details: { retryAfterSeconds: rateLimit.retryAfterSeconds } },
+        { status: 429, headers: rateLimitHeaders(rateLimit) }
+      );
+    }
 
-    // Retrieve active tokens
-    const tokens = await getActiveTokensForUser(validatedData.userId);
+    // Retrieve one page of matching tokens
+    const page = await listTokensForUser(validatedData, getAuthTenantId(auth), getAuditContext(request, auth));
 
     // Return serialized response
-    return NextResponse.json(tokens.map(serializeToken), { status: 200 });
+    return NextResponse.json<TokenListResponse>(
+      { tokens: await serializeTokenList(page.tokens, validatedData.expand), nextCursor: page.nextCursor },
+      { status: 200, headers: rateLimitHeaders(rateLimit) }
+    );
 
   } catch (error) {
     // Handle validation errors
@@ -100,3 +260,438 @@ export async function getTokensController(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Controller for introspecting a presented token
+ * Handles authentication, validation, and token lookup
+ */
+export async function introspectTokenController(request: NextRequest) {
+  try {
+    // Authenticate request
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = introspectTokenSchema.parse(body);
+
+    // Look up token state; bound tokens also need the presenter's proof
+    const result = await introspectToken(
+      validatedData.token,
+      getAuthTenantId(auth),
+      validatedData.expand,
+      getAuditContext(request, auth),
+      validatedData.proof ?? null
+    );
+
+    return NextResponse.json<IntrospectionResponse>(result, { status: 200 });
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          error: 'Validation failed',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error introspecting token:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Controller for retrieving a single token by id
+ * Handles authentication and token lookup
+ */
+export async function getTokenController(request: NextRequest, id: string) {
+  try {
+    // Authenticate request
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    // Tokens of other tenants are reported as missing
+    const token = await getToken(id, getAuthTenantId(auth));
+
+    if (!token) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Token not found' },
+        { status: 404 }
+      );
+    }
+
+    // Return serialized response
+    return NextResponse.json(serializeToken(token), { status: 200 });
+
+  } catch (error) {
+    // Handle other errors
+    console.error('Error fetching token:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Controller for updating a token's labels, scopes or expiry
+ * Handles authentication, validation, and the update
+ */
+export async function updateTokenController(request: NextRequest, id: string) {
+  try {
+    // Authenticate request
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = updateTokenSchema.parse(body);
+
+    // Apply the changes; grants can only shrink
+    const token = await updateToken(id, getAuthTenantId(auth), validatedData, getAuditContext(request, auth));
+
+    if (!token) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Token not found' },
+        { status: 404 }
+      );
+    }
+
+    // Return serialized response
+    return NextResponse.json(serializeToken(token), { status: 200 });
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          error: 'Validation failed',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle expected service errors
+    if (error instanceof ApiError) {
+      return NextResponse.json<ErrorResponse>(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error updating token:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Controller for extending a token's expiry
+ * Clients cannot extend a token beyond their own maximum lifetime
+ */
+export async function extendTokenController(request: NextRequest, id: string) {
+  try {
+    // Authenticate request
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = extendTokenSchema.parse(body);
+
+    const maxLifetimeMinutes = auth.type === 'client' && auth.client.maxTokenLifetimeMinutes !== null
+      ? Math.min(auth.client.maxTokenLifetimeMinutes, MAX_TOKEN_LIFETIME_MINUTES)
+      : MAX_TOKEN_LIFETIME_MINUTES;
+
+    const token = await extendToken(
+      id,
+      getAuthTenantId(auth),
+      validatedData.expiresInMinutes,
+      maxLifetimeMinutes,
+      getAuditContext(request, auth)
+    );
+
+    if (!token) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Token not found' },
+        { status: 404 }
+      );
+    }
+
+    // Return serialized response
+    return NextResponse.json(serializeToken(token), { status: 200 });
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          error: 'Validation failed',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle expected service errors
+    if (error instanceof ApiError) {
+      return NextResponse.json<ErrorResponse>(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error extending token:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Controller for revoking a single token by id
+ * Handles authentication, validation, and revocation
+ */
+export async function revokeTokenController(request: NextRequest, id: string) {
+  try {
+    // Authenticate request
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate optional request body
+    const text = await request.text();
+    const validatedData = revokeTokenSchema.parse(text ? JSON.parse(text) : {});
+
+    // Revoke token
+    const token = await revokeToken(id, getAuthTenantId(auth), validatedData.reason, getAuditContext(request, auth));
+
+    if (!token) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Token not found' },
+        { status: 404 }
+      );
+    }
+
+    // Return serialized response
+    return NextResponse.json(serializeToken(token), { status: 200 });
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          error: 'Validation failed',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error revoking token:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Controller for revoking every token of a user
+ * Handles authentication, validation, and bulk revocation
+ */
+export async function revokeUserTokensController(request: NextRequest) {
+  try {
+    // Authenticate request
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = revokeUserTokensSchema.parse(body);
+
+    // Revoke all of the user's tokens
+    const revokedCount = await revokeTokensForUser(
+      validatedData.userId,
+      getAuthTenantId(auth),
+      validatedData.reason,
+      getAuditContext(request, auth)
+    );
+
+    return NextResponse.json<RevokeTokensResponse>(
+      { userId: validatedData.userId, revokedCount },
+      { status: 200 }
+    );
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          error: 'Validation failed',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error revoking user tokens:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Controller for revoking tokens in a batch
+ * Handles authentication, envelope validation, and batch revocation; items are
+ * validated one by one and reported with their own status
+ */
+export async function revokeTokenBatchController(request: NextRequest) {
+  try {
+    // Authenticate request
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate the batch envelope
+    const body = await request.json();
+    const validatedData = batchSchema.parse(body);
+
+    const batch = await revokeTokenBatch(
+      validatedData.items,
+      validatedData.mode,
+      getAuthTenantId(auth),
+      getAuditContext(request, auth)
+    );
+
+    // 207 Multi-Status tells callers to check each item
+    return NextResponse.json<BatchResponse<TokenResponse>>(batch, { status: batch.failed === 0 ? 200 : 207 });
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          error: 'Validation failed',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error revoking token batch:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Controller for exchanging a refresh token for a new token pair
+ * Handles authentication, validation, and rotation
+ */
+export async function refreshTokenController(request: NextRequest) {
+  try {
+    // Authenticate request
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ErrorResponse>(
+        { error: 'Unauthorized. Valid X-API-Key header required.' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validatedData = refreshTokenSchema.parse(body);
+
+    // Rotate the refresh token and issue a new pair
+    const pair = await refreshTokenPair(
+      validatedData.refreshToken,
+      getAuthTenantId(auth),
+      getAuditContext(request, auth),
+      validatedData.proof ?? null
+    );
+
+    return NextResponse.json(serializeTokenPair(pair), { status: 200 });
+
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof ZodError) {
+      return NextResponse.json<ErrorResponse>(
+        {
+          error: 'Validation failed',
+          details: error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle expected service errors
+    if (error instanceof ApiError) {
+      return NextResponse.json<ErrorResponse>(
+        { error: error.message, details: error.details },
+        { status: error.status }
+      );
+    }
+
+    // Handle other errors
+    console.error('Error refreshing token:', error);
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,35 @@
-import { randomUUID } from 'crypto';
-import { prisma } from '@/lib/db';
-import type { Token, TokenResponse } from '@/tokens/token.type';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { inTransaction, prisma, type DbClient } from '@/lib/db';
+import { recordTokenEvents, SYSTEM_AUDIT_CONTEXT } from '@/audit/audit.service';
+import { signWithActiveKey } from '@/keys/key.service';
+import { getTokenUsageBuffer } from '@/tokens/token-usage.service';
+import { enqueueWebhookEvents } from '@/webhooks/webhook.service';
+import { ApiError } from '@/lib/errors';
+import { JwtError } from '@/lib/jwt';
+import { expandScopes, getScopeCatalogue, isScopeSubset, resolveKnownScopes } from '@/scopes/scope.service';
+import { assertTenantMayIssue, DEFAULT_TENANT_ID, requireTenant } from '@/tenants/tenant.service';
+import { getConfirmationColumns, getTokenConfirmation, verifyPossessionProof } from '@/tokens/token-binding.service';
+import { assertPoliciesAllow, getPolicies } from '@/policies/policy.service';
+import type { AuditContext, TokenEventType } from '@/audit/audit.type';
+import { MAX_TOKEN_LIFETIME_MINUTES, type GetTokensInput, type UpdateTokenInput } from '@/tokens/token.validation';
+import type {
+  CreateTokenOptions,
+  IntrospectionResponse,
+  IssuedToken,
+  PossessionProof,
+  Token,
+  TokenConfirmation,
+  TokenPage,
+  TokenResponse,
+  TokenState,
+} from '@/tokens/token.type';
+
+/**
+ * Number of random characters kept after the type tag for display,
+ * e.g. "token_1a2b3c4d" or "refresh_1a2b3c4d"
+ */
+export const TOKEN_PREFIX_RANDOM_CHARS = 8;
 
 /**
  * Generates a unique token string with identifiable prefix
@@ -13,6 +42,65 @@ export function generateTokenString(): string {
   return `token_${randomUUID()}`;
 }
 
+/**
+ * Generates a signed JWT whose claims mirror the stored token
+ * Claims: sub (userId), scope (space-delimited), iat, exp and jti, plus cnf for bound tokens
+ * Signed with the active key from the key store (`kid` header set)
+ *
+ * @throws ApiError when signing keys are not configured
+ */
+export async function generateJwtString(
+  jti: string,
+  userId: string,
+  scopes: string[],
+  createdAt: Date,
+  expiresAt: Date,
+  cnf: TokenConfirmation | null = null
+): Promise<string> {
+  return signWithActiveKey({
+    sub: userId,
+    scope: scopes.join(' '),
+    iat: toEpochSeconds(createdAt),
+    exp: toEpochSeconds(expiresAt),
+    jti,
+    ...(cnf ? { cnf } : {}),
+  });
+}
+
+/**
+ * Computes the SHA-256 digest (hex) stored in place of the token secret
+ *
+ * Tokens carry 122 bits of entropy, so a fast unsalted digest is sufficient
+ * and keeps lookups by hash possible.
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Extracts the non-secret display prefix of a token
+ */
+export function getTokenPrefix(token: string): string {
+  return token.slice(0, token.indexOf('_') + 1 + TOKEN_PREFIX_RANDOM_CHARS);
+}
+
+/**
+ * Masks a token for display using only its stored prefix
+ */
+export function maskToken(tokenPrefix: string): string {
+  return `${tokenPrefix}...`;
+}
+
+/**
+ * Compares two hex digests in constant time
+ */
+export function tokenHashesMatch(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a, 'hex');
+  const bufferB = Buffer.from(b, 'hex');
+
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
 /**
  * Calculates expiration date from current time and minutes
  */
@@ -22,6 +110,26 @@ export function calculateExpiryDate(expiresInMinutes: number): Date {
   return expiresAt;
 }
 
+/**
+ * Calculates the next expiry of a sliding token after it is used
+ * The idle timeout restarts from now but never passes the absolute maximum
+ *
+ * @returns The new expiry, or null if the token does not slide further
+ */
+export function calculateSlidingExpiry(
+  token: Pick<Token, 'expiresAt' | 'idleTimeoutMinutes' | 'maxExpiresAt'>,
+  now: Date = new Date()
+): Date | null {
+  if (token.idleTimeoutMinutes === null || token.maxExpiresAt === null) {
+    return null;
+  }
+
+  const idleExpiry = new Date(now.getTime() + token.idleTimeoutMinutes * 60 * 1000);
+  const expiresAt = idleExpiry < token.maxExpiresAt ? idleExpiry : token.maxExpiresAt;
+
+  return expiresAt > token.expiresAt ? expiresAt : null;
+}
+
 /**
  * Checks if a token has expired
  */
@@ -29,18 +137,49 @@ export function isTokenExpired(expiresAt: Date): boolean {
   return new Date() > expiresAt;
 }
 
+/**
+ * Checks if a token has been revoked
+ */
+export function isTokenRevoked(token: Pick<Token, 'revokedAt'>): boolean {
+  return token.revokedAt !== null;
+}
+
+/**
+ * Converts a Date to seconds since the Unix epoch (as used by RFC 7662)
+ */
+export function toEpochSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
 /**
  * Converts a Token with Date objects to TokenResponse with ISO strings
  * This is necessary for JSON serialization in API responses
+ *
+ * @param token - The stored token
+ * @param plaintext - The secret, only passed when responding to creation
  */
-export function serializeToken(token: Token): TokenResponse {
+export function serializeToken(token: Token, plaintext?: string): TokenResponse {
   return {
     id: token.id,
-    token: token.token,
+    token: plaintext ?? maskToken(token.tokenPrefix),
+    format: token.format,
     userId: token.userId,
+    name: token.name,
+    description: token.description,
     scopes: token.scopes,
     createdAt: token.createdAt.toISOString(),
     expiresAt: token.expiresAt.toISOString(),
+    idleTimeoutMinutes: token.idleTimeoutMinutes,
+    maxExpiresAt: token.maxExpiresAt ? token.maxExpiresAt.toISOString() : null,
+    revokedAt: token.revokedAt ? token.revokedAt.toISOString() : null,
+    revokedReason: token.revokedReason,
+    lastUsedAt: token.lastUsedAt ? token.lastUsedAt.toISOString() : null,
+    lastUsedIp: token.lastUsedIp,
+    useCount: token.useCount,
+    clientId: token.clientId,
+    parentId: token.parentId,
+    tenantId: token.tenantId,
+    cnf: getTokenConfirmation(token),
   };
 }
 
@@ -48,68 +187,1039 @@ export function serializeToken(token: Token): TokenResponse {
  * Creates a new access token for a user
  * 
  * @param userId - The user identifier
- * @param scopes - Array of permission scopes
- * @param expiresInMinutes - Token lifetime in minutes
- * @returns The created token
+ * @param requestedScopes - Array of permission scopes; wildcards are stored as the scopes they currently match
+ * @param expiresInMinutes - Token lifetime in minutes; the absolute maximum for sliding tokens
+ * @param options - Tenant, token format, refresh family, issuing client, labels, idle timeout, parent, key binding and audit context
+ * @param db - Client to use, pass a transaction client to join a transaction
+ * @returns The created token and its plaintext secret
+ * @throws ApiError (400) when a scope is not in the scope catalogue
+ * @throws ApiError (403) when the token does not fit the tenant's policy, or breaks a lifetime or active token policy
+ * @throws ApiError (404) when the tenant does not exist
+ * @throws ApiError (422) when the token lacks a scope a policy requires
  */
 export async function createToken(
   userId: string,
-  scopes: string[],
-  expiresInMinutes: number
-): Promise<Token> {
-  const token = generateTokenString();
-  const expiresAt = calculateExpiryDate(expiresInMinutes);
-
-  const createdToken = await prisma.token.create({
-    data: {
-      token,
-      userId,
+  requestedScopes: string[],
+  expiresInMinutes: number,
+  options: CreateTokenOptions = {},
+  db: DbClient = prisma
+): Promise<IssuedToken> {
+  const {
+    format = 'opaque',
+    familyId = null,
+    clientId = null,
+    name = null,
+    description = null,
+    idleTimeoutMinutes = null,
+    parent = null,
+    tenantId = DEFAULT_TENANT_ID,
+    cnf = null,
+    audit = SYSTEM_AUDIT_CONTEXT,
+  } = options;
+  // Wildcards are stored resolved, so the grant does not widen as scopes are registered
+  const scopes = await resolveKnownScopes(requestedScopes, db);
+  await assertTenantMayIssue(await requireTenant(tenantId, db), scopes, [expiresInMinutes], db);
+  // Rotating a refresh token replaces the family's access token rather than adding one
+  await assertPoliciesAllow(await getPolicies(), { tenantId, clientId, userId, scopes, expiresInMinutes, familyId }, db);
+
+  const createdAt = new Date();
+  // Sliding tokens start with the idle timeout and may be extended up to the full lifetime
+  const maxExpiresAt = idleTimeoutMinutes !== null ? calculateExpiryDate(expiresInMinutes) : null;
+  const requestedExpiresAt = calculateExpiryDate(idleTimeoutMinutes ?? expiresInMinutes);
+  // Child tokens never outlive their parent
+  const expiresAt = parent && parent.expiresAt < requestedExpiresAt ? parent.expiresAt : requestedExpiresAt;
+
+  // JWTs share an identical header prefix, so they are labelled by jti instead
+  const jti = format === 'jwt' ? randomUUID() : null;
+  const plaintext = jti
+    ? await generateJwtString(jti, userId, scopes, createdAt, expiresAt, cnf)
+    : generateTokenString();
+  const tokenPrefix = jti ? `jwt_${jti.slice(0, 8)}` : getTokenPrefix(plaintext);
+
+  const createdToken = await inTransaction(db, async (tx) => {
+    const token = await tx.token.create({
+      data: {
+        tokenHash: hashToken(plaintext),
+        tokenPrefix,
+        format,
+        jti,
+        userId,
+        name,
+        description,
+        scopes,
+        createdAt,
+        expiresAt,
+        idleTimeoutMinutes,
+        maxExpiresAt,
+        familyId,
+        clientId,
+        parentId: parent?.id ?? null,
+        tenantId,
+        ...getConfirmationColumns(cnf),
+      },
+    });
+
+    await recordTokenEvents(tx, 'create', audit, [
+      { tenantId, tokenId: token.id, userId, details: { scopes, expiresAt: expiresAt.toISOString(), format } },
+    ]);
+
+    await enqueueWebhookEvents(tx, 'token.created', [
+      {
+        tenantId,
+        tokenId: token.id,
+        userId,
+        details: { name, scopes, format, clientId, createdAt: createdAt.toISOString(), expiresAt: expiresAt.toISOString() },
+      },
+    ]);
+
+    return token;
+  });
+
+  return { token: createdToken, plaintext };
+}
+
+/**
+ * Finds a stored token by its presented plaintext value
+ * Lookup is by digest; the stored digest is re-checked in constant time
+ *
+ * @param tokenString - The token value presented by the caller
+ * @returns The matching token, or null if none exists
+ */
+export async function findTokenByValue(tokenString: string): Promise<Token | null> {
+  const tokenHash = hashToken(tokenString);
+
+  const token = await prisma.token.findUnique({
+    where: {
+      tokenHash,
+    },
+  });
+
+  if (!token || !tokenHashesMatch(token.tokenHash, tokenHash)) {
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * Exchanges an active token for a child token with a narrower grant
+ * (RFC 8693 style downscoping)
+ *
+ * The child belongs to the parent's user, gets a subset of its scopes
+ * (hierarchy and wildcards apply) and never outlives it. Revoking the parent
+ * also revokes the child. A child of a bound token is bound to the same key,
+ * so exchanging a stolen token yields nothing usable.
+ *
+ * @param subjectToken - The parent token value presented by the caller
+ * @param tenantId - The caller's tenant; tokens of other tenants are treated as unknown
+ * @param scopes - Requested scopes, or null to keep the parent's scopes
+ * @param expiresInMinutes - Requested lifetime, or null to expire with the parent
+ * @param options - Issuing client and audit context, and `assertMayIssue` to
+ *   check the child's final scopes and lifetime against the caller's own limits
+ * @returns The child token and its plaintext secret
+ * @throws ApiError (400) when the subject token is unknown, expired or revoked
+ * @throws ApiError (403) when the scopes exceed the parent's grant
+ */
+export async function exchangeToken(
+  subjectToken: string,
+  tenantId: string,
+  scopes: string[] | null,
+  expiresInMinutes: number | null,
+  options: Pick<CreateTokenOptions, 'clientId' | 'audit'> & {
+    assertMayIssue?: (scopes: string[], expiresInMinutes: number) => Promise<void>;
+  } = {}
+): Promise<IssuedToken> {
+  const { assertMayIssue, ...createOptions } = options;
+  const parent = await findTokenByValue(subjectToken);
+
+  if (!parent || parent.tenantId !== tenantId || isTokenRevoked(parent) || isTokenExpired(parent.expiresAt)) {
+    throw new ApiError(400, 'Invalid or expired subject token');
+  }
+
+  // Presenting the subject token is a use of it, like introspection
+  getTokenUsageBuffer().record(parent.id, createOptions.audit?.ip ?? null);
+
+  const childScopes = scopes ?? parent.scopes;
+
+  if (!isScopeSubset(childScopes, parent.scopes, await getScopeCatalogue())) {
+    throw new ApiError(403, 'Requested scopes exceed the scopes of the subject token', {
+      scopes: parent.scopes,
+    });
+  }
+
+  const remainingMinutes = Math.ceil((parent.expiresAt.getTime() - Date.now()) / (60 * 1000));
+  const childExpiresInMinutes = Math.min(expiresInMinutes ?? remainingMinutes, remainingMinutes);
+
+  await assertMayIssue?.(childScopes, childExpiresInMinutes);
+
+  return createToken(
+    parent.userId,
+    childScopes,
+    childExpiresInMinutes,
+    { ...createOptions, parent, tenantId, cnf: getTokenConfirmation(parent) }
+  );
+}
+
+/**
+ * Retrieves a single token of a tenant
+ *
+ * @returns The token, or null if it does not exist in the tenant
+ */
+export async function getToken(id: string, tenantId: string): Promise<Token | null> {
+  return prisma.token.findUnique({
+    where: {
+      id,
+      tenantId,
+    },
+  });
+}
+
+/**
+ * Checks an existing token's new grant against the policies, as if it were issued with it
+ * The token itself is not counted towards active token limits.
+ *
+ * @param lifetimeEnd - Latest expiry of the token with its new grant, the maximum expiry for sliding tokens
+ */
+async function assertPoliciesAllowGrant(db: DbClient, token: Token, scopes: string[], lifetimeEnd: Date): Promise<void> {
+  await assertPoliciesAllow(
+    await getPolicies(),
+    {
+      tenantId: token.tenantId,
+      clientId: token.clientId,
+      userId: token.userId,
       scopes,
-      expiresAt,
+      expiresInMinutes: Math.round((lifetimeEnd.getTime() - token.createdAt.getTime()) / (60 * 1000)),
+      tokenId: token.id,
     },
+    db
+  );
+}
+
+/**
+ * Updates a token's labels, narrows its scopes or shortens its expiry
+ *
+ * Grants can only shrink: new scopes must be covered by the current grant
+ * (hierarchy and wildcards apply) and the new expiry must not be later than
+ * the current one. The new grant must still comply with the policies. Scopes
+ * and expiry of JWTs are signed into the token, so only their labels can change.
+ *
+ * @param id - The token identifier
+ * @param tenantId - The caller's tenant
+ * @param input - Fields to change
+ * @param audit - Who is updating the token
+ * @returns The updated token, or null if it does not exist in the tenant
+ * @throws ApiError (409) when changing the grant of an inactive token or a JWT
+ * @throws ApiError (400) when widening scopes or extending expiry
+ * @throws ApiError (403, 422) when the new grant breaks a policy
+ */
+export async function updateToken(
+  id: string,
+  tenantId: string,
+  input: UpdateTokenInput,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<Token | null> {
+  return prisma.$transaction(async (tx) => {
+    const token = await tx.token.findUnique({
+      where: {
+        id,
+        tenantId,
+      },
+    });
+
+    if (!token) {
+      return null;
+    }
+
+    if (input.scopes !== undefined || input.expiresAt !== undefined) {
+      if (isTokenRevoked(token) || isTokenExpired(token.expiresAt)) {
+        throw new ApiError(409, 'Scopes and expiry can only be changed on active tokens');
+      }
+
+      if (token.format === 'jwt') {
+        throw new ApiError(409, 'Scopes and expiry of JWT tokens are signed into the token and cannot be changed');
+      }
+    }
+
+    const scopes = input.scopes && (await resolveKnownScopes(input.scopes, tx));
+
+    if (scopes && !isScopeSubset(scopes, token.scopes, await getScopeCatalogue(tx))) {
+      throw new ApiError(400, 'Scopes can only be narrowed', { grantedScopes: token.scopes });
+    }
+
+    if (input.expiresAt) {
+      if (input.expiresAt > token.expiresAt) {
+        throw new ApiError(400, 'Expiry can only be shortened', { expiresAt: token.expiresAt.toISOString() });
+      }
+
+      if (isTokenExpired(input.expiresAt)) {
+        throw new ApiError(400, 'expiresAt must be in the future; revoke the token to end it now');
+      }
+    }
+
+    if (input.scopes !== undefined || input.expiresAt !== undefined) {
+      const lifetimeEnd = input.expiresAt ?? token.maxExpiresAt ?? token.expiresAt;
+      await assertPoliciesAllowGrant(tx, token, scopes ?? token.scopes, lifetimeEnd);
+    }
+
+    const changes = scopes ? { ...input, scopes } : input;
+    const updatedToken = await tx.token.update({
+      where: {
+        id,
+      },
+      // A shortened sliding token must not slide past its new expiry
+      data: input.expiresAt && token.maxExpiresAt ? { ...changes, maxExpiresAt: input.expiresAt } : changes,
+    });
+
+    await recordTokenEvents(tx, 'update', audit, [
+      { tenantId, tokenId: id, userId: token.userId, details: { fields: Object.keys(input) } },
+    ]);
+
+    return updatedToken;
+  });
+}
+
+/**
+ * Extends an active token's expiry to the given number of minutes from now
+ *
+ * The total lifetime since creation cannot exceed the cap, nor the tenant's
+ * maximum lifetime or a lifetime policy, and a child token cannot be extended
+ * past its parent. The maximum expiry of a sliding token is raised to at
+ * least the new expiry.
+ *
+ * @param id - The token identifier
+ * @param tenantId - The caller's tenant
+ * @param expiresInMinutes - New lifetime counted from now
+ * @param maxLifetimeMinutes - Cap on the lifetime since creation, e.g. the issuing client's limit
+ * @param audit - Who is extending the token
+ * @returns The extended token, or null if it does not exist in the tenant
+ * @throws ApiError (409) when the token is inactive or a JWT
+ * @throws ApiError (400) when the new expiry is earlier than the current one or exceeds the cap
+ * @throws ApiError (403) when the token's parent is inactive or would expire before it, or the lifetime breaks a policy
+ * @throws ApiError (422) when the token breaks a scope policy
+ */
+export async function extendToken(
+  id: string,
+  tenantId: string,
+  expiresInMinutes: number,
+  maxLifetimeMinutes: number = MAX_TOKEN_LIFETIME_MINUTES,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<Token | null> {
+  return prisma.$transaction(async (tx) => {
+    const token = await tx.token.findUnique({
+      where: {
+        id,
+        tenantId,
+      },
+    });
+
+    if (!token) {
+      return null;
+    }
+
+    if (isTokenRevoked(token) || isTokenExpired(token.expiresAt)) {
+      throw new ApiError(409, 'Only active tokens can be extended');
+    }
+
+    if (token.format === 'jwt') {
+      throw new ApiError(409, 'The expiry of JWT tokens is signed into the token and cannot be changed');
+    }
+
+    const tenantMaxLifetime = (await requireTenant(tenantId, tx)).maxTokenLifetimeMinutes;
+    const lifetimeCap = tenantMaxLifetime !== null ? Math.min(tenantMaxLifetime, maxLifetimeMinutes) : maxLifetimeMinutes;
+    const expiresAt = calculateExpiryDate(expiresInMinutes);
+    const latestExpiresAt = new Date(token.createdAt.getTime() + lifetimeCap * 60 * 1000);
+
+    if (expiresAt > latestExpiresAt) {
+      throw new ApiError(400, `Token lifetime cannot exceed ${lifetimeCap} minutes since creation`, {
+        latestExpiresAt: latestExpiresAt.toISOString(),
+      });
+    }
+
+    if (expiresAt < token.expiresAt) {
+      throw new ApiError(400, 'Extension cannot shorten the expiry; update the token instead', {
+        expiresAt: token.expiresAt.toISOString(),
+      });
+    }
+
+    // Child tokens never outlive their parent
+    if (token.parentId) {
+      const parent = await tx.token.findUnique({
+        where: {
+          id: token.parentId,
+        },
+      });
+
+      if (!parent || isTokenRevoked(parent) || isTokenExpired(parent.expiresAt)) {
+        throw new ApiError(403, 'Tokens cannot be extended once their parent token is inactive');
+      }
+
+      if (expiresAt > parent.expiresAt) {
+        throw new ApiError(403, 'Token cannot outlive its parent token', {
+          parentExpiresAt: parent.expiresAt.toISOString(),
+        });
+      }
+    }
+
+    const lifetimeEnd = token.maxExpiresAt && token.maxExpiresAt > expiresAt ? token.maxExpiresAt : expiresAt;
+    await assertPoliciesAllowGrant(tx, token, token.scopes, lifetimeEnd);
+
+    const extendedToken = await tx.token.update({
+      where: {
+        id,
+      },
+      data: {
+        expiresAt,
+        maxExpiresAt: token.maxExpiresAt && token.maxExpiresAt < expiresAt ? expiresAt : undefined,
+      },
+    });
+
+    // The token is reminded again as it approaches its new expiry
+    await tx.tokenExpiryReminder.deleteMany({
+      where: {
+        tokenId: id,
+      },
+    });
+
+    await recordTokenEvents(tx, 'extend', audit, [
+      {
+        tenantId,
+        tokenId: id,
+        userId: token.userId,
+        details: { previousExpiresAt: token.expiresAt.toISOString(), expiresAt: expiresAt.toISOString() },
+      },
+    ]);
+
+    return extendedToken;
   });
+}
+
+/**
+ * Default number of tokens per page when no limit is given
+ */
+export const DEFAULT_TOKEN_PAGE_SIZE = 50;
+
+/**
+ * Builds the filter for a token state
+ * - active: neither expired nor revoked
+ * - expired: past expiry and not revoked
+ * - revoked: revoked, whether or not it has expired since
+ */
+export function getTokenStateFilter(state: TokenState, now: Date): Prisma.TokenWhereInput {
+  switch (state) {
+    case 'active':
+      return { revokedAt: null, expiresAt: { gt: now } };
+    case 'expired':
+      return { revokedAt: null, expiresAt: { lte: now } };
+    case 'revoked':
+      return { revokedAt: { not: null } };
+  }
+}
 
-  return createdToken;
+/**
+ * Builds the filter for tokens not used since a given time
+ * Tokens that were never used count from their creation
+ */
+export function getUnusedTokenFilter(unusedSince: Date): Prisma.TokenWhereInput {
+  return {
+    OR: [
+      { lastUsedAt: { lt: unusedSince } },
+      { lastUsedAt: null, createdAt: { lt: unusedSince } },
+    ],
+  };
 }
 
 /**
- * Retrieves all non-expired tokens for a specific user
+ * Lists a user's tokens one page at a time
+ * Only active tokens are returned unless another state is requested
  * 
- * @param userId - The user identifier
- * @returns Array of active tokens
+ * @param query - Filters, sort order, page size and the cursor from the previous page
+ * @param tenantId - The caller's tenant; user ids are only unique within it
+ * @param audit - Who is listing the tokens
+ * @returns The page and the cursor of the next one
  */
-export async function getActiveTokensForUser(userId: string): Promise<Token[]> {
+export async function listTokensForUser(
+  query: GetTokensInput,
+  tenantId: string,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<TokenPage> {
   const now = new Date();
+  const limit = query.limit ?? DEFAULT_TOKEN_PAGE_SIZE;
+  const sort = query.sort ?? 'createdAt';
+  const order = query.order ?? 'desc';
 
   const tokens = await prisma.token.findMany({
     where: {
-      userId,
-      expiresAt: {
-        gt: now, // Only tokens expiring in the future
-      },
-    },
-    orderBy: {
-      createdAt: 'desc',
+      tenantId,
+      userId: query.userId,
+      scopes: query.scope ? { has: query.scope } : undefined,
+      AND: [
+        getTokenStateFilter(query.state ?? 'active', now),
+        { createdAt: { gte: query.createdAfter, lte: query.createdBefore } },
+        { expiresAt: { gte: query.expiresAfter, lte: query.expiresBefore } },
+        ...(query.unusedForDays
+          ? [getUnusedTokenFilter(new Date(now.getTime() - query.unusedForDays * 24 * 60 * 60 * 1000))]
+          : []),
+      ],
     },
+    // Tie-break on id so the cursor position is stable
+    orderBy: [{ [sort]: order }, { id: order }],
+    // Fetch one extra row to learn whether another page exists
+    take: limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
   });
 
-  return tokens;
+  const page = tokens.slice(0, limit);
+
+  await recordTokenEvents(prisma, 'list', audit, [
+    { tenantId, userId: query.userId, details: { count: page.length, state: query.state ?? 'active' } },
+  ]);
+
+  return {
+    tokens: page,
+    nextCursor: tokens.length > limit ? page[page.length - 1].id : null,
+  };
 }
 
 /**
- * Optional: Clean up expired tokens (maintenance function)
- * This could be called periodically or on-demand
+ * Introspects a presented token string
+ * Unknown, expired and revoked tokens, and tokens of other tenants, are
+ * reported as inactive, as are bound tokens presented without a valid proof
+ * of possession. Introspecting an active token counts as a use, which also
+ * pushes the expiry of sliding tokens forward.
+ *
+ * @param tokenString - The token value presented by the caller
+ * @param tenantId - The caller's tenant
+ * @param expand - Also report the effective scopes implied by the grant
+ * @param audit - Who is introspecting the token
+ * @param proof - Proof of possession presented with the token, required for bound tokens
+ * @returns RFC 7662 style introspection result
  */
-export async function deleteExpiredTokens(): Promise<number> {
+export async function introspectToken(
+  tokenString: string,
+  tenantId: string,
+  expand: boolean = false,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  proof: PossessionProof | null = null
+): Promise<IntrospectionResponse> {
   const now = new Date();
+  const foundToken = await findTokenByValue(tokenString);
+  const token = foundToken?.tenantId === tenantId ? foundToken : null;
+  const cnf = token ? getTokenConfirmation(token) : null;
+  let active = !!token && !isTokenExpired(token.expiresAt) && !isTokenRevoked(token);
+  let proofError: string | null = null;
+  let extendedExpiresAt: Date | null = null;
 
-  const result = await prisma.token.deleteMany({
-    where: {
-      expiresAt: {
-        lte: now,
+  // A bound token is only active in the hands of its key holder
+  if (active && cnf) {
+    try {
+      await verifyPossessionProof(proof, cnf, tokenString, now);
+    } catch (error) {
+      if (!(error instanceof JwtError)) {
+        throw error;
+      }
+      active = false;
+      proofError = error.message;
+    }
+  }
+
+  if (token && active) {
+    getTokenUsageBuffer().record(token.id, audit.ip, now);
+
+    const slidingExpiry = calculateSlidingExpiry(token, now);
+
+    // Guarded so a concurrent revocation or expiry is not undone
+    if (slidingExpiry) {
+      const result = await prisma.token.updateMany({
+        where: {
+          id: token.id,
+          revokedAt: null,
+          expiresAt: {
+            gt: now,
+          },
+        },
+        data: {
+          expiresAt: slidingExpiry,
+        },
+      });
+
+      if (result.count > 0) {
+        extendedExpiresAt = slidingExpiry;
+      }
+    }
+  }
+
+  await recordTokenEvents(prisma, 'introspect', audit, [
+    {
+      tenantId,
+      tokenId: token?.id,
+      userId: token?.userId,
+      details: {
+        active,
+        ...(extendedExpiresAt ? { expiresAt: extendedExpiresAt.toISOString() } : {}),
+        ...(proofError ? { proofError } : {}),
       },
     },
+  ]);
+
+  if (!token || !active) {
+    return { active: false };
+  }
+
+  const result: IntrospectionResponse = {
+    active: true,
+    scope: token.scopes.join(' '),
+    sub: token.userId,
+    exp: toEpochSeconds(extendedExpiresAt ?? token.expiresAt),
+    iat: toEpochSeconds(token.createdAt),
+  };
+
+  if (cnf) {
+    result.cnf = cnf;
+  }
+
+  if (expand) {
+    result.effective_scope = expandScopes(token.scopes, await getScopeCatalogue()).join(' ');
+  }
+
+  return result;
+}
+
+/**
+ * Serializes tokens for listing, optionally with their effective scopes
+ *
+ * @param tokens - The stored tokens
+ * @param expand - Resolve wildcards and implied scopes into `effectiveScopes`
+ */
+export async function serializeTokenList(tokens: Token[], expand: boolean = false): Promise<TokenResponse[]> {
+  if (!expand) {
+    return tokens.map((token) => serializeToken(token));
+  }
+
+  const catalogue = await getScopeCatalogue();
+
+  return tokens.map((token) => ({
+    ...serializeToken(token),
+    effectiveScopes: expandScopes(token.scopes, catalogue),
+  }));
+}
+
+/**
+ * Reason recorded on tokens revoked because an ancestor was revoked
+ */
+const PARENT_REVOKED_REASON = 'Parent token revoked';
+
+/**
+ * Revokes the active descendants of revoked tokens, level by level
+ *
+ * @param db - Transaction client of the parent revocation
+ * @param parentIds - Tokens that were just revoked
+ * @param revokedAt - Revocation time shared with the parents
+ * @param audit - Who revoked the parents
+ * @returns Number of descendants revoked
+ */
+async function revokeChildTokens(
+  db: DbClient,
+  parentIds: string[],
+  revokedAt: Date,
+  audit: AuditContext
+): Promise<number> {
+  let revokedCount = 0;
+  let pendingIds = parentIds;
+
+  while (pendingIds.length > 0) {
+    const children = await db.token.findMany({
+      where: {
+        parentId: {
+          in: pendingIds,
+        },
+        revokedAt: null,
+      },
+      select: {
+        id: true,
+        userId: true,
+        parentId: true,
+        tenantId: true,
+      },
+    });
+
+    if (children.length === 0) {
+      break;
+    }
+
+    await db.token.updateMany({
+      where: {
+        id: {
+          in: children.map((child) => child.id),
+        },
+        revokedAt: null,
+      },
+      data: {
+        revokedAt,
+        revokedReason: PARENT_REVOKED_REASON,
+      },
+    });
+
+    await recordTokenEvents(
+      db,
+      'revoke',
+      audit,
+      children.map((child) => ({
+        tenantId: child.tenantId,
+        tokenId: child.id,
+        userId: child.userId,
+        details: { reason: PARENT_REVOKED_REASON, parentId: child.parentId },
+      }))
+    );
+
+    await enqueueWebhookEvents(
+      db,
+      'token.revoked',
+      children.map((child) => ({
+        tenantId: child.tenantId,
+        tokenId: child.id,
+        userId: child.userId,
+        details: { reason: PARENT_REVOKED_REASON, revokedAt: revokedAt.toISOString() },
+      }))
+    );
+
+    revokedCount += children.length;
+    pendingIds = children.map((child) => child.id);
+  }
+
+  return revokedCount;
+}
+
+/**
+ * Revokes a single token and the child tokens exchanged from it
+ * Revocation is recorded rather than deleting the row, and revoking an
+ * already revoked token keeps the original revocation metadata
+ *
+ * @param id - The token identifier
+ * @param tenantId - The caller's tenant
+ * @param reason - Optional human-readable revocation reason
+ * @param audit - Who is revoking the token
+ * @param db - Client to use, pass a transaction client to join a transaction
+ * @returns The revoked token, or null if it does not exist in the tenant
+ */
+export async function revokeToken(
+  id: string,
+  tenantId: string,
+  reason?: string,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  db: DbClient = prisma
+): Promise<Token | null> {
+  return inTransaction(db, async (tx) => {
+    const token = await tx.token.findUnique({
+      where: {
+        id,
+        tenantId,
+      },
+    });
+
+    if (!token || isTokenRevoked(token)) {
+      return token;
+    }
+
+    const revokedToken = await tx.token.update({
+      where: {
+        id,
+      },
+      data: {
+        revokedAt: new Date(),
+        revokedReason: reason ?? null,
+      },
+    });
+
+    await recordTokenEvents(tx, 'revoke', audit, [
+      { tenantId, tokenId: id, userId: token.userId, details: { reason: reason ?? null } },
+    ]);
+
+    await enqueueWebhookEvents(tx, 'token.revoked', [
+      {
+        tenantId,
+        tokenId: id,
+        userId: token.userId,
+        details: { reason: reason ?? null, revokedAt: revokedToken.revokedAt?.toISOString() ?? null },
+      },
+    ]);
+
+    await revokeChildTokens(tx, [id], revokedToken.revokedAt ?? new Date(), audit);
+
+    return revokedToken;
+  });
+}
+
+/**
+ * Revokes every token of a user that is not already revoked,
+ * including refresh tokens so no new access tokens can be obtained
+ *
+ * @param userId - The user identifier
+ * @param tenantId - The caller's tenant; user ids are only unique within it
+ * @param reason - Optional human-readable revocation reason
+ * @param audit - Who is revoking the tokens
+ * @returns Number of access tokens revoked
+ */
+export async function revokeTokensForUser(
+  userId: string,
+  tenantId: string,
+  reason?: string,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<number> {
+  const revokedAt = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const tokens = await tx.token.findMany({
+      where: {
+        tenantId,
+        userId,
+        revokedAt: null,
+      },
+      select: {
+        id: true,
+      },
+    });
+
+    const result = await tx.token.updateMany({
+      where: {
+        id: {
+          in: tokens.map((token) => token.id),
+        },
+        revokedAt: null,
+      },
+      data: {
+        revokedAt,
+        revokedReason: reason ?? null,
+      },
+    });
+
+    await tx.refreshToken.updateMany({
+      where: {
+        tenantId,
+        userId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt,
+      },
+    });
+
+    await recordTokenEvents(
+      tx,
+      'revoke',
+      audit,
+      tokens.map((token) => ({ tenantId, tokenId: token.id, userId, details: { reason: reason ?? null } }))
+    );
+
+    await enqueueWebhookEvents(
+      tx,
+      'token.revoked',
+      tokens.map((token) => ({
+        tenantId,
+        tokenId: token.id,
+        userId,
+        details: { reason: reason ?? null, revokedAt: revokedAt.toISOString() },
+      }))
+    );
+
+    return result.count;
   });
+}
+
+/**
+ * Revokes every access and refresh token issued within a refresh family,
+ * and the child tokens exchanged from them
+ *
+ * @param familyId - The token family identifier
+ * @param reason - Human-readable revocation reason
+ * @param db - Client to use, pass a transaction client to join a transaction
+ * @param audit - Who is revoking the family
+ */
+export async function revokeTokenFamily(
+  familyId: string,
+  reason: string,
+  db: DbClient = prisma,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT
+): Promise<void> {
+  const revokedAt = new Date();
+
+  await inTransaction(db, async (tx) => {
+    const tokens = await tx.token.findMany({
+      where: {
+        familyId,
+        revokedAt: null,
+      },
+      select: {
+        id: true,
+        userId: true,
+        tenantId: true,
+      },
+    });
+
+    await tx.token.updateMany({
+      where: {
+        id: {
+          in: tokens.map((token) => token.id),
+        },
+        revokedAt: null,
+      },
+      data: {
+        revokedAt,
+        revokedReason: reason,
+      },
+    });
+
+    await tx.refreshToken.updateMany({
+      where: {
+        familyId,
+        revokedAt: null,
+      },
+      data: {
+        revokedAt,
+      },
+    });
+
+    await recordTokenEvents(
+      tx,
+      'revoke',
+      audit,
+      tokens.map((token) => ({ tenantId: token.tenantId, tokenId: token.id, userId: token.userId, details: { reason, familyId } }))
+    );
+
+    await enqueueWebhookEvents(
+      tx,
+      'token.revoked',
+      tokens.map((token) => ({
+        tenantId: token.tenantId,
+        tokenId: token.id,
+        userId: token.userId,
+        details: { reason, revokedAt: revokedAt.toISOString() },
+      }))
+    );
 
-  return result.count;
+    await revokeChildTokens(
+      tx,
+      tokens.map((token) => token.id),
+      revokedAt,
+      audit
+    );
+  });
+}
+
+/**
+ * Default number of tokens deleted per transaction by cleanup
+ */
+export const DEFAULT_PURGE_BATCH_SIZE = 500;
+
+/**
+ * Builds the filter for tokens that expired before a cutoff without being revoked
+ * A null tenant matches tokens of every tenant.
+ */
+export function getExpiredTokenFilter(expiredBefore: Date, tenantId: string | null = null): Prisma.TokenWhereInput {
+  return { ...(tenantId !== null && { tenantId }), revokedAt: null, expiresAt: { lte: expiredBefore } };
+}
+
+/**
+ * Builds the filter for tokens revoked before a cutoff
+ * A null tenant matches tokens of every tenant.
+ */
+export function getRevokedTokenFilter(revokedBefore: Date, tenantId: string | null = null): Prisma.TokenWhereInput {
+  return { ...(tenantId !== null && { tenantId }), revokedAt: { lte: revokedBefore } };
+}
+
+type PurgedToken = Pick<Token, 'id' | 'userId' | 'expiresAt' | 'revokedAt' | 'tenantId'>;
+
+/**
+ * Deletes matching tokens one batch per transaction, so row locks are held
+ * briefly, recording an event per deleted token
+ *
+ * @returns Number of tokens deleted
+ */
+async function deleteTokensInBatches(
+  where: Prisma.TokenWhereInput,
+  batchSize: number,
+  type: TokenEventType,
+  audit: AuditContext,
+  details: (token: PurgedToken) => Record<string, unknown>
+): Promise<number> {
+  let deleted = 0;
+  let batchLength: number;
+
+  do {
+    batchLength = await prisma.$transaction(async (tx) => {
+      const tokens = await tx.token.findMany({
+        where,
+        select: {
+          id: true,
+          userId: true,
+          expiresAt: true,
+          revokedAt: true,
+          tenantId: true,
+        },
+        take: batchSize,
+      });
+
+      const result = await tx.token.deleteMany({
+        where: {
+          id: {
+            in: tokens.map((token) => token.id),
+          },
+        },
+      });
+
+      await recordTokenEvents(
+        tx,
+        type,
+        audit,
+        tokens.map((token) => ({ tenantId: token.tenantId, tokenId: token.id, userId: token.userId, details: details(token) }))
+      );
+
+      deleted += result.count;
+      return tokens.length;
+    });
+  } while (batchLength === batchSize);
+
+  return deleted;
+}
+
+/**
+ * Deletes tokens that expired before a cutoff and were never revoked
+ * Each deleted token is recorded as an expire event
+ *
+ * @param expiredBefore - Keep tokens that expired after this time
+ * @param batchSize - Tokens deleted per transaction
+ * @param audit - Who is cleaning up, the system for scheduled runs
+ * @param tenantId - Only delete tokens of this tenant, null for every tenant
+ * @returns Number of tokens deleted
+ */
+export async function deleteExpiredTokens(
+  expiredBefore: Date = new Date(),
+  batchSize: number = DEFAULT_PURGE_BATCH_SIZE,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  tenantId: string | null = null
+): Promise<number> {
+  return deleteTokensInBatches(getExpiredTokenFilter(expiredBefore, tenantId), batchSize, 'expire', audit, (token) => ({
+    expiresAt: token.expiresAt.toISOString(),
+  }));
+}
+
+/**
+ * Deletes tokens revoked before a cutoff
+ * Each deleted token is recorded as a purge event
+ *
+ * @param revokedBefore - Keep tokens revoked after this time
+ * @param batchSize - Tokens deleted per transaction
+ * @param audit - Who is cleaning up, the system for scheduled runs
+ * @param tenantId - Only delete tokens of this tenant, null for every tenant
+ * @returns Number of tokens deleted
+ */
+export async function deleteRevokedTokens(
+  revokedBefore: Date,
+  batchSize: number = DEFAULT_PURGE_BATCH_SIZE,
+  audit: AuditContext = SYSTEM_AUDIT_CONTEXT,
+  tenantId: string | null = null
+): Promise<number> {
+  return deleteTokensInBatches(getRevokedTokenFilter(revokedBefore, tenantId), batchSize, 'purge', audit, (token) => ({
+    revokedAt: token.revokedAt?.toISOString() ?? null,
+    expiresAt: token.expiresAt.toISOString(),
+  }));
 }
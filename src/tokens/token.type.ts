@@ -1,13 +1,126 @@
+import type { AuditContext } from '@/audit/audit.type';
+
+/**
+ * Token formats: opaque random strings or self-contained signed JWTs
+ */
+export type TokenFormat = 'opaque' | 'jwt';
+
+/**
+ * Lifecycle state of a token, derived from its expiry and revocation
+ */
+export type TokenState = 'active' | 'expired' | 'revoked';
+
+/**
+ * Confirmation (RFC 7800 `cnf`) binding a token to a key its presenter must
+ * prove possession of
+ * - jkt: RFC 7638 thumbprint of a public JWK (DPoP style, RFC 9449)
+ * - x5t#S256: SHA-256 thumbprint of a DER encoded X.509 certificate (RFC 8705)
+ * Thumbprints are base64url encoded without padding.
+ */
+export type TokenConfirmation = { jkt: string } | { 'x5t#S256': string };
+
+/**
+ * Proof of possession forwarded by the resource server the token was presented
+ * to, or sent along with a bound refresh token
+ * `jwt` is the signed proof (`typ: dpop+jwt`); `htm` and `htu` are the method
+ * and URL of the request it was presented with.
+ */
+export interface PossessionProof {
+  jwt: string;
+  htm: string;
+  htu: string;
+}
+
 /**
  * Core token type matching the database schema
+ * Only a SHA-256 digest of the secret is stored, plus a short display prefix.
+ * Bound tokens carry the thumbprint of their key in `cnfJkt` or `cnfX5tS256`.
  */
 export interface Token {
   id: string;
-  token: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  format: TokenFormat;
+  jti: string | null;
+  userId: string;
+  name: string | null;
+  description: string | null;
+  scopes: string[];
+  createdAt: Date;
+  expiresAt: Date;
+  idleTimeoutMinutes: number | null;
+  maxExpiresAt: Date | null;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  useCount: number;
+  familyId: string | null;
+  clientId: string | null;
+  parentId: string | null;
+  tenantId: string;
+  cnfJkt: string | null;
+  cnfX5tS256: string | null;
+}
+
+/**
+ * Refresh token matching the database schema
+ * Exchanged for a new access/refresh pair; every pair descending from the
+ * same original refresh token shares a familyId
+ */
+export interface RefreshToken {
+  id: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  familyId: string;
   userId: string;
   scopes: string[];
+  accessExpiresInMinutes: number;
+  accessFormat: TokenFormat;
   createdAt: Date;
   expiresAt: Date;
+  rotatedAt: Date | null;
+  replacedById: string | null;
+  revokedAt: Date | null;
+  clientId: string | null;
+  name: string | null;
+  description: string | null;
+  tenantId: string;
+  cnfJkt: string | null;
+  cnfX5tS256: string | null;
+}
+
+/**
+ * Options for creating an access token
+ */
+export interface CreateTokenOptions {
+  format?: TokenFormat;
+  familyId?: string | null;
+  clientId?: string | null;
+  name?: string | null;
+  description?: string | null;
+  idleTimeoutMinutes?: number | null;
+  parent?: Pick<Token, 'id' | 'expiresAt'> | null;
+  tenantId?: string;
+  cnf?: TokenConfirmation | null;
+  audit?: AuditContext;
+}
+
+/**
+ * A freshly created token together with its plaintext secret
+ * The plaintext is never persisted and is only available at creation time
+ */
+export interface IssuedToken {
+  token: Token;
+  plaintext: string;
+}
+
+/**
+ * An access token issued together with its paired refresh token
+ */
+export interface IssuedTokenPair extends IssuedToken {
+  refreshToken: RefreshToken;
+  refreshPlaintext: string;
 }
 
 /**
@@ -17,19 +130,174 @@ export interface CreateTokenRequest {
   userId: string;
   scopes: string[];
   expiresInMinutes: number;
+  format?: TokenFormat;
+  refreshExpiresInMinutes?: number;
+  name?: string;
+  description?: string;
+  idleTimeoutMinutes?: number;
+  cnf?: TokenConfirmation;
+}
+
+/**
+ * Request payload for extending a token
+ */
+export interface ExtendTokenRequest {
+  expiresInMinutes: number;
+}
+
+/**
+ * Request payload for updating a token
+ * Scopes can only be narrowed and expiry only shortened
+ */
+export interface UpdateTokenRequest {
+  name?: string | null;
+  description?: string | null;
+  scopes?: string[];
+  expiresAt?: string;
 }
 
 /**
  * Response format for token operations
  * Serializes dates as ISO strings for JSON compatibility
+ * `token` holds the plaintext secret in creation responses and a masked
+ * form (display prefix only) everywhere else
  */
 export interface TokenResponse {
   id: string;
   token: string;
+  format: TokenFormat;
   userId: string;
+  name: string | null;
+  description: string | null;
   scopes: string[];
   createdAt: string;
   expiresAt: string;
+  idleTimeoutMinutes: number | null;
+  maxExpiresAt: string | null;
+  revokedAt: string | null;
+  revokedReason: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  useCount: number;
+  clientId: string | null;
+  parentId: string | null;
+  tenantId: string;
+  cnf: TokenConfirmation | null;
+  effectiveScopes?: string[];
+}
+
+/**
+ * Response format when an access token is issued with a refresh token
+ * The refresh token plaintext is only ever returned here
+ */
+export interface TokenPairResponse extends TokenResponse {
+  refreshToken: string;
+  refreshTokenExpiresAt: string;
+}
+
+/**
+ * Response format for a page of tokens
+ * `nextCursor` is null on the last page
+ */
+export interface TokenListResponse {
+  tokens: TokenResponse[];
+  nextCursor: string | null;
+}
+
+/**
+ * A page of stored tokens
+ */
+export interface TokenPage {
+  tokens: Token[];
+  nextCursor: string | null;
+}
+
+/**
+ * Request payload for exchanging a refresh token
+ */
+export interface RefreshTokenRequest {
+  refreshToken: string;
+  proof?: PossessionProof;
+}
+
+/**
+ * Response format for revoking every token of a user
+ */
+export interface RevokeTokensResponse {
+  userId: string;
+  revokedCount: number;
+}
+
+/**
+ * How a batch request is applied
+ * - atomic: every item in one transaction; one failure rolls back all items
+ * - partial: every item on its own; failed items do not affect the others
+ */
+export type BatchMode = 'atomic' | 'partial';
+
+/**
+ * Request payload for creating tokens in a batch
+ */
+export interface CreateTokenBatchRequest {
+  mode?: BatchMode;
+  items: CreateTokenRequest[];
+}
+
+/**
+ * Request payload for revoking tokens in a batch
+ */
+export interface RevokeTokenBatchRequest {
+  mode?: BatchMode;
+  items: { id: string; reason?: string }[];
+}
+
+/**
+ * Outcome of one batch item
+ * `status` is the HTTP status the item would have had as a single request;
+ * 424 marks items not applied because another item failed in atomic mode.
+ */
+export interface BatchItemResult<T> {
+  index: number;
+  status: number;
+  result?: T;
+  error?: string;
+  details?: unknown;
+}
+
+/**
+ * Response format for a batch request
+ */
+export interface BatchResponse<T> {
+  mode: BatchMode;
+  succeeded: number;
+  failed: number;
+  items: BatchItemResult<T>[];
+}
+
+/**
+ * Request payload for token introspection
+ */
+export interface IntrospectTokenRequest {
+  token: string;
+  expand?: boolean;
+  proof?: PossessionProof;
+}
+
+/**
+ * Introspection response format (RFC 7662 style)
+ * Unknown, expired and revoked tokens only expose `active: false` to avoid leaking details
+ * Timestamps are expressed in seconds since the Unix epoch
+ * `effective_scope` lists granted plus implied scopes when expansion is requested
+ * `cnf` names the key bound tokens were proven to be presented with
+ */
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  effective_scope?: string;
+  sub?: string;
+  exp?: number;
+  iat?: number;
+  cnf?: TokenConfirmation;
 }
 
 /**
@@ -39,3 +307,12 @@ export interface ErrorResponse {
   error: string;
   details?: unknown;
 }
+
+/**
+ * Uses of a token not yet written to the database
+ */
+export interface TokenUsage {
+  useCount: number;
+  lastUsedAt: Date;
+  lastUsedIp: string | null;
+}
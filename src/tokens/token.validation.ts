@@ -1,5 +1,37 @@
 import { z } from 'zod';
 
+/**
+ * Longest lifetime any token may have: 1 year
+ */
+export const MAX_TOKEN_LIFETIME_MINUTES = 525600;
+
+/**
+ * Most items a batch request may contain
+ */
+export const MAX_BATCH_SIZE = 100;
+
+const tokenNameSchema = z
+  .string()
+  .min(1, 'name must not be empty')
+  .max(100, 'name cannot exceed 100 characters');
+
+const tokenDescriptionSchema = z
+  .string()
+  .max(500, 'description cannot exceed 500 characters');
+
+const thumbprintSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{43}$/, 'Thumbprints must be base64url encoded SHA-256 digests without padding');
+
+/**
+ * Validation schema for a token binding: exactly one of `jkt` (JWK
+ * thumbprint) or `x5t#S256` (certificate thumbprint)
+ */
+export const tokenConfirmationSchema = z.union([
+  z.strictObject({ jkt: thumbprintSchema }),
+  z.strictObject({ 'x5t#S256': thumbprintSchema }),
+]);
+
 /**
  * Validation schema for creating a new token
  * 
@@ -7,28 +39,232 @@ import { z } from 'zod';
  * - userId: non-empty string
  * - scopes: array with at least one non-empty string
  * - expiresInMinutes: positive integer, max 1 year (525600 minutes)
+ * - format: optional, "opaque" (default) or "jwt"
+ * - refreshExpiresInMinutes: optional, issues a paired refresh token; must
+ *   outlive the access token and is also capped at 1 year
+ * - name, description: optional labels, e.g. "CI deploy key"
+ * - idleTimeoutMinutes: optional, enables sliding expiration; the token
+ *   expires after this much inactivity and expiresInMinutes becomes the
+ *   absolute maximum lifetime. Not available for JWTs or refresh pairs.
+ * - cnf: optional, binds the token to a key; introspection then requires a
+ *   proof signed with it
  */
-export const createTokenSchema = z.object({
-  userId: z.string().min(1, 'userId must not be empty'),
-  scopes: z
-    .array(z.string().min(1, 'Each scope must be a non-empty string'))
-    .min(1, 'At least one scope is required'),
+export const createTokenSchema = z
+  .object({
+    userId: z.string().min(1, 'userId must not be empty'),
+    scopes: z
+      .array(z.string().min(1, 'Each scope must be a non-empty string'))
+      .min(1, 'At least one scope is required'),
+    expiresInMinutes: z
+      .number()
+      .int('expiresInMinutes must be an integer')
+      .positive('expiresInMinutes must be positive')
+      .max(MAX_TOKEN_LIFETIME_MINUTES, 'expiresInMinutes cannot exceed 1 year (525600 minutes)'),
+    format: z.enum(['opaque', 'jwt']).optional(),
+    refreshExpiresInMinutes: z
+      .number()
+      .int('refreshExpiresInMinutes must be an integer')
+      .positive('refreshExpiresInMinutes must be positive')
+      .max(MAX_TOKEN_LIFETIME_MINUTES, 'refreshExpiresInMinutes cannot exceed 1 year (525600 minutes)')
+      .optional(),
+    name: tokenNameSchema.optional(),
+    description: tokenDescriptionSchema.optional(),
+    idleTimeoutMinutes: z
+      .number()
+      .int('idleTimeoutMinutes must be an integer')
+      .positive('idleTimeoutMinutes must be positive')
+      .optional(),
+    cnf: tokenConfirmationSchema.optional(),
+  })
+  .refine(
+    (data) => data.refreshExpiresInMinutes === undefined || data.refreshExpiresInMinutes > data.expiresInMinutes,
+    {
+      message: 'refreshExpiresInMinutes must be greater than expiresInMinutes',
+      path: ['refreshExpiresInMinutes'],
+    }
+  )
+  .refine(
+    (data) => data.idleTimeoutMinutes === undefined || data.idleTimeoutMinutes <= data.expiresInMinutes,
+    {
+      message: 'idleTimeoutMinutes cannot exceed expiresInMinutes',
+      path: ['idleTimeoutMinutes'],
+    }
+  )
+  .refine(
+    (data) => data.idleTimeoutMinutes === undefined || (data.format !== 'jwt' && data.refreshExpiresInMinutes === undefined),
+    {
+      message: 'Sliding expiration is only available for opaque tokens without a refresh token',
+      path: ['idleTimeoutMinutes'],
+    }
+  );
+
+/**
+ * Validation schema for updating a token
+ * 
+ * Rules:
+ * - name, description: new labels, null clears them
+ * - scopes: must be covered by the current grant (narrowing only)
+ * - expiresAt: ISO 8601, in the future and not after the current expiry
+ * - at least one field must be given
+ */
+export const updateTokenSchema = z
+  .object({
+    name: tokenNameSchema.nullable().optional(),
+    description: tokenDescriptionSchema.nullable().optional(),
+    scopes: z
+      .array(z.string().min(1, 'Each scope must be a non-empty string'))
+      .min(1, 'At least one scope is required')
+      .optional(),
+    expiresAt: z.iso
+      .datetime({ offset: true })
+      .transform((value) => new Date(value))
+      .optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field is required',
+  });
+
+/**
+ * Validation schema for extending a token
+ * 
+ * Rules:
+ * - expiresInMinutes: new lifetime counted from now; the token's total
+ *   lifetime since creation still cannot exceed 1 year (525600 minutes)
+ */
+export const extendTokenSchema = z.object({
   expiresInMinutes: z
     .number()
     .int('expiresInMinutes must be an integer')
     .positive('expiresInMinutes must be positive')
-    .max(525600, 'expiresInMinutes cannot exceed 1 year (525600 minutes)'),
+    .max(MAX_TOKEN_LIFETIME_MINUTES, 'expiresInMinutes cannot exceed 1 year (525600 minutes)'),
 });
 
+const isoDateSchema = z.iso.datetime({ offset: true }).transform((value) => new Date(value));
+
 /**
  * Validation schema for querying tokens by userId
+ * 
+ * Rules:
+ * - expand: `true` adds the effective (implied) scopes of each token
+ * - scope: only tokens granted this exact scope
+ * - createdAfter/createdBefore, expiresAfter/expiresBefore: ISO 8601 bounds (inclusive)
+ * - state: active (default), expired or revoked
+ * - unusedForDays: only tokens not used (or never used) in this many days
+ * - sort/order: createdAt (default) or expiresAt, desc (default) or asc
+ * - limit: page size between 1 and 100, defaults to 50
+ * - cursor: `nextCursor` of the previous page
  */
 export const getTokensSchema = z.object({
   userId: z.string().min(1, 'userId must not be empty'),
+  expand: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  scope: z.string().min(1, 'scope must not be empty').optional(),
+  createdAfter: isoDateSchema.optional(),
+  createdBefore: isoDateSchema.optional(),
+  expiresAfter: isoDateSchema.optional(),
+  expiresBefore: isoDateSchema.optional(),
+  state: z.enum(['active', 'expired', 'revoked']).optional(),
+  unusedForDays: z.coerce
+    .number()
+    .int('unusedForDays must be an integer')
+    .positive('unusedForDays must be positive')
+    .max(3650, 'unusedForDays cannot exceed 10 years (3650 days)')
+    .optional(),
+  sort: z.enum(['createdAt', 'expiresAt']).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  limit: z.coerce
+    .number()
+    .int('limit must be an integer')
+    .min(1, 'limit must be at least 1')
+    .max(100, 'limit cannot exceed 100')
+    .optional(),
+  cursor: z.string().min(1, 'cursor must not be empty').optional(),
+});
+
+/**
+ * Validation schema for a proof of possession: `jwt` is the presenter's
+ * signed proof, `htm` and `htu` the method and absolute URL of the request
+ * the token was presented with
+ */
+const possessionProofSchema = z.object({
+  jwt: z.string().min(1, 'proof.jwt must not be empty'),
+  htm: z.string().min(1, 'proof.htm must not be empty'),
+  htu: z.url('proof.htu must be an absolute URL'),
+});
+
+/**
+ * Validation schema for introspecting a presented token string
+ *
+ * Rules:
+ * - proof: optional; required for bound tokens to be reported active
+ */
+export const introspectTokenSchema = z.object({
+  token: z.string().min(1, 'token must not be empty'),
+  expand: z.boolean().optional(),
+  proof: possessionProofSchema.optional(),
+});
+
+/**
+ * Validation schema for revoking a single token
+ */
+export const revokeTokenSchema = z.object({
+  reason: z.string().min(1, 'reason must not be empty').max(255, 'reason cannot exceed 255 characters').optional(),
+});
+
+/**
+ * Validation schema for revoking every token of a user
+ */
+export const revokeUserTokensSchema = z.object({
+  userId: z.string().min(1, 'userId must not be empty'),
+  reason: z.string().min(1, 'reason must not be empty').max(255, 'reason cannot exceed 255 characters').optional(),
+});
+
+/**
+ * Validation schema for a batch request envelope
+ * Items are validated one by one, so an invalid item is reported alongside the others
+ *
+ * Rules:
+ * - mode: optional, "atomic" (default) or "partial"
+ * - items: 1 to 100 entries
+ */
+export const batchSchema = z.object({
+  mode: z.enum(['atomic', 'partial']).default('atomic'),
+  items: z
+    .array(z.unknown())
+    .min(1, 'At least one item is required')
+    .max(MAX_BATCH_SIZE, `items cannot exceed ${MAX_BATCH_SIZE} entries`),
+});
+
+/**
+ * Validation schema for one item of a batch revocation
+ */
+export const revokeTokenBatchItemSchema = revokeTokenSchema.extend({
+  id: z.string().min(1, 'id must not be empty'),
+});
+
+/**
+ * Validation schema for exchanging a refresh token
+ *
+ * Rules:
+ * - proof: optional; required to rotate a bound refresh token
+ */
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'refreshToken must not be empty'),
+  proof: possessionProofSchema.optional(),
 });
 
 /**
  * Type inference from schemas for TypeScript
  */
 export type CreateTokenInput = z.infer<typeof createTokenSchema>;
+export type UpdateTokenInput = z.infer<typeof updateTokenSchema>;
+export type ExtendTokenInput = z.infer<typeof extendTokenSchema>;
 export type GetTokensInput = z.infer<typeof getTokensSchema>;
+export type IntrospectTokenInput = z.infer<typeof introspectTokenSchema>;
+export type RevokeTokenInput = z.infer<typeof revokeTokenSchema>;
+export type RevokeUserTokensInput = z.infer<typeof revokeUserTokensSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type BatchInput = z.infer<typeof batchSchema>;
+export type RevokeTokenBatchItemInput = z.infer<typeof revokeTokenBatchItemSchema>;
@@ -0,0 +1,377 @@
+import { createServer, type IncomingHttpHeaders, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { randomBytes } from 'crypto';
+import {
+  createWebhookSubscription,
+  dispatchWebhookDeliveries,
+  enqueueWebhookEvents,
+  getWebhookRetryDelayMs,
+  getWebhookSubscription,
+  sendWebhook,
+  signWebhookPayload,
+} from '../webhook.service';
+import { prisma } from '@/lib/db';
+import { decryptSecret, encryptSecret } from '@/lib/encryption';
+import { ApiError } from '@/lib/errors';
+import { requireTenant } from '@/tenants/tenant.service';
+import type { WebhookPayload } from '@/webhooks/webhook.type';
+
+// Mock Prisma Client to avoid database dependency in unit tests;
+// batched transactions simply run their operations
+jest.mock('@/lib/db', () => {
+  const client = {
+    webhookSubscription: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+    },
+    webhookDelivery: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    webhookDeliveryAttempt: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn((operations) => Promise.all(operations)),
+  };
+  return {
+    prisma: client,
+    withAdvisoryLock: jest.fn((name, fn) => fn()),
+  };
+});
+
+jest.mock('@/tenants/tenant.service', () => ({
+  requireTenant: jest.fn(),
+}));
+
+let mockEncryptionKey: Buffer | null = null;
+
+jest.mock('@/lib/config', () => ({
+  getConfig: () => ({
+    keys: { encryptionKey: mockEncryptionKey },
+    webhooks: { dispatchIntervalSeconds: 10, maxAttempts: 3, timeoutSeconds: 1 },
+  }),
+}));
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Local HTTP endpoint standing in for a subscriber
+ */
+let server: Server;
+let stubUrl: string;
+let received: ReceivedRequest[];
+let respond: (response: ServerResponse) => void;
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      received.push({ headers: request.headers, body });
+      respond(response);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  stubUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const masterKey = randomBytes(32);
+const secret = 'whsec_test';
+
+const payload: WebhookPayload = {
+  id: 'evt_1',
+  type: 'token.revoked',
+  createdAt: '2025-01-01T10:00:00.000Z',
+  data: { tokenId: 'token_1', userId: 'user123', reason: 'leaked' },
+};
+
+const pendingDelivery = (overrides = {}) => ({
+  id: 'delivery_1',
+  subscriptionId: 'hook_1',
+  eventType: 'token.revoked',
+  payload,
+  status: 'pending',
+  attempts: 0,
+  nextAttemptAt: new Date('2025-01-01T10:00:00.000Z'),
+  lastAttemptAt: null,
+  deliveredAt: null,
+  createdAt: new Date('2025-01-01T10:00:00.000Z'),
+  subscription: {
+    id: 'hook_1',
+    url: stubUrl,
+    eventTypes: ['token.revoked'],
+    description: null,
+    encryptedSecret: encryptSecret(secret, masterKey),
+    enabled: true,
+    tenantId: 'default',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+  ...overrides,
+});
+
+describe('Webhook Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    received = [];
+    respond = (response) => response.writeHead(204).end();
+    mockEncryptionKey = masterKey;
+  });
+
+  describe('getWebhookRetryDelayMs', () => {
+    it('should double the delay after every failed attempt up to a cap', () => {
+      expect(getWebhookRetryDelayMs(1)).toBe(30 * 1000);
+      expect(getWebhookRetryDelayMs(2)).toBe(60 * 1000);
+      expect(getWebhookRetryDelayMs(4)).toBe(4 * 60 * 1000);
+      expect(getWebhookRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('createWebhookSubscription', () => {
+    it('should store the secret encrypted and return it once', async () => {
+      const create = prisma.webhookSubscription.create as jest.Mock;
+      create.mockImplementation(({ data }) => Promise.resolve({ id: 'hook_1', ...data }));
+
+      const { subscription, secret: issuedSecret } = await createWebhookSubscription(
+        { url: stubUrl, eventTypes: ['token.created'] },
+        'acme'
+      );
+
+      expect(subscription.tenantId).toBe('acme');
+      expect(issuedSecret).toMatch(/^whsec_/);
+      expect(subscription.encryptedSecret).not.toContain(issuedSecret);
+      expect(decryptSecret(subscription.encryptedSecret, masterKey)).toBe(issuedSecret);
+    });
+
+    it('should refuse subscriptions without a master key', async () => {
+      mockEncryptionKey = null;
+
+      await expect(
+        createWebhookSubscription({ url: stubUrl, eventTypes: ['token.created'] }, 'acme')
+      ).rejects.toMatchObject({ status: 503 });
+    });
+
+    it('should refuse subscriptions for unknown tenants', async () => {
+      (requireTenant as jest.Mock).mockRejectedValueOnce(new ApiError(404, 'Tenant not found'));
+
+      await expect(
+        createWebhookSubscription({ url: stubUrl, eventTypes: ['token.created'] }, 'missing')
+      ).rejects.toThrow('Tenant not found');
+      expect(prisma.webhookSubscription.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getWebhookSubscription', () => {
+    it('should treat subscriptions of other tenants as unknown', async () => {
+      const findFirst = prisma.webhookSubscription.findFirst as jest.Mock;
+      findFirst.mockResolvedValue(null);
+
+      await expect(getWebhookSubscription('hook_1', 'globex')).resolves.toBeNull();
+      expect(findFirst).toHaveBeenCalledWith({ where: { id: 'hook_1', tenantId: 'globex' } });
+    });
+  });
+
+  describe('enqueueWebhookEvents', () => {
+    const findMany = prisma.webhookSubscription.findMany as jest.Mock;
+    const createMany = prisma.webhookDelivery.createMany as jest.Mock;
+
+    it('should queue one delivery per event and matching subscription', async () => {
+      findMany.mockResolvedValue([
+        { id: 'hook_1', tenantId: 'default' },
+        { id: 'hook_2', tenantId: 'default' },
+      ]);
+      const now = new Date('2025-01-01T10:00:00.000Z');
+
+      await enqueueWebhookEvents(
+        prisma as never,
+        'token.revoked',
+        [
+          { tenantId: 'default', tokenId: 'a', userId: 'user123', details: { reason: 'leaked' } },
+          { tenantId: 'default', tokenId: 'b', userId: 'user123', details: { reason: 'leaked' } },
+        ],
+        now
+      );
+
+      expect(findMany).toHaveBeenCalledWith({
+        where: { enabled: true, eventTypes: { has: 'token.revoked' }, tenantId: { in: ['default'] } },
+        select: { id: true, tenantId: true },
+      });
+
+      const { data } = createMany.mock.calls[0][0];
+      expect(data).toHaveLength(4);
+      expect(data.map((delivery: { subscriptionId: string }) => delivery.subscriptionId)).toEqual([
+        'hook_1',
+        'hook_2',
+        'hook_1',
+        'hook_2',
+      ]);
+      // Subscribers of the same event see the same event id
+      expect(data[0].payload.id).toBe(data[1].payload.id);
+      expect(data[0].payload.id).not.toBe(data[2].payload.id);
+      expect(data[0]).toMatchObject({
+        eventType: 'token.revoked',
+        nextAttemptAt: now,
+        payload: {
+          type: 'token.revoked',
+          createdAt: now.toISOString(),
+          data: { tokenId: 'a', userId: 'user123', reason: 'leaked' },
+        },
+      });
+    });
+
+    it('should only queue events for subscriptions of the token tenant', async () => {
+      findMany.mockResolvedValue([
+        { id: 'hook_acme', tenantId: 'acme' },
+        { id: 'hook_globex', tenantId: 'globex' },
+      ]);
+
+      await enqueueWebhookEvents(prisma as never, 'token.created', [
+        { tenantId: 'acme', tokenId: 'a', userId: 'user123' },
+        { tenantId: 'globex', tokenId: 'b', userId: 'user123' },
+        { tenantId: 'initech', tokenId: 'c', userId: 'user123' },
+      ]);
+
+      expect(findMany.mock.calls[0][0].where.tenantId).toEqual({ in: ['acme', 'globex', 'initech'] });
+      expect(
+        createMany.mock.calls[0][0].data.map((delivery: { subscriptionId: string; payload: WebhookPayload }) => [
+          delivery.subscriptionId,
+          delivery.payload.data.tokenId,
+        ])
+      ).toEqual([
+        ['hook_acme', 'a'],
+        ['hook_globex', 'b'],
+      ]);
+    });
+
+    it('should not queue anything without subscribers', async () => {
+      findMany.mockResolvedValue([]);
+
+      await enqueueWebhookEvents(prisma as never, 'token.created', [{ tenantId: 'default', tokenId: 'a', userId: 'user123' }]);
+
+      expect(createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendWebhook', () => {
+    it('should POST the payload with a verifiable signature', async () => {
+      const result = await sendWebhook(stubUrl, secret, payload, 1000);
+
+      expect(result).toMatchObject({ ok: true, statusCode: 204, error: null });
+      expect(received).toHaveLength(1);
+
+      const [{ headers, body }] = received;
+      expect(JSON.parse(body)).toEqual(payload);
+      expect(headers['content-type']).toBe('application/json');
+      expect(headers['webhook-id']).toBe('evt_1');
+      expect(headers['webhook-signature']).toBe(
+        `sha256=${signWebhookPayload(secret, Number(headers['webhook-timestamp']), body)}`
+      );
+    });
+
+    it('should report error responses', async () => {
+      respond = (response) => response.writeHead(500).end('boom');
+
+      await expect(sendWebhook(stubUrl, secret, payload, 1000)).resolves.toMatchObject({
+        ok: false,
+        statusCode: 500,
+        error: 'Unexpected status 500',
+      });
+    });
+
+    it('should report timeouts and unreachable endpoints without throwing', async () => {
+      respond = (response) => setTimeout(() => response.writeHead(204).end(), 300);
+
+      const timedOut = await sendWebhook(stubUrl, secret, payload, 50);
+      expect(timedOut).toMatchObject({ ok: false, statusCode: null });
+      expect(timedOut.error).toBeTruthy();
+
+      const unreachable = await sendWebhook('http://127.0.0.1:1/hooks', secret, payload, 1000);
+      expect(unreachable).toMatchObject({ ok: false, statusCode: null });
+    });
+  });
+
+  describe('dispatchWebhookDeliveries', () => {
+    const findMany = prisma.webhookDelivery.findMany as jest.Mock;
+    const update = prisma.webhookDelivery.update as jest.Mock;
+    const createAttempt = prisma.webhookDeliveryAttempt.create as jest.Mock;
+
+    it('should mark successful deliveries as delivered and log the attempt', async () => {
+      findMany.mockResolvedValue([pendingDelivery()]);
+
+      await expect(dispatchWebhookDeliveries()).resolves.toBe(1);
+
+      expect(received).toHaveLength(1);
+      expect(createAttempt.mock.calls[0][0].data).toMatchObject({ deliveryId: 'delivery_1', statusCode: 204, error: null });
+      expect(update.mock.calls[0][0]).toMatchObject({
+        where: { id: 'delivery_1' },
+        data: { status: 'delivered', attempts: 1, deliveredAt: expect.any(Date) },
+      });
+    });
+
+    it('should retry failed deliveries with exponential backoff', async () => {
+      respond = (response) => response.writeHead(503).end();
+      findMany.mockResolvedValue([pendingDelivery({ attempts: 1 })]);
+
+      await dispatchWebhookDeliveries();
+
+      const { data } = update.mock.calls[0][0];
+      expect(data).toMatchObject({ status: 'pending', attempts: 2, deliveredAt: null });
+      expect(data.nextAttemptAt.getTime() - data.lastAttemptAt.getTime()).toBe(getWebhookRetryDelayMs(2));
+      expect(createAttempt.mock.calls[0][0].data).toMatchObject({ statusCode: 503, error: 'Unexpected status 503' });
+    });
+
+    it('should give up once the maximum number of attempts is reached', async () => {
+      respond = (response) => response.writeHead(500).end();
+      findMany.mockResolvedValue([pendingDelivery({ attempts: 2 })]);
+
+      await dispatchWebhookDeliveries();
+
+      expect(update.mock.calls[0][0].data).toMatchObject({ status: 'failed', attempts: 3, nextAttemptAt: undefined });
+    });
+
+    it('should record a delivery that cannot be sent without failing the others', async () => {
+      const undecryptable = pendingDelivery({ id: 'delivery_2', attempts: 1 });
+      undecryptable.subscription = { ...undecryptable.subscription, encryptedSecret: encryptSecret(secret, randomBytes(32)) };
+      findMany.mockResolvedValue([undecryptable, pendingDelivery()]);
+
+      await expect(dispatchWebhookDeliveries()).resolves.toBe(2);
+
+      expect(received).toHaveLength(1);
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'delivery_1' }, data: expect.objectContaining({ status: 'delivered' }) })
+      );
+
+      const failedUpdate = update.mock.calls.find(([call]) => call.where.id === 'delivery_2')[0];
+      expect(failedUpdate.data).toMatchObject({ status: 'pending', attempts: 2, deliveredAt: null });
+      expect(failedUpdate.data.nextAttemptAt.getTime() - failedUpdate.data.lastAttemptAt.getTime()).toBe(
+        getWebhookRetryDelayMs(2)
+      );
+      expect(createAttempt).toHaveBeenCalledWith({
+        data: expect.objectContaining({ deliveryId: 'delivery_2', statusCode: null, error: expect.any(String), durationMs: 0 }),
+      });
+    });
+
+    it('should only send due deliveries of enabled subscriptions', async () => {
+      findMany.mockResolvedValue([]);
+      const now = new Date('2025-01-01T10:00:00.000Z');
+
+      await dispatchWebhookDeliveries(now);
+
+      expect(findMany.mock.calls[0][0].where).toEqual({
+        status: 'pending',
+        nextAttemptAt: { lte: now },
+        subscription: { enabled: true },
+      });
+    });
+  });
+});
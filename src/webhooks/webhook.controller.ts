@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { authenticateRequest } from '@/lib/auth';
+import { ApiError } from '@/lib/errors';
+import {
+  createWebhookSchema,
+  getWebhookDeliveriesSchema,
+  updateWebhookSchema,
+} from '@/webhooks/webhook.validation';
+import {
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  getWebhookSubscription,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  serializeWebhookSubscription,
+  updateWebhookSubscription,
+} from '@/webhooks/webhook.service';
+import type { WebhookDeliveryPageResponse } from '@/webhooks/webhook.type';
+import type { ErrorResponse } from '@/tokens/token.type';
+
+/**
+ * Maps errors thrown while handling a webhook request to a response
+ */
+function handleWebhookError(error: unknown, action: string) {
+  // Handle validation errors
+  if (error instanceof ZodError) {
+    return NextResponse.json<ErrorResponse>(
+      {
+        error: 'Validation failed',
+        details: error.issues,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Handle expected service errors
+  if (error instanceof ApiError) {
+    return NextResponse.json<ErrorResponse>(
+      { error: error.message, details: error.details },
+      { status: error.status }
+    );
+  }
+
+  // Handle other errors
+  console.error(`Error ${action}:`, error);
+  return NextResponse.json<ErrorResponse>(
+    { error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+/**
+ * Returns the tenant selected with X-Tenant-Id, or an error response unless
+ * the request carries the admin API key
+ */
+async function requireAdmin(request: NextRequest): Promise<{ tenantId: string } | NextResponse<ErrorResponse>> {
+  const auth = await authenticateRequest(request);
+
+  if (!auth) {
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Unauthorized. Valid X-API-Key header required.' },
+      { status: 401 }
+    );
+  }
+
+  if (auth.type !== 'admin') {
+    return NextResponse.json<ErrorResponse>(
+      { error: 'Forbidden. Admin API key required.' },
+      { status: 403 }
+    );
+  }
+
+  return { tenantId: auth.tenantId };
+}
+
+function webhookNotFound() {
+  return NextResponse.json<ErrorResponse>(
+    { error: 'Webhook subscription not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Controller for listing webhook subscriptions
+ */
+export async function listWebhooksController(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const subscriptions = await listWebhookSubscriptions(admin.tenantId);
+
+    return NextResponse.json(
+      subscriptions.map((subscription) => serializeWebhookSubscription(subscription)),
+      { status: 200 }
+    );
+  } catch (error) {
+    return handleWebhookError(error, 'listing webhooks');
+  }
+}
+
+/**
+ * Controller for creating a webhook subscription and its signing secret
+ */
+export async function createWebhookController(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const body = await request.json();
+    const validatedData = createWebhookSchema.parse(body);
+
+    const { subscription, secret } = await createWebhookSubscription(validatedData, admin.tenantId);
+
+    // The signing secret is only ever shown here
+    return NextResponse.json(serializeWebhookSubscription(subscription, secret), { status: 201 });
+  } catch (error) {
+    return handleWebhookError(error, 'creating webhook');
+  }
+}
+
+/**
+ * Controller for retrieving a single webhook subscription
+ */
+export async function getWebhookController(request: NextRequest, id: string) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const subscription = await getWebhookSubscription(id, admin.tenantId);
+
+    if (!subscription) {
+      return webhookNotFound();
+    }
+
+    return NextResponse.json(serializeWebhookSubscription(subscription), { status: 200 });
+  } catch (error) {
+    return handleWebhookError(error, 'fetching webhook');
+  }
+}
+
+/**
+ * Controller for updating a webhook subscription
+ */
+export async function updateWebhookController(request: NextRequest, id: string) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const body = await request.json();
+    const validatedData = updateWebhookSchema.parse(body);
+
+    const subscription = await updateWebhookSubscription(id, admin.tenantId, validatedData);
+
+    if (!subscription) {
+      return webhookNotFound();
+    }
+
+    return NextResponse.json(serializeWebhookSubscription(subscription), { status: 200 });
+  } catch (error) {
+    return handleWebhookError(error, 'updating webhook');
+  }
+}
+
+/**
+ * Controller for deleting a webhook subscription and its deliveries
+ */
+export async function deleteWebhookController(request: NextRequest, id: string) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const subscription = await deleteWebhookSubscription(id, admin.tenantId);
+
+    if (!subscription) {
+      return webhookNotFound();
+    }
+
+    return NextResponse.json(serializeWebhookSubscription(subscription), { status: 200 });
+  } catch (error) {
+    return handleWebhookError(error, 'deleting webhook');
+  }
+}
+
+/**
+ * Controller for a subscription's delivery log
+ */
+export async function listWebhookDeliveriesController(request: NextRequest, id: string) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin instanceof NextResponse) {
+      return admin;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const validatedData = getWebhookDeliveriesSchema.parse({
+      status: searchParams.get('status') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+      cursor: searchParams.get('cursor') ?? undefined,
+    });
+
+    const page = await listWebhookDeliveries(id, admin.tenantId, validatedData);
+
+    if (!page) {
+      return webhookNotFound();
+    }
+
+    return NextResponse.json<WebhookDeliveryPageResponse>(page, { status: 200 });
+  } catch (error) {
+    return handleWebhookError(error, 'listing webhook deliveries');
+  }
+}
@@ -0,0 +1,520 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma, withAdvisoryLock, type DbClient } from '@/lib/db';
+import { getConfig } from '@/lib/config';
+import { decryptSecret, encryptSecret, getMasterKey } from '@/lib/encryption';
+import { ApiError } from '@/lib/errors';
+import { requireTenant } from '@/tenants/tenant.service';
+import type {
+  CreateWebhookInput,
+  GetWebhookDeliveriesInput,
+  UpdateWebhookInput,
+} from '@/webhooks/webhook.validation';
+import type {
+  IssuedWebhookSubscription,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryPageResponse,
+  WebhookDeliveryResponse,
+  WebhookEventInput,
+  WebhookEventType,
+  WebhookPayload,
+  WebhookSendResult,
+  WebhookSubscription,
+  WebhookSubscriptionResponse,
+} from '@/webhooks/webhook.type';
+
+/**
+ * Advisory lock held while delivering, so one replica sends each delivery
+ */
+export const WEBHOOK_DISPATCH_LOCK_NAME = 'webhooks:dispatch';
+
+/**
+ * Number of due deliveries sent per dispatch run
+ */
+const WEBHOOK_DISPATCH_BATCH_SIZE = 50;
+
+/**
+ * Delay before the first retry; doubles with every failed attempt
+ */
+const WEBHOOK_RETRY_BASE_MS = 30 * 1000;
+
+/**
+ * Longest delay between two attempts
+ */
+const WEBHOOK_RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Generates a webhook signing secret
+ * Format: whsec_<32 random bytes, base64url>
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Computes the signature sent in the Webhook-Signature header:
+ * HMAC-SHA256 (hex) of "<timestamp>.<body>" keyed with the subscription secret
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ */
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1), WEBHOOK_RETRY_MAX_MS);
+}
+
+/**
+ * Loads the master key protecting webhook secrets
+ *
+ * @throws ApiError (503) when no master key is configured
+ */
+function requireMasterKey(): Buffer {
+  const masterKey = getMasterKey();
+
+  if (!masterKey) {
+    throw new ApiError(503, 'Webhooks are not enabled on this server; KEY_ENCRYPTION_KEY is required');
+  }
+
+  return masterKey;
+}
+
+/**
+ * Converts a WebhookSubscription to its response format; the secret is
+ * never read back from storage
+ *
+ * @param subscription - The stored subscription
+ * @param secret - The plaintext secret, only passed right after creating it
+ */
+export function serializeWebhookSubscription(
+  subscription: WebhookSubscription,
+  secret?: string
+): WebhookSubscriptionResponse {
+  return {
+    id: subscription.id,
+    url: subscription.url,
+    eventTypes: subscription.eventTypes,
+    description: subscription.description,
+    enabled: subscription.enabled,
+    tenantId: subscription.tenantId,
+    createdAt: subscription.createdAt.toISOString(),
+    updatedAt: subscription.updatedAt.toISOString(),
+    ...(secret ? { secret } : {}),
+  };
+}
+
+/**
+ * Converts a delivery and its attempts to the response format
+ */
+export function serializeWebhookDelivery(
+  delivery: WebhookDelivery & { attemptLog: WebhookDeliveryAttempt[] }
+): WebhookDeliveryResponse {
+  return {
+    id: delivery.id,
+    subscriptionId: delivery.subscriptionId,
+    eventType: delivery.eventType,
+    payload: delivery.payload,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextAttemptAt: delivery.nextAttemptAt.toISOString(),
+    lastAttemptAt: delivery.lastAttemptAt ? delivery.lastAttemptAt.toISOString() : null,
+    deliveredAt: delivery.deliveredAt ? delivery.deliveredAt.toISOString() : null,
+    createdAt: delivery.createdAt.toISOString(),
+    attemptLog: delivery.attemptLog.map((attempt) => ({
+      attemptedAt: attempt.attemptedAt.toISOString(),
+      statusCode: attempt.statusCode,
+      error: attempt.error,
+      durationMs: attempt.durationMs,
+    })),
+  };
+}
+
+/**
+ * Lists a tenant's webhook subscriptions ordered by creation
+ *
+ * @param tenantId - The caller's tenant
+ */
+export async function listWebhookSubscriptions(tenantId: string): Promise<WebhookSubscription[]> {
+  return prisma.webhookSubscription.findMany({
+    where: {
+      tenantId,
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+}
+
+/**
+ * Retrieves a single webhook subscription
+ *
+ * @param tenantId - The caller's tenant; subscriptions of other tenants are treated as unknown
+ * @returns The subscription, or null if it does not exist
+ */
+export async function getWebhookSubscription(id: string, tenantId: string): Promise<WebhookSubscription | null> {
+  return prisma.webhookSubscription.findFirst({
+    where: {
+      id,
+      tenantId,
+    },
+  });
+}
+
+/**
+ * Creates a webhook subscription and generates its signing secret
+ *
+ * @param tenantId - The tenant whose token events the subscription receives
+ * @throws ApiError (503) when no master key is configured to protect the secret,
+ *   (404) if the tenant does not exist
+ */
+export async function createWebhookSubscription(
+  input: CreateWebhookInput,
+  tenantId: string
+): Promise<IssuedWebhookSubscription> {
+  const masterKey = requireMasterKey();
+  await requireTenant(tenantId);
+  const secret = generateWebhookSecret();
+
+  const subscription = await prisma.webhookSubscription.create({
+    data: {
+      url: input.url,
+      eventTypes: input.eventTypes,
+      description: input.description ?? null,
+      encryptedSecret: encryptSecret(secret, masterKey),
+      tenantId,
+    },
+  });
+
+  return { subscription, secret };
+}
+
+/**
+ * Updates a subscription's endpoint, event filter, description or enabled status
+ *
+ * @param tenantId - The caller's tenant
+ * @returns The updated subscription, or null if it does not exist
+ */
+export async function updateWebhookSubscription(
+  id: string,
+  tenantId: string,
+  input: UpdateWebhookInput
+): Promise<WebhookSubscription | null> {
+  if (!(await getWebhookSubscription(id, tenantId))) {
+    return null;
+  }
+
+  return prisma.webhookSubscription.update({
+    where: {
+      id,
+    },
+    data: input,
+  });
+}
+
+/**
+ * Deletes a subscription together with its deliveries and their log
+ *
+ * @param tenantId - The caller's tenant
+ * @returns The deleted subscription, or null if it does not exist
+ */
+export async function deleteWebhookSubscription(id: string, tenantId: string): Promise<WebhookSubscription | null> {
+  if (!(await getWebhookSubscription(id, tenantId))) {
+    return null;
+  }
+
+  return prisma.webhookSubscription.delete({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Adds events of one type to the outbox of every enabled subscription of the
+ * event's tenant filtering for it
+ *
+ * @param db - Pass the transaction client of the change so the deliveries
+ *   are only queued if it commits
+ * @param type - The event type
+ * @param events - One entry per affected token
+ * @param now - When the events happened
+ */
+export async function enqueueWebhookEvents(
+  db: DbClient,
+  type: WebhookEventType,
+  events: WebhookEventInput[],
+  now: Date = new Date()
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+
+  const subscriptions = await db.webhookSubscription.findMany({
+    where: {
+      enabled: true,
+      eventTypes: {
+        has: type,
+      },
+      tenantId: {
+        in: [...new Set(events.map((event) => event.tenantId))],
+      },
+    },
+    select: {
+      id: true,
+      tenantId: true,
+    },
+  });
+
+  if (subscriptions.length === 0) {
+    return;
+  }
+
+  const deliveries = events.flatMap((event) => {
+    const payload: WebhookPayload = {
+      id: randomUUID(),
+      type,
+      createdAt: now.toISOString(),
+      data: { tokenId: event.tokenId, userId: event.userId, ...event.details },
+    };
+
+    return subscriptions
+      .filter((subscription) => subscription.tenantId === event.tenantId)
+      .map((subscription) => ({
+        subscriptionId: subscription.id,
+        eventType: type,
+        payload: payload as unknown as Prisma.InputJsonObject,
+        nextAttemptAt: now,
+      }));
+  });
+
+  if (deliveries.length === 0) {
+    return;
+  }
+
+  await db.webhookDelivery.createMany({
+    data: deliveries,
+  });
+}
+
+/**
+ * POSTs a signed payload to a webhook endpoint
+ * Never throws: network errors and timeouts are reported in the result
+ *
+ * Headers: Webhook-Id (event id, shared across retries), Webhook-Timestamp
+ * (Unix seconds) and Webhook-Signature ("sha256=<hex>")
+ *
+ * @param url - The subscriber endpoint
+ * @param secret - The subscription's signing secret
+ * @param payload - The event to send
+ * @param timeoutMs - Time allowed for the response
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  payload: WebhookPayload,
+  timeoutMs: number
+): Promise<WebhookSendResult> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Webhook-Id': payload.id,
+        'Webhook-Timestamp': String(timestamp),
+        'Webhook-Signature': `sha256=${signWebhookPayload(secret, timestamp, body)}`,
+      },
+      body,
+      // Redirects are failures; subscribers must register the final URL
+      redirect: 'manual',
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+
+    // The response body is not used; release the connection
+    await response.body?.cancel();
+
+    return {
+      ok: response.ok,
+      statusCode: response.status,
+      error: response.ok ? null : `Unexpected status ${response.status}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+/**
+ * Sends one delivery and records the attempt
+ */
+async function attemptWebhookDelivery(
+  delivery: WebhookDelivery & { subscription: WebhookSubscription },
+  masterKey: Buffer
+): Promise<void> {
+  const attemptedAt = new Date();
+
+  const result = await sendWebhook(
+    delivery.subscription.url,
+    decryptSecret(delivery.subscription.encryptedSecret, masterKey),
+    delivery.payload as WebhookPayload,
+    getConfig().webhooks.timeoutSeconds * 1000
+  );
+
+  await recordWebhookAttempt(delivery, attemptedAt, result);
+}
+
+/**
+ * Logs an attempt and moves the delivery to its next state
+ * Failed deliveries are retried with exponential backoff until the maximum
+ * number of attempts is reached, then marked failed
+ */
+async function recordWebhookAttempt(
+  delivery: WebhookDelivery,
+  attemptedAt: Date,
+  result: WebhookSendResult
+): Promise<void> {
+  const { maxAttempts } = getConfig().webhooks;
+  const attempts = delivery.attempts + 1;
+  const status = result.ok ? 'delivered' : attempts >= maxAttempts ? 'failed' : 'pending';
+
+  await prisma.$transaction([
+    prisma.webhookDeliveryAttempt.create({
+      data: {
+        deliveryId: delivery.id,
+        attemptedAt,
+        statusCode: result.statusCode,
+        error: result.error,
+        durationMs: result.durationMs,
+      },
+    }),
+    prisma.webhookDelivery.update({
+      where: {
+        id: delivery.id,
+      },
+      data: {
+        status,
+        attempts,
+        lastAttemptAt: attemptedAt,
+        deliveredAt: result.ok ? attemptedAt : null,
+        nextAttemptAt:
+          status === 'pending' ? new Date(attemptedAt.getTime() + getWebhookRetryDelayMs(attempts)) : undefined,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Sends due deliveries of enabled subscriptions
+ * Deliveries of disabled subscriptions stay queued until re-enabled.
+ *
+ * @param now - Deliveries due at or before this time are sent
+ * @returns Number of deliveries attempted, or null when another instance is
+ *   already dispatching
+ */
+export async function dispatchWebhookDeliveries(now: Date = new Date()): Promise<number | null> {
+  const masterKey = getMasterKey();
+
+  // Without a master key no subscription can exist
+  if (!masterKey) {
+    return 0;
+  }
+
+  return withAdvisoryLock(WEBHOOK_DISPATCH_LOCK_NAME, async () => {
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        status: 'pending',
+        nextAttemptAt: {
+          lte: now,
+        },
+        subscription: {
+          enabled: true,
+        },
+      },
+      include: {
+        subscription: true,
+      },
+      orderBy: {
+        nextAttemptAt: 'asc',
+      },
+      take: WEBHOOK_DISPATCH_BATCH_SIZE,
+    });
+
+    const outcomes = await Promise.allSettled(
+      deliveries.map((delivery) => attemptWebhookDelivery(delivery, masterKey))
+    );
+
+    // A delivery that could not be sent or recorded (e.g. its secret no longer
+    // decrypts) counts as a failed attempt without holding up the others
+    for (const [index, outcome] of outcomes.entries()) {
+      if (outcome.status === 'rejected') {
+        const delivery = deliveries[index];
+        const result: WebhookSendResult = {
+          ok: false,
+          statusCode: null,
+          error: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+          durationMs: 0,
+        };
+
+        await recordWebhookAttempt(delivery, new Date(), result).catch((error) =>
+          console.error(`Error recording webhook delivery ${delivery.id}:`, error)
+        );
+      }
+    }
+
+    return deliveries.length;
+  });
+}
+
+/**
+ * Lists a subscription's deliveries with their attempts, newest first
+ *
+ * @param subscriptionId - The subscription identifier
+ * @param tenantId - The caller's tenant
+ * @param query - Status filter, page size and the cursor from the previous page
+ * @returns The page, or null if the subscription does not exist
+ */
+export async function listWebhookDeliveries(
+  subscriptionId: string,
+  tenantId: string,
+  query: GetWebhookDeliveriesInput
+): Promise<WebhookDeliveryPageResponse | null> {
+  if (!(await getWebhookSubscription(subscriptionId, tenantId))) {
+    return null;
+  }
+
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: {
+      subscriptionId,
+      status: query.status,
+    },
+    include: {
+      attemptLog: {
+        orderBy: {
+          attemptedAt: 'asc',
+        },
+      },
+    },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    // Fetch one extra row to learn whether another page exists
+    take: query.limit + 1,
+    ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+  });
+
+  const page = deliveries.slice(0, query.limit);
+
+  return {
+    deliveries: page.map(serializeWebhookDelivery),
+    nextCursor: deliveries.length > query.limit ? page[page.length - 1].id : null,
+  };
+}
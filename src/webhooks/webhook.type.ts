@@ -0,0 +1,165 @@
+/**
+ * Token events that can be delivered to webhook subscribers
+ */
+export const WEBHOOK_EVENT_TYPES = ['token.created', 'token.revoked', 'token.expiring'] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+/**
+ * Delivery state: pending until a 2xx response, failed once retries run out
+ */
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Webhook subscription matching the database schema
+ * The signing secret is stored encrypted with the master key
+ */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  eventTypes: string[];
+  description: string | null;
+  encryptedSecret: string;
+  enabled: boolean;
+  tenantId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A subscription together with its freshly generated signing secret
+ */
+export interface IssuedWebhookSubscription {
+  subscription: WebhookSubscription;
+  secret: string;
+}
+
+/**
+ * Outbox row: one event to deliver to one subscription
+ */
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventType: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Delivery log entry: the outcome of one HTTP request
+ */
+export interface WebhookDeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  attemptedAt: Date;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * A single token event to deliver
+ * Only subscriptions of the token's tenant receive it
+ */
+export interface WebhookEventInput {
+  tenantId: string;
+  tokenId: string;
+  userId: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * JSON body POSTed to subscribers
+ * `id` is shared by every subscription receiving the same event
+ */
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Outcome of sending a webhook request
+ */
+export interface WebhookSendResult {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Request payload for creating a webhook subscription
+ */
+export interface CreateWebhookRequest {
+  url: string;
+  eventTypes: WebhookEventType[];
+  description?: string;
+}
+
+/**
+ * Request payload for updating a webhook subscription
+ */
+export interface UpdateWebhookRequest {
+  url?: string;
+  eventTypes?: WebhookEventType[];
+  description?: string | null;
+  enabled?: boolean;
+}
+
+/**
+ * Response format for webhook subscriptions
+ * `secret` is only included when the subscription was just created
+ */
+export interface WebhookSubscriptionResponse {
+  id: string;
+  url: string;
+  eventTypes: string[];
+  description: string | null;
+  enabled: boolean;
+  tenantId: string;
+  createdAt: string;
+  updatedAt: string;
+  secret?: string;
+}
+
+/**
+ * Response format for a delivery attempt
+ */
+export interface WebhookDeliveryAttemptResponse {
+  attemptedAt: string;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number;
+}
+
+/**
+ * Response format for a delivery and its attempts, oldest first
+ */
+export interface WebhookDeliveryResponse {
+  id: string;
+  subscriptionId: string;
+  eventType: string;
+  payload: unknown;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  attemptLog: WebhookDeliveryAttemptResponse[];
+}
+
+/**
+ * Response format for a page of deliveries, newest first
+ */
+export interface WebhookDeliveryPageResponse {
+  deliveries: WebhookDeliveryResponse[];
+  nextCursor: string | null;
+}
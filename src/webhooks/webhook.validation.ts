@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { WEBHOOK_EVENT_TYPES } from '@/webhooks/webhook.type';
+
+const webhookUrlSchema = z
+  .url({ protocol: /^https?$/, error: 'url must be an http or https URL' })
+  .max(2048, 'url cannot exceed 2048 characters');
+
+const eventTypesSchema = z
+  .array(z.enum(WEBHOOK_EVENT_TYPES))
+  .min(1, 'At least one event type is required');
+
+const webhookDescriptionSchema = z.string().max(500, 'description cannot exceed 500 characters');
+
+/**
+ * Validation schema for creating a webhook subscription
+ * 
+ * Rules:
+ * - url: http or https endpoint receiving POST requests
+ * - eventTypes: token.created, token.revoked and/or token.expiring
+ * - description: optional, up to 500 characters
+ */
+export const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  eventTypes: eventTypesSchema,
+  description: webhookDescriptionSchema.optional(),
+});
+
+/**
+ * Validation schema for updating a webhook subscription
+ */
+export const updateWebhookSchema = z
+  .object({
+    url: webhookUrlSchema.optional(),
+    eventTypes: eventTypesSchema.optional(),
+    description: webhookDescriptionSchema.nullable().optional(),
+    enabled: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field is required',
+  });
+
+/**
+ * Validation schema for listing a subscription's deliveries
+ * 
+ * Rules:
+ * - status: pending, delivered or failed
+ * - limit: page size between 1 and 100, defaults to 50
+ * - cursor: `nextCursor` of the previous page
+ */
+export const getWebhookDeliveriesSchema = z.object({
+  status: z.enum(['pending', 'delivered', 'failed']).optional(),
+  limit: z.coerce
+    .number()
+    .int('limit must be an integer')
+    .min(1, 'limit must be at least 1')
+    .max(100, 'limit cannot exceed 100')
+    .default(50),
+  cursor: z.string().min(1, 'cursor must not be empty').optional(),
+});
+
+/**
+ * Type inference from schemas for TypeScript
+ */
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof updateWebhookSchema>;
+export type GetWebhookDeliveriesInput = z.infer<typeof getWebhookDeliveriesSchema>;